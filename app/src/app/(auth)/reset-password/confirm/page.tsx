@@ -0,0 +1,180 @@
+'use client';
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useEffect, useTransition, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type PasswordResetToken, useAppStore } from "@/store/use-app-store";
+import { findResetToken } from "@/utils/password-reset";
+
+const confirmSchema = z
+  .object({
+    currentPassword: z.string(),
+    password: z
+      .string()
+      .min(6, "Password must be at least 6 characters long.")
+      .regex(/[A-Z]/, "Include at least one uppercase letter.")
+      .regex(/[0-9]/, "Include at least one number."),
+    confirmPassword: z.string(),
+  })
+  .superRefine(({ password, confirmPassword }, ctx) => {
+    if (password !== confirmPassword) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Passwords do not match.",
+        path: ["confirmPassword"],
+      });
+    }
+  });
+
+type ConfirmForm = z.infer<typeof confirmSchema>;
+
+export default function ConfirmResetPage() {
+  const params = useSearchParams();
+  const token = params.get("token") ?? "";
+  const resetTokens = useAppStore((state) => state.resetTokens);
+  const vaults = useAppStore((state) => state.vaults);
+  const users = useAppStore((state) => state.users);
+  const resetPassword = useAppStore((state) => state.resetPassword);
+  const [entry, setEntry] = useState<PasswordResetToken | null | undefined>(undefined);
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const [status, setStatus] = useState<"success" | "error" | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  useEffect(() => {
+    let active = true;
+    findResetToken(resetTokens, token).then((match) => {
+      if (active) setEntry(match ?? null);
+    });
+    return () => {
+      active = false;
+    };
+  }, [resetTokens, token]);
+
+  const vault = entry ? vaults.find((candidate) => candidate.id === entry.userId) : undefined;
+  // Encrypted data can only be carried over with the old password, unless it's unlocked in this tab.
+  const needsOldPassword = Boolean(vault?.key) && !users.some((user) => user.id === vault?.id);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ConfirmForm>({
+    resolver: zodResolver(confirmSchema),
+    defaultValues: {
+      currentPassword: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = (values: ConfirmForm) => {
+    if (
+      needsOldPassword &&
+      !values.currentPassword &&
+      !window.confirm(
+        "Without your old password your encrypted data can't be recovered. Start over with an empty account?",
+      )
+    ) {
+      return;
+    }
+    startTransition(async () => {
+      try {
+        await resetPassword({
+          token,
+          currentPassword: values.currentPassword || undefined,
+          newPassword: values.password,
+        });
+        setStatus("success");
+        setFeedback("Password updated successfully. You can sign in with your new password.");
+      } catch (cause) {
+        setStatus("error");
+        setFeedback(cause instanceof Error ? cause.message : "Unable to reset password.");
+      }
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] px-4 py-10">
+      <div className="glass card-shadow flex w-full max-w-lg flex-col gap-8 rounded-[var(--radius-lg)] border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] p-10">
+        <div className="flex flex-col gap-3">
+          <span className="text-sm font-semibold uppercase tracking-[0.4em] text-[color:var(--color-brand)]">
+            Reset access
+          </span>
+          <h1 className="text-3xl font-semibold text-[color:var(--color-foreground)]">
+            Choose a secure password
+          </h1>
+          {vault ? (
+            <p className="text-sm text-[color:var(--color-muted)]">Setting a new password for {vault.email}.</p>
+          ) : null}
+        </div>
+
+        {status === "success" ? (
+          <div className="rounded-2xl border border-[rgba(34,197,94,0.24)] bg-[rgba(34,197,94,0.12)] px-4 py-3 text-sm text-[color:var(--color-accent)]">
+            {feedback}
+          </div>
+        ) : entry === undefined ? (
+          <p className="text-sm text-[color:var(--color-muted)]">Checking your reset link…</p>
+        ) : entry === null ? (
+          <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+            This reset link is invalid or has expired.{" "}
+            <Link href="/reset-password" className="font-medium underline">
+              Request a new one
+            </Link>
+            .
+          </div>
+        ) : (
+          <form className="flex flex-col gap-5" onSubmit={handleSubmit(onSubmit)}>
+            {needsOldPassword ? (
+              <Input
+                label="Old password (optional)"
+                type="password"
+                placeholder="Keeps your encrypted data"
+                error={errors.currentPassword?.message}
+                autoComplete="current-password"
+                {...register("currentPassword")}
+              />
+            ) : null}
+            <Input
+              label="New password"
+              type="password"
+              placeholder="Create a strong password"
+              error={errors.password?.message}
+              autoComplete="new-password"
+              {...register("password")}
+            />
+            <Input
+              label="Confirm new password"
+              type="password"
+              placeholder="Repeat your password"
+              error={errors.confirmPassword?.message}
+              autoComplete="new-password"
+              {...register("confirmPassword")}
+            />
+
+            {status === "error" ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+                {feedback}
+              </div>
+            ) : null}
+
+            <Button type="submit" isLoading={isPending}>
+              Update password
+            </Button>
+          </form>
+        )}
+
+        <div className="text-sm text-[color:var(--color-muted)]">
+          Remembered it?{" "}
+          <Link href="/sign-in" className="font-medium text-[color:var(--color-brand)] hover:underline">
+            Return to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,33 +7,18 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useTransition, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { OutboxPanel } from "@/components/mail/outbox-panel";
 import { useAppStore } from "@/store/use-app-store";
-import { hashPassword } from "@/utils/crypto";
+import { isOutboxEnabled } from "@/utils/mailer";
 
-const resetSchema = z
-  .object({
-    email: z.string().email("Enter a valid email address."),
-    password: z
-      .string()
-      .min(6, "Password must be at least 6 characters long.")
-      .regex(/[A-Z]/, "Include at least one uppercase letter.")
-      .regex(/[0-9]/, "Include at least one number."),
-    confirmPassword: z.string(),
-  })
-  .superRefine(({ password, confirmPassword }, ctx) => {
-    if (password !== confirmPassword) {
-      ctx.addIssue({
-        code: "custom",
-        message: "Passwords do not match.",
-        path: ["confirmPassword"],
-      });
-    }
-  });
+const requestSchema = z.object({
+  email: z.string().email("Enter a valid email address."),
+});
 
-type ResetForm = z.infer<typeof resetSchema>;
+type RequestForm = z.infer<typeof requestSchema>;
 
 export default function ResetPasswordPage() {
-  const resetPassword = useAppStore((state) => state.resetPassword);
+  const requestPasswordReset = useAppStore((state) => state.requestPasswordReset);
   const [feedback, setFeedback] = useState<string | null>(null);
   const [status, setStatus] = useState<"success" | "error" | null>(null);
   const [isPending, startTransition] = useTransition();
@@ -42,28 +27,22 @@ export default function ResetPasswordPage() {
     register,
     handleSubmit,
     formState: { errors },
-  } = useForm<ResetForm>({
-    resolver: zodResolver(resetSchema),
+  } = useForm<RequestForm>({
+    resolver: zodResolver(requestSchema),
     defaultValues: {
       email: "",
-      password: "",
-      confirmPassword: "",
     },
   });
 
-  const onSubmit = (values: ResetForm) => {
+  const onSubmit = (values: RequestForm) => {
     startTransition(async () => {
       try {
-        const hashed = await hashPassword(values.password);
-        resetPassword({
-          email: values.email,
-          newPasswordHash: hashed,
-        });
+        await requestPasswordReset({ email: values.email, origin: window.location.origin });
         setStatus("success");
-        setFeedback("Password updated successfully. You can sign in with your new password.");
+        setFeedback("If an account uses that email, a reset link is on its way. It expires in an hour.");
       } catch (cause) {
         setStatus("error");
-        setFeedback(cause instanceof Error ? cause.message : "Unable to reset password.");
+        setFeedback(cause instanceof Error ? cause.message : "Unable to send a reset link.");
       }
     });
   };
@@ -76,11 +55,10 @@ export default function ResetPasswordPage() {
             Reset access
           </span>
           <h1 className="text-3xl font-semibold text-[color:var(--color-foreground)]">
-            Choose a secure password
+            Forgot your password?
           </h1>
           <p className="text-sm text-[color:var(--color-muted)]">
-            Enter your account email and a new password. We&apos;ll update it instantly so you can
-            continue managing your finances safely.
+            Enter your account email and we&apos;ll send you a link to choose a new password.
           </p>
         </div>
 
@@ -93,22 +71,6 @@ export default function ResetPasswordPage() {
             autoComplete="email"
             {...register("email")}
           />
-          <Input
-            label="New password"
-            type="password"
-            placeholder="Create a strong password"
-            error={errors.password?.message}
-            autoComplete="new-password"
-            {...register("password")}
-          />
-          <Input
-            label="Confirm new password"
-            type="password"
-            placeholder="Repeat your password"
-            error={errors.confirmPassword?.message}
-            autoComplete="new-password"
-            {...register("confirmPassword")}
-          />
 
           {feedback ? (
             <div
@@ -123,10 +85,12 @@ export default function ResetPasswordPage() {
           ) : null}
 
           <Button type="submit" isLoading={isPending}>
-            Update password
+            Send reset link
           </Button>
         </form>
 
+        {isOutboxEnabled ? <OutboxPanel /> : null}
+
         <div className="text-sm text-[color:var(--color-muted)]">
           Remembered it?{" "}
           <Link href="/sign-in" className="font-medium text-[color:var(--color-brand)] hover:underline">
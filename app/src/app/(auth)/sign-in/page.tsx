@@ -5,12 +5,13 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useTransition, useState } from "react";
+import { FormEvent, useTransition, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useAppStore } from "@/store/use-app-store";
-import { hashPassword } from "@/utils/crypto";
+import { type User, useAppStore } from "@/store/use-app-store";
 import { useTheme } from "next-themes";
+import { format } from "date-fns";
+import { lockedUntil } from "@/utils/sign-in-throttle";
 
 const signInSchema = z.object({
   email: z.string().email("Enter a valid email address."),
@@ -24,8 +25,14 @@ export default function SignInPage() {
   const params = useSearchParams();
   const { setTheme } = useTheme();
   const [error, setError] = useState<string | null>(null);
+  const [lockout, setLockout] = useState<Date | null>(null);
+  // The account email while the second sign-in step is showing.
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
   const signIn = useAppStore((state) => state.signIn);
-  const users = useAppStore((state) => state.users);
+  const completeTwoFactor = useAppStore((state) => state.completeTwoFactor);
+  const cancelTwoFactor = useAppStore((state) => state.cancelTwoFactor);
+  const vaults = useAppStore((state) => state.vaults);
   const updateSettings = useAppStore((state) => state.updateSettings);
   const [isPending, startTransition] = useTransition();
 
@@ -41,29 +48,69 @@ export default function SignInPage() {
     },
   });
 
+  const finish = (user: User) => {
+    setTheme(user.settings.darkMode ? "dark" : "light");
+    if (!user.settings.notifications) {
+      updateSettings(user.id, { notifications: false });
+    }
+
+    const next = params.get("next") ?? "/dashboard";
+    router.replace(next);
+  };
+
+  const fail = (cause: unknown, email: string) => {
+    const address = email.trim().toLowerCase();
+    const until = lockedUntil(useAppStore.getState().signInAttempts.find((entry) => entry.email === address));
+    if (until) {
+      setLockout(until);
+      setChallenge(null);
+    } else {
+      setError(cause instanceof Error ? cause.message : "Unable to sign in.");
+    }
+  };
+
   const onSubmit = (values: SignInForm) => {
     startTransition(async () => {
       try {
         setError(null);
-        const passwordHash = await hashPassword(values.password);
-        const user = signIn({
+        setLockout(null);
+        const result = await signIn({
           email: values.email,
-          passwordHash,
+          password: values.password,
         });
 
-        setTheme(user.settings.darkMode ? "dark" : "light");
-        if (!user.settings.notifications) {
-          updateSettings(user.id, { notifications: false });
+        if (result.status === "two_factor_required") {
+          setChallenge(result.email);
+          setCode("");
+        } else {
+          finish(result.user);
         }
+      } catch (cause) {
+        fail(cause, values.email);
+      }
+    });
+  };
 
-        const next = params.get("next") ?? "/dashboard";
-        router.replace(next);
+  const onSubmitCode = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!challenge) return;
+    startTransition(async () => {
+      try {
+        setError(null);
+        finish(await completeTwoFactor(code));
       } catch (cause) {
-        setError(cause instanceof Error ? cause.message : "Unable to sign in.");
+        setCode("");
+        fail(cause, challenge);
       }
     });
   };
 
+  const handleBack = () => {
+    cancelTwoFactor();
+    setChallenge(null);
+    setError(null);
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] px-4 py-10">
       <div className="glass card-shadow flex w-full max-w-md flex-col gap-8 rounded-[var(--radius-lg)] border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] p-10">
@@ -79,34 +126,81 @@ export default function SignInPage() {
           </p>
         </div>
 
-        <form className="flex flex-col gap-5" onSubmit={handleSubmit(onSubmit)}>
-          <Input
-            label="Email"
-            type="email"
-            placeholder="you@example.com"
-            error={errors.email?.message}
-            autoComplete="email"
-            {...register("email")}
-          />
-          <Input
-            label="Password"
-            type="password"
-            placeholder="Enter your password"
-            error={errors.password?.message}
-            autoComplete="current-password"
-            {...register("password")}
-          />
-
-          {error ? (
-            <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
-              {error}
-            </div>
-          ) : null}
-
-          <Button type="submit" isLoading={isPending}>
-            Continue
-          </Button>
-        </form>
+        {challenge ? (
+          <form className="flex flex-col gap-5" onSubmit={onSubmitCode}>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              Enter the 6-digit code from your authenticator app for {challenge}, or one of your recovery codes.
+            </p>
+            <Input
+              label="Verification code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              autoFocus
+              placeholder="123456"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+            />
+
+            {error ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+                {error}
+              </div>
+            ) : null}
+
+            <Button type="submit" isLoading={isPending} disabled={!code.trim()}>
+              Verify
+            </Button>
+            <button
+              type="button"
+              className="text-sm font-medium text-[color:var(--color-brand)] hover:underline"
+              onClick={handleBack}
+            >
+              Use a different account
+            </button>
+          </form>
+        ) : (
+          <form className="flex flex-col gap-5" onSubmit={handleSubmit(onSubmit)}>
+            <Input
+              label="Email"
+              type="email"
+              placeholder="you@example.com"
+              error={errors.email?.message}
+              autoComplete="email"
+              {...register("email")}
+            />
+            <Input
+              label="Password"
+              type="password"
+              placeholder="Enter your password"
+              error={errors.password?.message}
+              autoComplete="current-password"
+              {...register("password")}
+            />
+
+            {lockout ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+                <p className="font-semibold">Sign-in is temporarily locked</p>
+                <p>
+                  There were too many failed attempts for this email. Try again after {format(lockout, "p")}, or{" "}
+                  <Link href="/reset-password" className="font-medium underline">
+                    reset your password
+                  </Link>
+                  .
+                </p>
+              </div>
+            ) : null}
+
+            {error ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+                {error}
+              </div>
+            ) : null}
+
+            <Button type="submit" isLoading={isPending}>
+              Continue
+            </Button>
+          </form>
+        )}
 
         <div className="flex justify-between text-sm text-[color:var(--color-muted)]">
           <Link
@@ -123,7 +217,7 @@ export default function SignInPage() {
           </Link>
         </div>
 
-        {users.length === 0 ? (
+        {vaults.length === 0 ? (
           <div className="rounded-2xl bg-[rgba(37,99,235,0.08)] px-4 py-3 text-sm text-[color:var(--color-brand-strong)]">
             Tip: Create an account first to start tracking your finances.
           </div>
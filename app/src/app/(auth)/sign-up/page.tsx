@@ -9,7 +9,6 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAppStore, defaultCategories } from "@/store/use-app-store";
-import { hashPassword } from "@/utils/crypto";
 import { useTheme } from "next-themes";
 
 const signUpSchema = z
@@ -60,11 +59,11 @@ export default function SignUpPage() {
     startTransition(async () => {
       try {
         setError(null);
-        const hashed = await hashPassword(values.password);
-        signUp({
+        await signUp({
           name: values.name,
           email: values.email,
-          passwordHash: hashed,
+          password: values.password,
+          origin: window.location.origin,
         });
         setTheme("light");
         router.replace("/dashboard");
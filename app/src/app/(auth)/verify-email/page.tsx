@@ -0,0 +1,66 @@
+'use client';
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { useAppStore } from "@/store/use-app-store";
+
+export default function VerifyEmailPage() {
+  const params = useSearchParams();
+  const token = params.get("token") ?? "";
+  const verifyEmail = useAppStore((state) => state.verifyEmail);
+  const signedIn = useAppStore((state) => Boolean(state.currentUserId));
+  const [result, setResult] = useState<{ status: "success" | "error"; message: string } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    verifyEmail(token)
+      .then(() => ({ status: "success" as const, message: "Your email address is verified. Thanks for confirming!" }))
+      .catch((cause) => ({
+        status: "error" as const,
+        message: cause instanceof Error ? cause.message : "Unable to verify your email address.",
+      }))
+      .then((next) => {
+        if (active) setResult(next);
+      });
+    return () => {
+      active = false;
+    };
+  }, [token, verifyEmail]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] px-4 py-10">
+      <div className="glass card-shadow flex w-full max-w-lg flex-col gap-8 rounded-[var(--radius-lg)] border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] p-10">
+        <div className="flex flex-col gap-3">
+          <span className="text-sm font-semibold uppercase tracking-[0.4em] text-[color:var(--color-brand)]">
+            Aurora Finance
+          </span>
+          <h1 className="text-3xl font-semibold text-[color:var(--color-foreground)]">Confirm your email</h1>
+        </div>
+
+        {result ? (
+          <div
+            className={`rounded-2xl border px-4 py-3 text-sm ${
+              result.status === "success"
+                ? "border-[rgba(34,197,94,0.24)] bg-[rgba(34,197,94,0.12)] text-[color:var(--color-accent)]"
+                : "border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] text-[color:var(--color-danger)]"
+            }`}
+          >
+            {result.message}
+          </div>
+        ) : (
+          <p className="text-sm text-[color:var(--color-muted)]">Checking your verification link…</p>
+        )}
+
+        <div className="text-sm text-[color:var(--color-muted)]">
+          <Link
+            href={signedIn ? "/dashboard" : "/sign-in"}
+            className="font-medium text-[color:var(--color-brand)] hover:underline"
+          >
+            {signedIn ? "Go to your dashboard" : "Sign in"}
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Landmark } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MissingRateNotice } from "@/components/exchange-rates/missing-rate-notice";
+import { type AccountKind, useAppStore } from "@/store/use-app-store";
+import { useAuth } from "@/hooks/use-auth";
+import { ACCOUNT_KINDS, accountKindLabel, runningBalances } from "@/utils/accounts";
+import { createCurrencyConverter } from "@/utils/exchange-rates";
+import {
+  SUPPORTED_CURRENCIES,
+  formatMinorForInput,
+  formatMoney,
+  inputStep,
+  toMinorUnits,
+} from "@/utils/money";
+
+const accountSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, "Give the account a name."),
+  kind: z.enum(["checking", "savings", "credit_card", "cash"]),
+  currency: z.string().length(3, "Select a currency."),
+  openingBalance: z
+    .string()
+    .refine((value) => value === "" || Number.isFinite(Number(value)), "Enter a number."),
+});
+
+type AccountForm = z.infer<typeof accountSchema>;
+
+const selectClassName =
+  "h-12 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
+export default function AccountsPage() {
+  const { user } = useAuth();
+  const accounts = useAppStore((state) => state.accounts);
+  const transactions = useAppStore((state) => state.transactions);
+  const exchangeRates = useAppStore((state) => state.exchangeRates);
+  const addAccount = useAppStore((state) => state.addAccount);
+  const updateAccount = useAppStore((state) => state.updateAccount);
+  const removeAccount = useAppStore((state) => state.removeAccount);
+  const [editingId, setEditingId] = useState<string | undefined>();
+  const [message, setMessage] = useState<string | null>(null);
+
+  const defaultValues: AccountForm = {
+    name: "",
+    kind: "checking",
+    currency: user?.settings.currency ?? "USD",
+    openingBalance: "",
+  };
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<AccountForm>({
+    resolver: zodResolver(accountSchema),
+    defaultValues,
+  });
+
+  const formCurrency = useWatch({ control, name: "currency" });
+
+  const userRates = useMemo(
+    () => exchangeRates.filter((rate) => rate.userId === user?.id),
+    [exchangeRates, user?.id],
+  );
+
+  const balances = useMemo(() => {
+    const userTransactions = transactions.filter((transaction) => transaction.userId === user?.id);
+    return accounts
+      .filter((account) => account.userId === user?.id)
+      .map((account) => ({ account, ...runningBalances(account, userTransactions, userRates) }));
+  }, [accounts, transactions, user?.id, userRates]);
+
+  const { netWorth, missingPairs } = useMemo(() => {
+    const converter = createCurrencyConverter(userRates, user?.settings.currency ?? "USD");
+    const today = format(new Date(), "yyyy-MM-dd");
+    const total = balances.reduce(
+      (sum, { account, balance }) => sum + (converter.convert(balance, account.currency, today) ?? 0),
+      0,
+    );
+    return { netWorth: total, missingPairs: converter.missingPairs() };
+  }, [balances, user?.settings.currency, userRates]);
+
+  if (!user) return null;
+
+  const onSubmit = (values: AccountForm) => {
+    const payload = {
+      name: values.name,
+      kind: values.kind as AccountKind,
+      currency: values.currency,
+      openingBalance: values.openingBalance ? toMinorUnits(values.openingBalance, values.currency) : 0,
+    };
+    try {
+      if (values.id) {
+        updateAccount(values.id, payload);
+      } else {
+        addAccount({ userId: user.id, ...payload });
+      }
+      setMessage(null);
+      setEditingId(undefined);
+      reset({ ...defaultValues, currency: values.currency });
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Unable to save account.");
+    }
+  };
+
+  const handleEdit = (accountId: string) => {
+    const account = balances.find((entry) => entry.account.id === accountId)?.account;
+    if (!account) return;
+    setEditingId(account.id);
+    reset({
+      id: account.id,
+      name: account.name,
+      kind: account.kind,
+      currency: account.currency,
+      openingBalance: formatMinorForInput(account.openingBalance, account.currency),
+    });
+  };
+
+  const handleRemove = (accountId: string) => {
+    try {
+      removeAccount(accountId);
+      setMessage(null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Unable to remove account.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-[color:var(--color-foreground)]">Accounts</h2>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              Track each bank account, card, and cash wallet separately. Transfers move money between
+              them without counting as income or spending.
+            </p>
+          </div>
+          <Landmark className="size-5 text-[color:var(--color-brand)]" />
+        </div>
+        <div className="mt-4 flex items-baseline justify-between rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3">
+          <span className="text-sm text-[color:var(--color-muted)]">Net worth</span>
+          <span className="text-xl font-semibold text-[color:var(--color-foreground)]">
+            {formatMoney(netWorth, user.settings.currency)}
+          </span>
+        </div>
+      </Card>
+
+      <MissingRateNotice pairs={missingPairs} />
+
+      <Card className="rounded-[var(--radius-lg)]">
+        <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">
+          {editingId ? "Edit account" : "Add an account"}
+        </h3>
+        <form className="mt-4 grid gap-4 md:grid-cols-2" onSubmit={handleSubmit(onSubmit)}>
+          <Input label="Name" placeholder="Joint savings" error={errors.name?.message} {...register("name")} />
+          <div className="grid gap-2">
+            <label className="text-sm font-medium text-[color:var(--color-muted)]">Type</label>
+            <select className={selectClassName} {...register("kind")}>
+              {ACCOUNT_KINDS.map((option) => (
+                <option value={option.value} key={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid gap-2">
+            <label className="text-sm font-medium text-[color:var(--color-muted)]">Currency</label>
+            <select className={selectClassName} {...register("currency")}>
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option value={code} key={code}>
+                  {code}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Opening balance"
+            type="number"
+            step={inputStep(formCurrency)}
+            placeholder="0.00"
+            error={errors.openingBalance?.message}
+            {...register("openingBalance")}
+          />
+          <div className="flex gap-3 md:col-span-2">
+            <Button type="submit" className="flex-1">
+              {editingId ? "Save changes" : "Add account"}
+            </Button>
+            {editingId ? (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setEditingId(undefined);
+                  reset(defaultValues);
+                }}
+              >
+                Cancel
+              </Button>
+            ) : null}
+          </div>
+        </form>
+        {message ? (
+          <div className="mt-4 rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+            {message}
+          </div>
+        ) : null}
+      </Card>
+
+      <div className="grid gap-4">
+        {balances.length === 0 ? (
+          <div className="flex h-32 items-center justify-center rounded-[var(--radius-md)] border border-dashed border-[rgba(148,163,184,0.32)] text-sm text-[color:var(--color-muted)]">
+            No accounts yet. Add one above to start recording transactions.
+          </div>
+        ) : (
+          balances.map(({ account, balance, unconverted }) => (
+            <div
+              key={account.id}
+              className="flex flex-col gap-3 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] p-4 shadow-sm md:flex-row md:items-center md:justify-between"
+            >
+              <div className="flex flex-col gap-1">
+                <span className="text-base font-semibold text-[color:var(--color-foreground)]">
+                  {account.name}
+                </span>
+                <div className="flex items-center gap-2">
+                  <Badge tone="neutral">{accountKindLabel(account.kind)}</Badge>
+                  <Badge tone="info">{account.currency}</Badge>
+                  {unconverted > 0 ? <Badge tone="warning">Rate needed</Badge> : null}
+                </div>
+              </div>
+              <div className="flex flex-col items-end gap-3">
+                <span
+                  className={`text-lg font-semibold ${
+                    balance < 0 ? "text-[color:var(--color-danger)]" : "text-[color:var(--color-foreground)]"
+                  }`}
+                >
+                  {formatMoney(balance, account.currency)}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => handleEdit(account.id)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+                    onClick={() => handleRemove(account.id)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,9 @@ import { useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format } from "date-fns";
+import Link from "next/link";
 import { motion } from "framer-motion";
+import { FolderTree } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
@@ -13,7 +15,18 @@ import { Badge } from "@/components/ui/badge";
 import { Toggle } from "@/components/ui/toggle";
 import { useAppStore } from "@/store/use-app-store";
 import { useAuth } from "@/hooks/use-auth";
-import { formatCurrency } from "@/utils/format";
+import { useBudgetSpending } from "@/hooks/use-aggregates";
+import { MissingRateNotice } from "@/components/exchange-rates/missing-rate-notice";
+import {
+  SUPPORTED_CURRENCIES,
+  formatMinorForInput,
+  formatMoney,
+  inputStep,
+  toMinorUnits,
+} from "@/utils/money";
+import { categoryOptions } from "@/utils/categories";
+import { can, limitOf } from "@/utils/entitlements";
+import { UpgradePrompt } from "@/components/entitlements/upgrade-prompt";
 
 const budgetSchema = z.object({
   id: z.string().optional(),
@@ -21,6 +34,7 @@ const budgetSchema = z.object({
   limit: z
     .string()
     .refine((value) => Number(value) > 0, "Budget must be greater than zero."),
+  currency: z.string().length(3, "Select a currency."),
   alertThreshold: z
     .string()
     .transform((value) => (value ? Number(value) : undefined))
@@ -38,13 +52,22 @@ export default function BudgetingPage() {
   const { user } = useAuth();
   const upsertBudget = useAppStore((state) => state.upsertBudget);
   const removeBudget = useAppStore((state) => state.removeBudget);
-  const addCustomCategory = useAppStore((state) => state.addCustomCategory);
-  const transactions = useAppStore((state) => state.transactions);
+  const addCategory = useAppStore((state) => state.addCategory);
+  const categories = useAppStore((state) => state.categories);
   const budgets = useAppStore((state) => state.budgets);
 
   const [editingId, setEditingId] = useState<string | undefined>();
   const [customCategory, setCustomCategory] = useState("");
   const [premiumMessage, setPremiumMessage] = useState<string | null>(null);
+  const [budgetError, setBudgetError] = useState<string | null>(null);
+  const canCustomize = can(user, "customCategories");
+  const canAlert = can(user, "budgetAlerts");
+  const canRollover = can(user, "budgetRollover");
+
+  const categoryChoices = useMemo(
+    () => (user ? categoryOptions(categories, user) : []),
+    [categories, user],
+  );
 
   const {
     register,
@@ -56,33 +79,34 @@ export default function BudgetingPage() {
   } = useForm<BudgetForm, undefined, BudgetValues>({
     resolver: zodResolver(budgetSchema),
     defaultValues: {
-      category: user?.categories.at(0) ?? "",
+      category: categoryChoices.at(0)?.value ?? "",
       limit: "",
+      currency: user?.settings.currency ?? "USD",
       alertThreshold: "",
-      rollover: true,
+      rollover: canRollover,
     },
   });
 
-  const currency = user?.settings.currency ?? "USD";
   const rolloverValue = useWatch({
     control,
     name: "rollover",
   });
+  const budgetCurrency = useWatch({
+    control,
+    name: "currency",
+  });
 
   const userBudgets = useMemo(
     () => budgets.filter((budget) => budget.userId === user?.id),
     [budgets, user?.id],
   );
 
-  const userTransactions = useMemo(
-    () => transactions.filter((transaction) => transaction.userId === user?.id),
-    [transactions, user?.id],
-  );
+  const { currency, budgets: convertedBudgets, spentIn, missingPairs } = useBudgetSpending(userBudgets);
 
-  const calculateSpent = (category: string) =>
-    userTransactions
-      .filter((transaction) => transaction.category === category && transaction.type === "expense")
-      .reduce((total, transaction) => total + transaction.amount, 0);
+  const convertedLimits = useMemo(
+    () => new Map(convertedBudgets.map((budget) => [budget.id, budget.limit])),
+    [convertedBudgets],
+  );
 
   const onSubmit = (values: BudgetValues) => {
     if (!user) return;
@@ -91,18 +115,26 @@ export default function BudgetingPage() {
       id: values.id,
       userId: user.id,
       category: values.category,
-      limit: Number(values.limit),
+      limit: toMinorUnits(values.limit, values.currency),
+      currency: values.currency,
       rollover: values.rollover,
       alertThreshold: values.alertThreshold,
     } as const;
 
-    upsertBudget(payload);
+    try {
+      upsertBudget(payload);
+    } catch (error) {
+      setBudgetError(error instanceof Error ? error.message : "Unable to save this budget.");
+      return;
+    }
     reset({
-      category: user.categories.at(0) ?? "",
+      category: categoryChoices.at(0)?.value ?? "",
       limit: "",
+      currency: values.currency,
       alertThreshold: "",
-      rollover: true,
+      rollover: canRollover,
     });
+    setBudgetError(null);
     setEditingId(undefined);
   };
 
@@ -112,23 +144,24 @@ export default function BudgetingPage() {
     setEditingId(budgetId);
     setValue("id", budget.id);
     setValue("category", budget.category);
-    setValue("limit", String(budget.limit));
+    setValue("currency", budget.currency);
+    setValue("limit", formatMinorForInput(budget.limit, budget.currency));
     setValue("alertThreshold", budget.alertThreshold ? String(budget.alertThreshold) : "");
-    setValue("rollover", budget.rollover ?? true);
+    setValue("rollover", budget.rollover ?? canRollover);
   };
 
   const handleAddCategory = () => {
-    if (!user || user.subscription.tier !== "premium") {
-      setPremiumMessage("Upgrade to Premium to create personalized budget categories and rules.");
-      return;
+    if (!user || !customCategory.trim()) return;
+    try {
+      addCategory({ userId: user.id, name: customCategory });
+      setPremiumMessage(`Added ${customCategory.trim()} to your categories.`);
+      setCustomCategory("");
+    } catch (error) {
+      setPremiumMessage(error instanceof Error ? error.message : "Unable to add this category.");
     }
-    if (!customCategory.trim()) return;
-    addCustomCategory(user.id, customCategory.trim());
-    setPremiumMessage(`Added ${customCategory.trim()} to your categories.`);
-    setCustomCategory("");
   };
 
-  const premiumLocked = user?.subscription.tier !== "premium";
+  const atBudgetLimit = !editingId && userBudgets.length >= limitOf(user, "maxBudgets");
 
   return (
     <div className="flex flex-col gap-6">
@@ -156,23 +189,26 @@ export default function BudgetingPage() {
                 placeholder="e.g. Wellness Retreat"
                 value={customCategory}
                 onChange={(event) => setCustomCategory(event.target.value)}
-                disabled={premiumLocked}
+                disabled={!canCustomize}
               />
               <Button
                 variant="secondary"
                 className="w-full"
                 onClick={handleAddCategory}
-                disabled={!customCategory.trim()}
+                disabled={!canCustomize || !customCategory.trim()}
               >
                 Save category
               </Button>
-              {premiumLocked ? (
-                <p className="text-xs text-[color:var(--color-muted)]">
-                  Custom categories, advanced alerts, and PDF budgeting insights are exclusive to
-                  Premium.
-                </p>
-              ) : null}
+              {canCustomize ? null : <UpgradePrompt feature="customCategories" />}
             </div>
+
+            <Link
+              href="/categories"
+              className="flex h-12 items-center justify-center gap-2 rounded-2xl border border-[color:var(--border-color-base)] px-4 text-sm font-semibold text-[color:var(--color-foreground)] hover:bg-[rgba(37,99,235,0.08)]"
+            >
+              <FolderTree className="size-4" />
+              Manage categories
+            </Link>
           </div>
 
           <form
@@ -190,9 +226,9 @@ export default function BudgetingPage() {
                 <option value="" disabled>
                   Select category
                 </option>
-                {user?.categories.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
+                {categoryChoices.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
                   </option>
                 ))}
               </select>
@@ -201,15 +237,32 @@ export default function BudgetingPage() {
               ) : null}
             </div>
 
-            <Input
-              label="Monthly limit"
-              type="number"
-              min="0"
-              step="0.01"
-              placeholder="0.00"
-              error={errors.limit?.message}
-              {...register("limit")}
-            />
+            <div className="grid grid-cols-[1fr,120px] gap-3">
+              <Input
+                label="Monthly limit"
+                type="number"
+                min="0"
+                step={inputStep(budgetCurrency)}
+                placeholder="0.00"
+                error={errors.limit?.message}
+                {...register("limit")}
+              />
+              <div className="grid gap-2">
+                <label className="text-sm font-medium text-[color:var(--color-muted)]">
+                  Currency
+                </label>
+                <select
+                  className="h-12 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]"
+                  {...register("currency")}
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
 
             <div className="grid gap-2">
               <label className="text-sm font-medium text-[color:var(--color-muted)]">
@@ -220,15 +273,11 @@ export default function BudgetingPage() {
                 min="1"
                 max="100"
                 placeholder="e.g. 80"
-                disabled={premiumLocked}
+                disabled={!canAlert}
                 error={errors.alertThreshold?.message}
                 {...register("alertThreshold")}
               />
-              {premiumLocked ? (
-                <p className="text-xs text-[color:var(--color-muted)]">
-                  Upgrade to unlock proactive email alerts for approaching limits.
-                </p>
-              ) : null}
+              {canAlert ? null : <UpgradePrompt feature="budgetAlerts" />}
             </div>
 
             <div className="grid gap-2">
@@ -236,23 +285,30 @@ export default function BudgetingPage() {
                 pressed={Boolean(rolloverValue)}
                 onClick={() => setValue("rollover", !rolloverValue)}
                 label="Carry over unused budget to next month"
-                disabled={premiumLocked}
-                className={premiumLocked ? "opacity-60" : ""}
+                disabled={!canRollover}
+                className={canRollover ? "" : "opacity-60"}
               />
-              {premiumLocked ? (
-                <p className="text-xs text-[color:var(--color-muted)]">
-                  Premium members can carry over remaining amounts automatically.
-                </p>
-              ) : null}
+              {canRollover ? null : <UpgradePrompt feature="budgetRollover" />}
             </div>
 
-            <Button type="submit" className="mt-2">
+            {atBudgetLimit ? (
+              <UpgradePrompt message={`Your plan includes up to ${limitOf(user, "maxBudgets")} budgets.`} />
+            ) : null}
+            {budgetError ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+                {budgetError}
+              </div>
+            ) : null}
+
+            <Button type="submit" className="mt-2" disabled={atBudgetLimit}>
               {editingId ? "Update budget" : "Create budget"}
             </Button>
           </form>
         </div>
       </Card>
 
+      <MissingRateNotice pairs={missingPairs} />
+
       <div className="grid gap-4 lg:grid-cols-2 xl:grid-cols-3">
         {userBudgets.length === 0 ? (
           <div className="col-span-full flex h-40 items-center justify-center rounded-[var(--radius-md)] border border-dashed border-[rgba(148,163,184,0.3)] text-sm text-[color:var(--color-muted)]">
@@ -260,15 +316,15 @@ export default function BudgetingPage() {
           </div>
         ) : (
           userBudgets.map((budget) => {
-            const spent = calculateSpent(budget.category);
-            const progress = Math.min(spent / budget.limit, 1);
-            const remaining = Math.max(budget.limit - spent, 0);
+            const limit = convertedLimits.get(budget.id);
+            const spent = spentIn(budget.category);
+            const progress = limit ? Math.min(spent / limit, 1) : 0;
+            const remaining = limit ? Math.max(limit - spent, 0) : 0;
             const tone: "danger" | "warning" | "success" =
               progress >= 1 ? "danger" : progress >= 0.8 ? "warning" : "success";
 
-            const alertReached = budget.alertThreshold
-              ? spent >= (budget.alertThreshold / 100) * budget.limit
-              : false;
+            const alertReached =
+              limit && budget.alertThreshold ? spent >= (budget.alertThreshold / 100) * limit : false;
 
             return (
               <motion.div
@@ -285,10 +341,18 @@ export default function BudgetingPage() {
                         {budget.category}
                       </h3>
                       <p className="text-xs text-[color:var(--color-muted)]">
-                        Limit {formatCurrency(budget.limit, currency)} · Created {format(new Date(budget.createdAt), "MMM d")}
+                        Limit {formatMoney(budget.limit, budget.currency)}
+                        {limit !== undefined && budget.currency !== currency
+                          ? ` (≈ ${formatMoney(limit, currency)})`
+                          : ""}{" "}
+                        · Created {format(new Date(budget.createdAt), "MMM d")}
                       </p>
                     </div>
-                    <Badge tone={tone}>{alertReached ? "Alert" : `${Math.round(progress * 100)}% used`}</Badge>
+                    {limit === undefined ? (
+                      <Badge tone="warning">Rate needed</Badge>
+                    ) : (
+                      <Badge tone={tone}>{alertReached ? "Alert" : `${Math.round(progress * 100)}% used`}</Badge>
+                    )}
                   </div>
 
                   <div className="h-3 w-full overflow-hidden rounded-full bg-[rgba(148,163,184,0.2)]">
@@ -305,8 +369,8 @@ export default function BudgetingPage() {
                   </div>
 
                   <div className="flex items-center justify-between text-sm text-[color:var(--color-muted)]">
-                    <span>Spent {formatCurrency(spent, currency)}</span>
-                    <span>Remaining {formatCurrency(remaining, currency)}</span>
+                    <span>Spent {formatMoney(spent, currency)}</span>
+                    <span>Remaining {formatMoney(remaining, currency)}</span>
                   </div>
 
                   {budget.rollover ? (
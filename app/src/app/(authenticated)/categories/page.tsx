@@ -0,0 +1,286 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { FolderTree } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type Category, useAppStore } from "@/store/use-app-store";
+import { useAuth } from "@/hooks/use-auth";
+import { categoryTree, isCategoryLocked } from "@/utils/categories";
+import { can } from "@/utils/entitlements";
+import { UpgradePrompt } from "@/components/entitlements/upgrade-prompt";
+import { categoryLines } from "@/utils/splits";
+
+const selectClassName =
+  "h-10 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-3 text-xs text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
+type Editing = { id: string; mode: "rename" | "move" | "merge"; value: string };
+
+export default function CategoriesPage() {
+  const { user } = useAuth();
+  const categories = useAppStore((state) => state.categories);
+  const transactions = useAppStore((state) => state.transactions);
+  const addCategory = useAppStore((state) => state.addCategory);
+  const renameCategory = useAppStore((state) => state.renameCategory);
+  const moveCategory = useAppStore((state) => state.moveCategory);
+  const mergeCategory = useAppStore((state) => state.mergeCategory);
+  const archiveCategory = useAppStore((state) => state.archiveCategory);
+  const unarchiveCategory = useAppStore((state) => state.unarchiveCategory);
+  const removeCategory = useAppStore((state) => state.removeCategory);
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState("");
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tree = useMemo(
+    () => (user ? categoryTree(categories, user.id, { includeArchived: true }) : []),
+    [categories, user],
+  );
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>();
+    transactions
+      .filter((transaction) => transaction.userId === user?.id)
+      .flatMap(categoryLines)
+      .forEach((line) => counts.set(line.category, (counts.get(line.category) ?? 0) + 1));
+    return counts;
+  }, [transactions, user?.id]);
+
+  if (!user) return null;
+
+  const premiumLocked = !can(user, "customCategories");
+  const isLocked = (category: Category) => isCategoryLocked(category, user.subscription.tier);
+  const parents = tree.filter((category) => !category.parentId && !category.archived && !isLocked(category));
+
+  const run = (action: () => void, fallback: string) => {
+    try {
+      action();
+      setError(null);
+      return true;
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : fallback);
+      return false;
+    }
+  };
+
+  const handleAdd = () => {
+    if (run(() => addCategory({ userId: user.id, name, parentId: parentId || undefined }), "Unable to add category.")) {
+      setName("");
+    }
+  };
+
+  const handleSave = (category: Category) => {
+    if (!editing) return;
+    const saved = run(() => {
+      if (editing.mode === "rename") {
+        renameCategory(category.id, editing.value);
+      } else if (editing.mode === "move") {
+        moveCategory(category.id, editing.value || undefined);
+      } else if (
+        window.confirm(
+          `Move everything in ${category.name} into ${
+            tree.find((candidate) => candidate.id === editing.value)?.name ?? "the selected category"
+          } and delete ${category.name}?`,
+        )
+      ) {
+        mergeCategory(category.id, editing.value);
+      }
+    }, "Unable to update category.");
+    if (saved) setEditing(null);
+  };
+
+  const editor = (category: Category) => {
+    if (editing?.id !== category.id) return null;
+    const mergeTargets = tree.filter((candidate) => candidate.id !== category.id && !isLocked(candidate));
+    return (
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        {editing.mode === "rename" ? (
+          <Input
+            aria-label="Category name"
+            className="h-10"
+            value={editing.value}
+            onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+          />
+        ) : (
+          <select
+            aria-label={editing.mode === "move" ? "Parent category" : "Merge into"}
+            className={selectClassName}
+            value={editing.value}
+            onChange={(event) => setEditing({ ...editing, value: event.target.value })}
+          >
+            {editing.mode === "move" ? (
+              <option value="">No parent</option>
+            ) : (
+              <option value="" disabled>
+                Merge into…
+              </option>
+            )}
+            {(editing.mode === "move" ? parents : mergeTargets)
+              .filter((candidate) => candidate.id !== category.id)
+              .map((candidate) => (
+                <option key={candidate.id} value={candidate.id}>
+                  {candidate.name}
+                </option>
+              ))}
+          </select>
+        )}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={editing.mode === "merge" && !editing.value}
+            onClick={() => handleSave(category)}
+          >
+            {editing.mode === "merge" ? "Merge" : "Save"}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-10 rounded-2xl px-3 text-xs" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-[color:var(--color-foreground)]">Categories</h2>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              Rename, merge, or group categories under a parent. Changes carry over to every transaction,
+              budget, and recurring schedule that uses them.
+            </p>
+          </div>
+          <FolderTree className="size-5 text-[color:var(--color-brand)]" />
+        </div>
+        <div className="mt-4 grid gap-3 md:grid-cols-[1fr,200px,auto]">
+          <Input
+            placeholder="e.g. Groceries"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            disabled={premiumLocked}
+          />
+          <select
+            aria-label="Parent category"
+            className={twMerge(selectClassName, "h-12 text-sm")}
+            value={parentId}
+            onChange={(event) => setParentId(event.target.value)}
+            disabled={premiumLocked}
+          >
+            <option value="">No parent</option>
+            {parents.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <Button className="h-12" onClick={handleAdd} disabled={premiumLocked || !name.trim()}>
+            Add category
+          </Button>
+        </div>
+        {premiumLocked ? (
+          <UpgradePrompt
+            className="mt-3"
+            message="Creating categories is a Premium feature. Free plan categories can still be renamed, merged, and archived; Premium ones stay read-only until you upgrade."
+          />
+        ) : null}
+      </Card>
+
+      {error ? (
+        <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid gap-3">
+        {tree.map((category) => {
+          const count = usage.get(category.name) ?? 0;
+          return (
+            <div
+              key={category.id}
+              className={`flex flex-col gap-3 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] p-4 shadow-sm lg:flex-row lg:items-center lg:justify-between ${
+                category.parentId ? "ml-6" : ""
+              }`}
+            >
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`text-base font-semibold text-[color:var(--color-foreground)] ${
+                      category.archived ? "opacity-60" : ""
+                    }`}
+                  >
+                    {category.name}
+                  </span>
+                  {category.archived ? <Badge tone="warning">Archived</Badge> : null}
+                  {isLocked(category) ? <Badge tone="info">Premium</Badge> : null}
+                </div>
+                <span className="text-xs text-[color:var(--color-muted)]">
+                  {count === 1 ? "1 transaction" : `${count} transactions`}
+                </span>
+              </div>
+              {isLocked(category) ? (
+                <span className="text-xs text-[color:var(--color-muted)]">
+                  Read-only on the Free plan. Its transactions stay in your history and reports.
+                </span>
+              ) : editing?.id === category.id ? (
+                editor(category)
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => setEditing({ id: category.id, mode: "rename", value: category.name })}
+                  >
+                    Rename
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => setEditing({ id: category.id, mode: "move", value: category.parentId ?? "" })}
+                  >
+                    Move
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => setEditing({ id: category.id, mode: "merge", value: "" })}
+                  >
+                    Merge
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() =>
+                      run(
+                        () => (category.archived ? unarchiveCategory(category.id) : archiveCategory(category.id)),
+                        "Unable to update category.",
+                      )
+                    }
+                  >
+                    {category.archived ? "Unarchive" : "Archive"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+                    onClick={() => run(() => removeCategory(category.id), "Unable to delete category.")}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
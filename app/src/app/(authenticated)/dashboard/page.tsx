@@ -1,17 +1,7 @@
 'use client';
 
 import { useMemo, useState, useTransition } from "react";
-import {
-  eachDayOfInterval,
-  eachMonthOfInterval,
-  format,
-  isSameDay,
-  isSameMonth,
-  isSameYear,
-  parseISO,
-  subDays,
-  subMonths,
-} from "date-fns";
+import { eachDayOfInterval, eachMonthOfInterval, format, isSameMonth, subDays, subMonths } from "date-fns";
 import {
   Area,
   AreaChart,
@@ -30,8 +20,18 @@ import { SegmentedControl } from "@/components/ui/segmented-control";
 import { Badge } from "@/components/ui/badge";
 import { useAppStore } from "@/store/use-app-store";
 import { useAuth } from "@/hooks/use-auth";
-import { formatCurrency, formatDate } from "@/utils/format";
-import { generateFinancialReport } from "@/utils/reporting";
+import { useBudgetSpending, useTransactionAggregates } from "@/hooks/use-aggregates";
+import { MissingRateNotice } from "@/components/exchange-rates/missing-rate-notice";
+import { UpcomingOccurrences } from "@/components/recurring/upcoming-occurrences";
+import { UpgradePrompt } from "@/components/entitlements/upgrade-prompt";
+import { formatDate } from "@/utils/format";
+import { formatMoney, fromMinorUnits } from "@/utils/money";
+import { type PeriodTotals, periodKey } from "@/utils/aggregates";
+import { createCategoryRollup } from "@/utils/categories";
+import { type ReportGrouping, generateFinancialReport } from "@/utils/reporting";
+import { groupByPayee } from "@/utils/payees";
+import { can, isPremium } from "@/utils/entitlements";
+import { summarizeTags } from "@/utils/tags";
 
 const TIMEFRAMES = [
   { label: "Daily", value: "daily" },
@@ -41,6 +41,11 @@ const TIMEFRAMES = [
 
 type Timeframe = (typeof TIMEFRAMES)[number]["value"];
 
+const GROUPINGS = [
+  { label: "Category", value: "category" },
+  { label: "Payee", value: "payee" },
+] as const;
+
 type FlowDatum = {
   label: string;
   description: string;
@@ -51,6 +56,7 @@ type FlowDatum = {
 type CategoryDatum = {
   category: string;
   amount: number;
+  spent: number;
 };
 
 type CategoryTooltipProps = {
@@ -92,39 +98,34 @@ const ChartTooltip = ({ active, payload }: ChartTooltipProps) => {
 export default function DashboardPage() {
   const { user } = useAuth();
   const [timeframe, setTimeframe] = useState<Timeframe>("monthly");
-  const transactions = useAppStore((state) => state.transactions);
   const budgets = useAppStore((state) => state.budgets);
+  const accounts = useAppStore((state) => state.accounts);
+  const categories = useAppStore((state) => state.categories);
+  const payees = useAppStore((state) => state.payees);
+  const [accountFilter, setAccountFilter] = useState("all");
+  const [rollUp, setRollUp] = useState(false);
+  const [groupBy, setGroupBy] = useState<ReportGrouping>("category");
   const [isExporting, startTransition] = useTransition();
 
-  const userTransactions = useMemo(
-    () => transactions.filter((transaction) => transaction.userId === user?.id),
-    [transactions, user?.id],
+  const userAccounts = useMemo(
+    () => accounts.filter((account) => account.userId === user?.id),
+    [accounts, user?.id],
   );
 
-  const userBudgets = useMemo(
+  const ownBudgets = useMemo(
     () => budgets.filter((budget) => budget.userId === user?.id),
     [budgets, user?.id],
   );
 
-  const currency = user?.settings.currency ?? "USD";
+  const period = periodKey(timeframe);
+  const aggregates = useTransactionAggregates(accountFilter);
+  const { currency, budgets: userBudgets, missingPairs } = useBudgetSpending(ownBudgets, period, accountFilter);
+  const periodTotals = useMemo(() => aggregates.totals(period), [aggregates, period]);
 
-  const filteredTransactions = useMemo(() => {
-    const reference = new Date();
-    return userTransactions.filter((transaction) => {
-      const date = parseISO(transaction.date);
-      if (timeframe === "daily") return isSameDay(date, reference);
-      if (timeframe === "monthly") return isSameMonth(date, reference);
-      return isSameYear(date, reference);
-    });
-  }, [timeframe, userTransactions]);
+  const filteredTransactions = useMemo(() => aggregates.transactions(period), [aggregates, period]);
 
   const totals = useMemo(() => {
-    const income = filteredTransactions
-      .filter((transaction) => transaction.type === "income")
-      .reduce((total, transaction) => total + transaction.amount, 0);
-    const expenses = filteredTransactions
-      .filter((transaction) => transaction.type === "expense")
-      .reduce((total, transaction) => total + transaction.amount, 0);
+    const { income, expenses } = periodTotals;
 
     const trend = income === 0 ? 0 : ((income - expenses) / income) * 100;
 
@@ -134,7 +135,7 @@ export default function DashboardPage() {
       net: income - expenses,
       trend,
     };
-  }, [filteredTransactions]);
+  }, [periodTotals]);
 
   const trendLabel = totals.trend >= 0 ? "Positive cash flow" : "Watch your spending";
 
@@ -174,90 +175,54 @@ export default function DashboardPage() {
 
   const rangeData: FlowDatum[] = useMemo(() => {
     const reference = new Date();
+    const toDatum = (label: string, { income, expenses }: Pick<PeriodTotals, "income" | "expenses">) => ({
+      label,
+      description: `${formatMoney(income, currency)} income · ${formatMoney(expenses, currency)} expenses`,
+      income: fromMinorUnits(income, currency),
+      expenses: fromMinorUnits(expenses, currency),
+    });
+
     if (timeframe === "daily") {
       const days = eachDayOfInterval({ start: subDays(reference, 6), end: reference });
-      return days.map((day) => {
-        const dayTransactions = userTransactions.filter((transaction) =>
-          isSameDay(parseISO(transaction.date), day),
-        );
-        const income = dayTransactions
-          .filter((transaction) => transaction.type === "income")
-          .reduce((total, transaction) => total + transaction.amount, 0);
-        const expenses = dayTransactions
-          .filter((transaction) => transaction.type === "expense")
-          .reduce((total, transaction) => total + transaction.amount, 0);
-
-        return {
-          label: format(day, "EEE"),
-          description: `${formatCurrency(income, currency)} income · ${formatCurrency(expenses, currency)} expenses`,
-          income,
-          expenses,
-        };
-      });
+      return days.map((day) => toDatum(format(day, "EEE"), aggregates.totals(periodKey("daily", day))));
     }
 
     if (timeframe === "monthly") {
+      // Days from last month stay empty so the chart matches this month's totals.
       const days = eachDayOfInterval({ start: subDays(reference, 29), end: reference });
-      const dailyMap: Record<string, { income: number; expenses: number }> = {};
-
-      days.forEach((day) => {
-        const key = format(day, "MMM d");
-        dailyMap[key] = { income: 0, expenses: 0 };
-      });
-
-      userTransactions.forEach((transaction) => {
-        if (!isSameMonth(parseISO(transaction.date), reference)) return;
-        const key = format(parseISO(transaction.date), "MMM d");
-        if (!dailyMap[key]) {
-          dailyMap[key] = { income: 0, expenses: 0 };
-        }
-        dailyMap[key][transaction.type === "income" ? "income" : "expenses"] +=
-          transaction.amount;
-      });
-
-      return Object.entries(dailyMap).map(([label, values]) => ({
-        label,
-        description: `${formatCurrency(values.income, currency)} income · ${formatCurrency(values.expenses, currency)} expenses`,
-        income: Number(values.income.toFixed(2)),
-        expenses: Number(values.expenses.toFixed(2)),
-      }));
+      return days.map((day) =>
+        toDatum(
+          format(day, "MMM d"),
+          isSameMonth(day, reference) ? aggregates.totals(periodKey("daily", day)) : { income: 0, expenses: 0 },
+        ),
+      );
     }
 
     const months = eachMonthOfInterval({ start: subMonths(reference, 11), end: reference });
-    return months.map((month) => {
-      const monthlyTransactions = userTransactions.filter((transaction) =>
-        isSameMonth(parseISO(transaction.date), month) && isSameYear(parseISO(transaction.date), month),
-      );
-      const income = monthlyTransactions
-        .filter((transaction) => transaction.type === "income")
-        .reduce((total, transaction) => total + transaction.amount, 0);
-      const expenses = monthlyTransactions
-        .filter((transaction) => transaction.type === "expense")
-        .reduce((total, transaction) => total + transaction.amount, 0);
-
-      return {
-        label: format(month, "MMM"),
-        description: `${formatCurrency(income, currency)} income · ${formatCurrency(expenses, currency)} expenses`,
-        income,
-        expenses,
-      };
-    });
-  }, [timeframe, userTransactions, currency]);
+    return months.map((month) => toDatum(format(month, "MMM"), aggregates.totals(periodKey("monthly", month))));
+  }, [aggregates, timeframe, currency]);
 
   const spendingByCategory: CategoryDatum[] = useMemo(() => {
+    if (groupBy === "payee") {
+      return groupByPayee(filteredTransactions, payees)
+        .filter((group) => group.spent > 0)
+        .map((group) => ({ category: group.name, spent: group.spent, amount: fromMinorUnits(group.spent, currency) }));
+    }
     const map = new Map<string, number>();
-    filteredTransactions
-      .filter((transaction) => transaction.type === "expense")
-      .forEach((transaction) => {
-        map.set(transaction.category, (map.get(transaction.category) ?? 0) + transaction.amount);
-      });
+    const rollup = createCategoryRollup(categories, user?.id ?? "");
+    periodTotals.categories.forEach((spent, line) => {
+      const category = rollUp ? rollup(line) : line;
+      map.set(category, (map.get(category) ?? 0) + spent);
+    });
 
     return Array.from(map.entries())
-      .map(([category, amount]) => ({ category, amount }))
+      .map(([category, spent]) => ({ category, spent, amount: fromMinorUnits(spent, currency) }))
       .sort((a, b) => b.amount - a.amount);
-  }, [filteredTransactions]);
+  }, [filteredTransactions, periodTotals, currency, categories, groupBy, payees, rollUp, user?.id]);
+
+  const tagSummaries = useMemo(() => summarizeTags(filteredTransactions), [filteredTransactions]);
 
-  const handleExport = () => {
+  const handleExport = (tag?: string) => {
     if (!user) return;
     startTransition(() => {
       generateFinancialReport({
@@ -266,6 +231,10 @@ export default function DashboardPage() {
         budgets: userBudgets,
         currency,
         timeframe,
+        tag,
+        payees,
+        groupBy,
+        summary: periodTotals,
       });
     });
   };
@@ -284,28 +253,41 @@ export default function DashboardPage() {
           </p>
         </div>
         <div className="flex flex-col items-start gap-3 sm:flex-row sm:items-center">
+          <select
+            aria-label="Filter by account"
+            className="h-12 rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]"
+            value={accountFilter}
+            onChange={(event) => setAccountFilter(event.target.value)}
+          >
+            <option value="all">All accounts</option>
+            {userAccounts.map((account) => (
+              <option value={account.id} key={account.id}>
+                {account.name}
+              </option>
+            ))}
+          </select>
           <SegmentedControl
             options={TIMEFRAMES}
             value={timeframe}
             onChange={(value: Timeframe) => setTimeframe(value)}
           />
-          {user?.subscription.tier === "premium" ? (
+          {can(user, "pdfReports") ? (
             <Button
               variant="outline"
               className="h-12 rounded-2xl border-[rgba(37,99,235,0.28)] bg-[color:var(--color-surface)]"
-              onClick={handleExport}
+              onClick={() => handleExport()}
               isLoading={isExporting}
             >
               Export PDF report
             </Button>
           ) : (
-            <Badge tone="warning" className="uppercase">
-              Upgrade for PDF reports
-            </Badge>
+            <UpgradePrompt feature="pdfReports" />
           )}
         </div>
       </div>
 
+      <MissingRateNotice pairs={missingPairs} />
+
       <div className="grid gap-5 md:grid-cols-2 xl:grid-cols-4">
         {summaryMetrics.map((metric) => (
           <motion.div
@@ -322,7 +304,7 @@ export default function DashboardPage() {
                 <span className="text-2xl font-semibold text-[color:var(--color-foreground)]">
                   {metric.label === "Trend"
                     ? `${metric.value >= 0 ? "+" : ""}${metric.value.toFixed(1)}%`
-                    : formatCurrency(metric.value, currency)}
+                    : formatMoney(metric.value, currency)}
                 </span>
                 <p className="text-xs text-[color:var(--color-muted)]">{metric.description}</p>
                 <Badge tone={metric.tone}>{metric.badge}</Badge>
@@ -332,6 +314,8 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {user ? <UpcomingOccurrences userId={user.id} /> : null}
+
       <div className="grid gap-5 lg:grid-cols-2">
         <Card className="rounded-[var(--radius-lg)]">
           <div className="mb-5 flex items-center justify-between">
@@ -385,9 +369,27 @@ export default function DashboardPage() {
             <div>
               <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Top spending</h3>
               <p className="text-sm text-[color:var(--color-muted)]">
-                Categories with the highest expenses this {timeframe}.
+                {groupBy === "payee" ? "Payees" : "Categories"} with the highest expenses this {timeframe}.
               </p>
             </div>
+            <div className="flex flex-col items-end gap-2">
+              <SegmentedControl
+                options={GROUPINGS}
+                value={groupBy}
+                onChange={(value: ReportGrouping) => setGroupBy(value)}
+              />
+              {groupBy === "category" ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-pressed={rollUp}
+                  className="h-10 rounded-2xl px-3 text-xs"
+                  onClick={() => setRollUp((value) => !value)}
+                >
+                  {rollUp ? "Show subcategories" : "Group by parent"}
+                </Button>
+              ) : null}
+            </div>
           </div>
           <div className="h-72 w-full">
             <ResponsiveContainer>
@@ -406,7 +408,7 @@ export default function DashboardPage() {
                           {datum.category}
                         </div>
                         <div className="mt-1 text-[color:var(--color-muted)]">
-                          {formatCurrency(datum.amount, currency)} spent
+                          {formatMoney(datum.spent, currency)} spent
                         </div>
                       </div>
                     );
@@ -424,6 +426,49 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {tagSummaries.length > 0 ? (
+        <Card className="rounded-[var(--radius-lg)]">
+          <div className="flex flex-col gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Tags</h3>
+              <p className="text-sm text-[color:var(--color-muted)]">
+                Spending and income by tag this {timeframe}. Transactions with several tags count towards each.
+              </p>
+            </div>
+            <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+              {tagSummaries.map((summary) => (
+                <div
+                  key={summary.tag}
+                  className="flex items-center justify-between gap-3 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.16)] bg-[color:var(--color-surface-muted)] p-4"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-base font-semibold text-[color:var(--color-foreground)]">
+                      #{summary.tag}
+                    </span>
+                    <span className="text-xs text-[color:var(--color-muted)]">
+                      {summary.count === 1 ? "1 transaction" : `${summary.count} transactions`} · Spent{" "}
+                      {formatMoney(summary.expenses, currency)}
+                      {summary.income > 0 ? ` · Received ${formatMoney(summary.income, currency)}` : ""}
+                    </span>
+                  </div>
+                  {can(user, "pdfReports") ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-10 rounded-2xl px-3 text-xs"
+                      disabled={isExporting}
+                      onClick={() => handleExport(summary.tag)}
+                    >
+                      PDF
+                    </Button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          </div>
+        </Card>
+      ) : null}
+
       {userBudgets.length > 0 ? (
         <Card className="rounded-[var(--radius-lg)]">
           <div className="flex flex-col gap-4">
@@ -434,15 +479,13 @@ export default function DashboardPage() {
                   Compare your monthly spending to the budgets you set.
                 </p>
               </div>
-              {user?.subscription.tier === "premium" && upcomingRenewal ? (
+              {isPremium(user) && upcomingRenewal ? (
                 <Badge tone="info">Renewal {upcomingRenewal}</Badge>
               ) : null}
             </div>
             <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
               {userBudgets.map((budget) => {
-                const spent = filteredTransactions
-                  .filter((transaction) => transaction.category === budget.category && transaction.type === "expense")
-                  .reduce((total, transaction) => total + transaction.amount, 0);
+                const { spent } = budget;
                 const progress = Math.min(spent / budget.limit, 1);
                 const remaining = Math.max(budget.limit - spent, 0);
                 const tone: "danger" | "warning" | "success" =
@@ -463,7 +506,7 @@ export default function DashboardPage() {
                             {budget.category}
                           </h4>
                           <p className="text-xs text-[color:var(--color-muted)]">
-                            Limit {formatCurrency(budget.limit, currency)}
+                            Limit {formatMoney(budget.limit, currency)}
                           </p>
                         </div>
                         <Badge tone={tone}>
@@ -483,8 +526,8 @@ export default function DashboardPage() {
                         />
                       </div>
                       <div className="mt-3 flex items-center justify-between text-xs text-[color:var(--color-muted)]">
-                        <span>Spent {formatCurrency(spent, currency)}</span>
-                        <span>Remaining {formatCurrency(remaining, currency)}</span>
+                        <span>Spent {formatMoney(spent, currency)}</span>
+                        <span>Remaining {formatMoney(remaining, currency)}</span>
                       </div>
                     </div>
                   </motion.div>
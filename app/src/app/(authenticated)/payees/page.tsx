@@ -0,0 +1,171 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Store } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import { type Budget, useAppStore } from "@/store/use-app-store";
+import { useAuth } from "@/hooks/use-auth";
+import { useCurrencyConversion } from "@/hooks/use-currency-conversion";
+import { MissingRateNotice } from "@/components/exchange-rates/missing-rate-notice";
+import { PayeeDetail } from "@/components/payees/payee-detail";
+import { categoryOptions } from "@/utils/categories";
+import { formatMoney } from "@/utils/money";
+import { groupByPayee } from "@/utils/payees";
+
+const selectClassName =
+  "h-10 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-3 text-xs text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
+const NO_BUDGETS: Budget[] = [];
+
+export default function PayeesPage() {
+  const { user } = useAuth();
+  const params = useSearchParams();
+  const payees = useAppStore((state) => state.payees);
+  const transactions = useAppStore((state) => state.transactions);
+  const categories = useAppStore((state) => state.categories);
+  const addPayee = useAppStore((state) => state.addPayee);
+  const [name, setName] = useState("");
+  const [defaultCategory, setDefaultCategory] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(params.get("id"));
+  const [error, setError] = useState<string | null>(null);
+
+  const userPayees = useMemo(
+    () =>
+      payees.filter((payee) => payee.userId === user?.id).sort((a, b) => a.name.localeCompare(b.name)),
+    [payees, user?.id],
+  );
+  const ownTransactions = useMemo(
+    () => transactions.filter((transaction) => transaction.userId === user?.id),
+    [transactions, user?.id],
+  );
+  const { currency, transactions: converted, missingPairs } = useCurrencyConversion(ownTransactions, NO_BUDGETS);
+  const totals = useMemo(
+    () => new Map(groupByPayee(converted, userPayees).map((group) => [group.payeeId, group])),
+    [converted, userPayees],
+  );
+  const categoryChoices = useMemo(() => (user ? categoryOptions(categories, user) : []), [categories, user]);
+
+  if (!user) return null;
+
+  const selected = userPayees.find((payee) => payee.id === selectedId);
+
+  const handleAdd = () => {
+    try {
+      const payee = addPayee({ userId: user.id, name, defaultCategory });
+      setName("");
+      setDefaultCategory("");
+      setSelectedId(payee.id);
+      setError(null);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to add payee.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex items-start justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-[color:var(--color-foreground)]">Payees</h2>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              The people and merchants you pay. Aliases let bank feeds with different spellings land on the
+              same payee, and a default category fills itself in on new transactions.
+            </p>
+          </div>
+          <Store className="size-5 text-[color:var(--color-brand)]" />
+        </div>
+        <div className="mt-4 grid gap-3 md:grid-cols-[1fr,200px,auto]">
+          <Input placeholder="e.g. Green Bowl" value={name} onChange={(event) => setName(event.target.value)} />
+          <select
+            aria-label="Default category"
+            className={twMerge(selectClassName, "h-12 text-sm")}
+            value={defaultCategory}
+            onChange={(event) => setDefaultCategory(event.target.value)}
+          >
+            <option value="">No default category</option>
+            {categoryChoices.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button className="h-12" onClick={handleAdd} disabled={!name.trim()}>
+            Add payee
+          </Button>
+        </div>
+      </Card>
+
+      <MissingRateNotice pairs={missingPairs} />
+
+      {error ? (
+        <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="grid gap-5 lg:grid-cols-[1fr,1.4fr]">
+        <div className="grid content-start gap-2">
+          {userPayees.length === 0 ? (
+            <div className="flex h-40 items-center justify-center rounded-[var(--radius-md)] border border-dashed border-[rgba(148,163,184,0.32)] text-sm text-[color:var(--color-muted)]">
+              No payees yet. They are added as you record or import transactions.
+            </div>
+          ) : (
+            userPayees.map((payee) => {
+              const group = totals.get(payee.id);
+              return (
+                <button
+                  key={payee.id}
+                  type="button"
+                  aria-pressed={payee.id === selectedId}
+                  className={`flex items-center justify-between gap-3 rounded-[var(--radius-md)] border p-4 text-left shadow-sm transition-colors ${
+                    payee.id === selectedId
+                      ? "border-[rgba(37,99,235,0.4)] bg-[rgba(37,99,235,0.08)]"
+                      : "border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] hover:bg-[rgba(37,99,235,0.04)]"
+                  }`}
+                  onClick={() => {
+                    setSelectedId(payee.id);
+                    setError(null);
+                  }}
+                >
+                  <div className="flex flex-col">
+                    <span className="text-sm font-semibold text-[color:var(--color-foreground)]">{payee.name}</span>
+                    <span className="text-xs text-[color:var(--color-muted)]">
+                      {group?.count ?? 0} transactions
+                      {payee.defaultCategory ? ` · ${payee.defaultCategory}` : ""}
+                    </span>
+                  </div>
+                  <span className="text-sm font-semibold text-[color:var(--color-foreground)]">
+                    {formatMoney(group?.spent ?? 0, currency)}
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        <Card className="rounded-[var(--radius-lg)]">
+          {selected ? (
+            <PayeeDetail
+              key={selected.id}
+              payee={selected}
+              payees={userPayees}
+              transactions={converted}
+              currency={currency}
+              categoryChoices={categoryChoices}
+              onError={setError}
+              onRemoved={() => setSelectedId(null)}
+            />
+          ) : (
+            <p className="text-sm text-[color:var(--color-muted)]">
+              Select a payee to see spending over time, edit aliases, or set a default category.
+            </p>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,38 @@
 'use client';
 
 import { useState } from "react";
+import Link from "next/link";
 import { format } from "date-fns";
 import { motion } from "framer-motion";
-import { Sun, Moon, Star, MailCheck, ShieldCheck } from "lucide-react";
+import { Sun, Moon, MailCheck, ShieldCheck, ArrowLeftRight, Trash2, Receipt } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Toggle } from "@/components/ui/toggle";
 import { useAuth } from "@/hooks/use-auth";
+import { useMailDelivery } from "@/hooks/use-mail-delivery";
 import { useTheme } from "next-themes";
 import { useAppStore } from "@/store/use-app-store";
-
-const currencies = ["USD", "EUR", "GBP", "JPY", "AUD", "CAD", "INR"];
+import { ExchangeRateManager } from "@/components/exchange-rates/exchange-rate-manager";
+import { UpgradePrompt } from "@/components/entitlements/upgrade-prompt";
+import { SubscriptionCard } from "@/components/billing/subscription-card";
+import { InvoiceList } from "@/components/billing/invoice-list";
+import { SecurityCard } from "@/components/security/security-card";
+import { SUPPORTED_CURRENCIES } from "@/utils/money";
+import { can, isPremium } from "@/utils/entitlements";
+import { isEmailVerified, needsEmailVerification } from "@/utils/email-verification";
 
 export default function ProfilePage() {
-  const { user } = useAuth();
+  const { user, vault } = useAuth();
+  const deliverable = useMailDelivery();
   const { setTheme } = useTheme();
-  const upgrade = useAppStore((state) => state.upgradeToPremium);
-  const downgrade = useAppStore((state) => state.downgradeToFree);
   const updateSettings = useAppStore((state) => state.updateSettings);
   const sendAnalyticsEmail = useAppStore((state) => state.sendAnalyticsEmail);
+  const trashCount = useAppStore(
+    (state) => state.trash.filter((item) => item.userId === state.currentUserId).length,
+  );
   const [feedback, setFeedback] = useState<string | null>(null);
-  const [status, setStatus] = useState<"success" | "error" | "warning" | null>(null);
+  const [status, setStatus] = useState<"success" | "error" | null>(null);
 
   if (!user) return null;
 
@@ -34,23 +44,10 @@ export default function ProfilePage() {
 
   const handleCurrencyChange = (value: string) => {
     updateSettings(user.id, { currency: value });
-    setFeedback(`Currency updated to ${value}.`);
-    setStatus("success");
-  };
-
-  const handleUpgrade = () => {
-    if (user.subscription.tier === "premium") return;
-    upgrade(user.id);
-    setFeedback("Welcome to Aurora Premium! Automated imports and advanced budgeting unlocked.");
+    setFeedback(`Display currency updated to ${value}. Amounts are converted with your exchange rates.`);
     setStatus("success");
   };
 
-  const handleDowngrade = () => {
-    downgrade(user.id);
-    setFeedback("You are back on the free plan. Premium automations are disabled.");
-    setStatus("warning");
-  };
-
   const handleAnalyticsEmail = async (period: "weekly" | "monthly") => {
     try {
       sendAnalyticsEmail(user.id, period);
@@ -65,8 +62,8 @@ export default function ProfilePage() {
       });
       setFeedback(`Scheduled your ${period} insights email.`);
       setStatus("success");
-    } catch {
-      setFeedback("Unable to schedule email analytics right now.");
+    } catch (cause) {
+      setFeedback(cause instanceof Error ? cause.message : "Unable to schedule email analytics right now.");
       setStatus("error");
     }
   };
@@ -84,9 +81,14 @@ export default function ProfilePage() {
             </div>
             <div className="grid gap-4 md:grid-cols-2">
               <div className="rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.24)] bg-[color:var(--color-surface-muted)] p-4">
-                <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
-                  Email
-                </span>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+                    Email
+                  </span>
+                  <Badge tone={isEmailVerified(vault) ? "success" : "warning"}>
+                    {isEmailVerified(vault) ? "Verified" : "Pending verification"}
+                  </Badge>
+                </div>
                 <p className="mt-1 text-base font-semibold text-[color:var(--color-foreground)]">
                   {user.email}
                 </p>
@@ -99,12 +101,17 @@ export default function ProfilePage() {
                   Plan
                 </span>
                 <div className="mt-2 flex items-center justify-between">
-                  <Badge tone={user.subscription.tier === "premium" ? "success" : "neutral"}>
-                    {user.subscription.tier === "premium" ? "Premium" : "Free"}
+                  <Badge tone={isPremium(user) ? "success" : "neutral"}>
+                    {isPremium(user) ? "Premium" : "Free"}
                   </Badge>
                   {user.subscription.renewalDate ? (
                     <span className="text-xs text-[color:var(--color-muted)]">
-                      Renews {format(new Date(user.subscription.renewalDate), "PPP")}
+                      {user.subscription.status === "canceled"
+                        ? "Ends"
+                        : user.subscription.status === "trialing"
+                          ? "Trial ends"
+                          : "Renews"}{" "}
+                      {format(new Date(user.subscription.renewalDate), "PPP")}
                     </span>
                   ) : null}
                 </div>
@@ -149,7 +156,7 @@ export default function ProfilePage() {
                   Preferred currency
                 </span>
                 <p className="text-xs text-[color:var(--color-muted)]">
-                  Used for dashboards, budgets, and email reports.
+                  Dashboards, budgets, and reports are converted into this currency.
                 </p>
                 <div className="grid gap-2">
                   <select
@@ -157,7 +164,7 @@ export default function ProfilePage() {
                     value={user.settings.currency}
                     onChange={(event) => handleCurrencyChange(event.target.value)}
                   >
-                    {currencies.map((currency) => (
+                    {SUPPORTED_CURRENCIES.map((currency) => (
                       <option key={currency} value={currency}>
                         {currency}
                       </option>
@@ -174,38 +181,23 @@ export default function ProfilePage() {
           </div>
         </Card>
 
-        <Card className="flex flex-col gap-4 rounded-[var(--radius-lg)]">
+        <SubscriptionCard user={user} />
+      </div>
+
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex flex-col gap-4">
           <div className="flex items-start justify-between">
             <div>
-              <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Subscription</h3>
-              <p className="text-xs text-[color:var(--color-muted)]">
-                Unlock automation, custom budgeting, PDF reports, and priority support.
+              <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Billing history</h3>
+              <p className="text-sm text-[color:var(--color-muted)]">
+                Every charge and failed payment on your account.
               </p>
             </div>
-            <Star className="size-5 text-[color:var(--color-brand)]" />
+            <Receipt className="size-5 text-[color:var(--color-brand)]" />
           </div>
-          <ul className="grid gap-3 text-sm text-[color:var(--color-muted)]">
-            <li>• Automated transaction imports via Plaid</li>
-            <li>• Custom categories, rules, and alerts</li>
-            <li>• Detailed PDF financial reports</li>
-            <li>• Weekly and monthly email insights</li>
-            <li>• Priority customer support</li>
-          </ul>
-          {user.subscription.tier === "premium" ? (
-            <Button
-              variant="outline"
-              className="mt-auto h-12 rounded-2xl border-[rgba(239,68,68,0.24)] text-[color:var(--color-danger)]"
-              onClick={handleDowngrade}
-            >
-              Downgrade to free
-            </Button>
-          ) : (
-            <Button className="mt-auto h-12 rounded-2xl" onClick={handleUpgrade}>
-              Upgrade to Premium
-            </Button>
-          )}
-        </Card>
-      </div>
+          <InvoiceList userId={user.id} />
+        </div>
+      </Card>
 
       <Card className="rounded-[var(--radius-lg)]">
         <div className="flex flex-col gap-4">
@@ -225,7 +217,7 @@ export default function ProfilePage() {
               variant="secondary"
               className="h-12 rounded-2xl"
               onClick={() => handleAnalyticsEmail("weekly")}
-              disabled={user.subscription.tier !== "premium"}
+              disabled={!can(user, "analyticsEmails") || needsEmailVerification(vault, deliverable)}
             >
               Send weekly snapshot
             </Button>
@@ -233,16 +225,50 @@ export default function ProfilePage() {
               variant="secondary"
               className="h-12 rounded-2xl"
               onClick={() => handleAnalyticsEmail("monthly")}
-              disabled={user.subscription.tier !== "premium"}
+              disabled={!can(user, "analyticsEmails") || needsEmailVerification(vault, deliverable)}
             >
               Send monthly report
             </Button>
           </div>
-          {user.subscription.tier !== "premium" ? (
-            <p className="text-xs text-[color:var(--color-muted)]">
-              Upgrade to schedule automated summaries with categorized insights and PDF attachments.
+          {can(user, "analyticsEmails") ? null : <UpgradePrompt feature="analyticsEmails" />}
+        </div>
+      </Card>
+
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Trash</h3>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              {trashCount === 0
+                ? "Nothing deleted in the last 30 days."
+                : `${trashCount} deleted items can still be restored.`}
             </p>
-          ) : null}
+          </div>
+          <Link
+            href="/trash"
+            className="flex h-12 items-center gap-2 rounded-2xl border border-[color:var(--border-color-base)] px-4 text-sm font-semibold text-[color:var(--color-foreground)] hover:bg-[rgba(37,99,235,0.08)]"
+          >
+            <Trash2 className="size-4" />
+            Open trash
+          </Link>
+        </div>
+      </Card>
+
+      <Card className="rounded-[var(--radius-lg)]">
+        <div id="exchange-rates" className="flex scroll-mt-28 flex-col gap-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">
+                Exchange rates
+              </h3>
+              <p className="text-sm text-[color:var(--color-muted)]">
+                Dated rates used to convert transactions and budgets into {user.settings.currency}.
+                The latest rate on or before each transaction date applies.
+              </p>
+            </div>
+            <ArrowLeftRight className="size-5 text-[color:var(--color-brand)]" />
+          </div>
+          <ExchangeRateManager userId={user.id} displayCurrency={user.settings.currency} />
         </div>
       </Card>
 
@@ -253,15 +279,15 @@ export default function ProfilePage() {
           className={`rounded-[var(--radius-md)] border px-4 py-3 text-sm ${
             status === "error"
               ? "border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] text-[color:var(--color-danger)]"
-              : status === "warning"
-                ? "border-[rgba(245,158,11,0.24)] bg-[rgba(245,158,11,0.08)] text-[color:var(--color-warning)]"
-                : "border-[rgba(34,197,94,0.24)] bg-[rgba(34,197,94,0.08)] text-[color:var(--color-accent)]"
+              : "border-[rgba(34,197,94,0.24)] bg-[rgba(34,197,94,0.08)] text-[color:var(--color-accent)]"
           }`}
         >
           {feedback}
         </motion.div>
       ) : null}
 
+      <SecurityCard user={user} />
+
       <Card className="rounded-[var(--radius-lg)]">
         <div className="flex flex-col gap-4">
           <div className="flex items-start justify-between">
@@ -281,10 +307,10 @@ export default function ProfilePage() {
                 Support channel
               </span>
               <p className="mt-1 font-semibold text-[color:var(--color-foreground)]">
-                {user.subscription.tier === "premium" ? "Priority concierge" : "Standard email"}
+                {can(user, "prioritySupport") ? "Priority concierge" : "Standard email"}
               </p>
               <span className="text-xs text-[color:var(--color-muted)]">
-                {user.subscription.tier === "premium"
+                {can(user, "prioritySupport")
                   ? "24-hour response window with financial coaching tips."
                   : "Responses within 2 business days."}
               </span>
@@ -1,78 +1,224 @@
 'use client';
 
 import { useEffect, useMemo, useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format } from "date-fns";
 import Image from "next/image";
+import Link from "next/link";
+import { Store } from "lucide-react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { SegmentedControl } from "@/components/ui/segmented-control";
-import { useAppStore } from "@/store/use-app-store";
+import { ReceiptLink } from "@/components/receipts/receipt-link";
+import { TransactionHistory } from "@/components/audit/transaction-history";
+import { type Transaction, useAppStore } from "@/store/use-app-store";
 import { useAuth } from "@/hooks/use-auth";
-import { formatCurrency, formatDate } from "@/utils/format";
+import { formatDate } from "@/utils/format";
+import { SUPPORTED_CURRENCIES, formatMoney, inputStep, toMinorUnits } from "@/utils/money";
+import { balanceEffect, runningBalances, touchesAccount } from "@/utils/accounts";
+import { categoryLines, isSplit } from "@/utils/splits";
+import { categoryOptions } from "@/utils/categories";
+import { can } from "@/utils/entitlements";
+import { RECURRENCE_FREQUENCIES } from "@/utils/recurrence";
+import { hasTag, userTags } from "@/utils/tags";
+import { matchPayee } from "@/utils/payees";
+import { RecurringList } from "@/components/recurring/recurring-list";
+import { TagInput } from "@/components/tags/tag-input";
+import { UpgradePrompt } from "@/components/entitlements/upgrade-prompt";
 import { useHapticFeedback } from "@/hooks/use-haptic-feedback";
 
-const transactionSchema = z.object({
-  type: z.enum(["income", "expense"]),
-  category: z.string().min(1, "Select a category."),
-  amount: z
-    .string()
-    .refine((value) => Number(value) > 0, "Amount must be greater than zero."),
-  date: z.string(),
-  notes: z.string().optional(),
-  receipt: z
-    .instanceof(File)
-    .optional()
-    .or(z.any().transform(() => undefined)),
-});
+const transactionSchema = z
+  .object({
+    type: z.enum(["income", "expense", "transfer"]),
+    category: z.string().min(1, "Select a category."),
+    amount: z
+      .string()
+      .refine((value) => Number(value) > 0, "Amount must be greater than zero."),
+    currency: z.string().length(3, "Select a currency."),
+    accountId: z.string().min(1, "Select an account."),
+    toAccountId: z.string().optional(),
+    splits: z.array(
+      z.object({
+        category: z.string().min(1, "Select a category."),
+        amount: z
+          .string()
+          .refine((value) => Number(value) > 0, "Amount must be greater than zero."),
+      }),
+    ),
+    date: z.string(),
+    payee: z.string().optional(),
+    repeat: z.enum(["none", "daily", "weekly", "monthly", "last_business_day", "yearly"]),
+    interval: z.string().refine((value) => Number.isInteger(Number(value)) && Number(value) >= 1, {
+      message: "Use a whole number of at least 1.",
+    }),
+    endType: z.enum(["never", "on", "after"]),
+    endDate: z.string().optional(),
+    endCount: z.string().optional(),
+    notes: z.string().optional(),
+    tags: z.array(z.string()),
+    receipt: z
+      .instanceof(File)
+      .optional()
+      .or(z.any().transform(() => undefined)),
+  })
+  .superRefine(({ type, accountId, toAccountId, splits, amount, currency, ...schedule }, ctx) => {
+    if (schedule.repeat !== "none") {
+      if (schedule.endType === "on" && (!schedule.endDate || schedule.endDate < schedule.date)) {
+        ctx.addIssue({ code: "custom", message: "End after the first occurrence.", path: ["endDate"] });
+      }
+      if (schedule.endType === "after" && !(Number(schedule.endCount) >= 1)) {
+        ctx.addIssue({ code: "custom", message: "Repeat at least once.", path: ["endCount"] });
+      }
+    }
+    if (type !== "transfer") {
+      const complete = splits.every((line) => Number(line.amount) > 0) && Number(amount) > 0;
+      if (splits.length > 0 && complete) {
+        const allocated = splits.reduce((sum, line) => sum + toMinorUnits(line.amount, currency), 0);
+        if (allocated !== toMinorUnits(amount, currency)) {
+          ctx.addIssue({
+            code: "custom",
+            message: "Split lines must add up to the amount.",
+            path: ["splits"],
+          });
+        }
+      }
+      return;
+    }
+    if (!toAccountId) {
+      ctx.addIssue({ code: "custom", message: "Select the account to move money to.", path: ["toAccountId"] });
+    } else if (toAccountId === accountId) {
+      ctx.addIssue({ code: "custom", message: "Choose a different account.", path: ["toAccountId"] });
+    }
+  });
 
 type TransactionForm = z.infer<typeof transactionSchema>;
 
-type FilterOption = "all" | "income" | "expense";
+type FilterOption = "all" | "income" | "expense" | "transfer";
 
 const filterOptions = [
   { label: "All", value: "all" },
   { label: "Income", value: "income" },
   { label: "Expenses", value: "expense" },
+  { label: "Transfers", value: "transfer" },
 ] as const;
 
+const typeLabels: Record<Transaction["type"], string> = {
+  income: "Income",
+  expense: "Expense",
+  transfer: "Transfer",
+};
+
+const sourceLabels: Record<Transaction["source"], string> = {
+  manual: "Manual",
+  imported: "Imported",
+  recurring: "Recurring",
+};
+
+const selectClassName =
+  "h-12 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
 export default function TransactionsPage() {
   const { user } = useAuth();
   const addTransaction = useAppStore((state) => state.addTransaction);
+  const addRecurring = useAppStore((state) => state.addRecurring);
+  const materializeRecurring = useAppStore((state) => state.materializeRecurring);
   const removeTransaction = useAppStore((state) => state.removeTransaction);
   const addReceipt = useAppStore((state) => state.addReceipt);
+  const discardReceipt = useAppStore((state) => state.discardReceipt);
+  const removeReceipt = useAppStore((state) => state.removeReceipt);
   const importTransactions = useAppStore((state) => state.importTransactions);
   const transactions = useAppStore((state) => state.transactions);
-  const receipts = useAppStore((state) => state.receipts);
+  const accounts = useAppStore((state) => state.accounts);
+  const categories = useAppStore((state) => state.categories);
+  const payees = useAppStore((state) => state.payees);
+  const exchangeRates = useAppStore((state) => state.exchangeRates);
   const [filter, setFilter] = useState<FilterOption>("all");
+  const [accountFilter, setAccountFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
+  const [payeeFilter, setPayeeFilter] = useState("all");
   const [isImporting, setIsImporting] = useState(false);
   const [importSummary, setImportSummary] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
   const haptic = useHapticFeedback(Boolean(user?.settings.haptics));
 
+  const userAccounts = useMemo(
+    () => accounts.filter((account) => account.userId === user?.id),
+    [accounts, user?.id],
+  );
+
+  const userPayees = useMemo(
+    () =>
+      payees.filter((payee) => payee.userId === user?.id).sort((a, b) => a.name.localeCompare(b.name)),
+    [payees, user?.id],
+  );
+
+  const tagChoices = useMemo(() => (user ? userTags(transactions, user.id) : []), [transactions, user]);
+
+  const categoryChoices = useMemo(
+    () => (user ? categoryOptions(categories, user) : []),
+    [categories, user],
+  );
+
   const {
     register,
     handleSubmit,
     reset,
     setValue,
+    setError,
+    control,
     formState: { errors },
     watch,
   } = useForm<TransactionForm>({
     resolver: zodResolver(transactionSchema),
     defaultValues: {
       type: "expense",
-      category: user?.categories.at(0) ?? "Food",
+      category: categoryChoices.at(0)?.value ?? "",
       amount: "",
+      currency: user?.settings.currency ?? "USD",
+      accountId: userAccounts.at(0)?.id ?? "",
+      toAccountId: "",
+      splits: [],
       date: format(new Date(), "yyyy-MM-dd"),
+      payee: "",
+      repeat: "none",
+      interval: "1",
+      endType: "never",
+      endDate: "",
+      endCount: "",
       notes: "",
+      tags: [],
     },
   });
 
-  const currency = user?.settings.currency ?? "USD";
+  const {
+    fields: splitFields,
+    append: appendSplit,
+    remove: removeSplit,
+    replace: replaceSplits,
+  } = useFieldArray({ control, name: "splits" });
+
+  const selectedCurrency = watch("currency");
+  const selectedType = watch("type");
+  const repeat = watch("repeat");
+  const endType = watch("endType");
+  const tags = watch("tags");
+  const splitValues = watch("splits");
+  const splitRemaining =
+    toMinorUnits(Number(watch("amount")) || 0, selectedCurrency) -
+    splitValues.reduce((sum, line) => sum + toMinorUnits(Number(line.amount) || 0, selectedCurrency), 0);
+
+  const startSplit = () => {
+    const category = watch("category");
+    replaceSplits([
+      { category, amount: watch("amount") },
+      { category: categoryChoices.find((option) => option.value !== category)?.value ?? category, amount: "" },
+    ]);
+  };
 
   const userTransactions = useMemo(
     () =>
@@ -82,10 +228,42 @@ export default function TransactionsPage() {
     [transactions, user?.id],
   );
 
-  const filteredTransactions = useMemo(() => {
-    if (filter === "all") return userTransactions;
-    return userTransactions.filter((transaction) => transaction.type === filter);
-  }, [filter, userTransactions]);
+  const filteredTransactions = useMemo(
+    () =>
+      userTransactions.filter(
+        (transaction) =>
+          (filter === "all" || transaction.type === filter) &&
+          (accountFilter === "all" || touchesAccount(transaction, accountFilter)) &&
+          (tagFilter === "all" || hasTag(transaction, tagFilter)) &&
+          (payeeFilter === "all" || transaction.payeeId === payeeFilter),
+      ),
+    [accountFilter, filter, payeeFilter, tagFilter, userTransactions],
+  );
+
+  const selectedAccount = userAccounts.find((account) => account.id === accountFilter);
+  const ledger = useMemo(
+    () =>
+      selectedAccount
+        ? runningBalances(
+            selectedAccount,
+            userTransactions,
+            exchangeRates.filter((rate) => rate.userId === user?.id),
+          )
+        : undefined,
+    [exchangeRates, selectedAccount, user?.id, userTransactions],
+  );
+  const accountName = (id?: string) =>
+    userAccounts.find((account) => account.id === id)?.name ?? "Removed account";
+  const payeeName = (id: string) => userPayees.find((payee) => payee.id === id)?.name ?? "Removed payee";
+
+  // Picking a known payee preselects its default category for single-category entries.
+  const applyPayeeDefaults = (name: string) => {
+    if (!user || selectedType === "transfer" || splitFields.length > 0) return;
+    const defaultCategory = matchPayee(userPayees, user.id, name)?.defaultCategory;
+    if (defaultCategory && categoryChoices.some((option) => option.value === defaultCategory)) {
+      setValue("category", defaultCategory);
+    }
+  };
 
   const receiptPreview = watch("receipt");
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -104,44 +282,86 @@ export default function TransactionsPage() {
     if (!user) return;
     let receiptId: string | undefined;
 
-    if (values.receipt instanceof File) {
-      const base64 = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(String(reader.result));
-        reader.onerror = () => reject(new Error("Unable to process receipt."));
-        reader.readAsDataURL(values.receipt as File);
-      });
-
-      const savedReceipt = addReceipt({
+    if (values.repeat === "none" && values.receipt instanceof File) {
+      const savedReceipt = await addReceipt({
         fileName: values.receipt.name,
-        dataUrl: base64,
+        blob: values.receipt,
       });
       receiptId = savedReceipt.id;
     }
 
-    addTransaction({
+    const entry = {
       userId: user.id,
       type: values.type,
       category: values.category,
-      amount: Number(values.amount),
-      date: values.date,
+      amount: toMinorUnits(values.amount, values.currency),
+      currency: values.currency,
+      accountId: values.accountId,
+      toAccountId: values.type === "transfer" ? values.toAccountId : undefined,
+      splits:
+        values.type === "transfer" || values.splits.length === 0
+          ? undefined
+          : values.splits.map((line) => ({
+              category: line.category,
+              amount: toMinorUnits(line.amount, values.currency),
+            })),
+      payee: values.type === "transfer" ? undefined : values.payee,
       notes: values.notes,
-      receiptId,
-    });
+      tags: values.tags,
+    };
+
+    try {
+      if (values.repeat === "none") {
+        addTransaction({ ...entry, date: values.date, receiptId });
+      } else {
+        addRecurring({
+          ...entry,
+          startDate: values.date,
+          rule: {
+            frequency: values.repeat,
+            interval: Number(values.interval),
+            end:
+              values.endType === "on"
+                ? { type: "on", date: values.endDate ?? values.date }
+                : values.endType === "after"
+                  ? { type: "after", count: Number(values.endCount) }
+                  : { type: "never" },
+          },
+        });
+        materializeRecurring(user.id);
+      }
+    } catch (error) {
+      if (receiptId) discardReceipt(receiptId);
+      setError("root", {
+        message: error instanceof Error ? error.message : "Unable to save transaction.",
+      });
+      return;
+    }
 
     haptic();
     reset({
       type: values.type,
       category: values.category,
       amount: "",
+      currency: values.currency,
+      accountId: values.accountId,
+      toAccountId: values.toAccountId,
+      splits: [],
       date: format(new Date(), "yyyy-MM-dd"),
+      payee: "",
+      repeat: "none",
+      interval: "1",
+      endType: "never",
+      endDate: "",
+      endCount: "",
       notes: "",
+      tags: [],
       receipt: undefined,
     });
   };
 
   const handleImport = async () => {
-    if (!user || user.subscription.tier !== "premium") return;
+    if (!user || !can(user, "bankImports")) return;
     setIsImporting(true);
     try {
       const imported = importTransactions(user.id);
@@ -154,9 +374,6 @@ export default function TransactionsPage() {
     }
   };
 
-  const getReceiptImage = (receiptId?: string) =>
-    receiptId ? receipts.find((receipt) => receipt.id === receiptId)?.dataUrl : undefined;
-
   return (
     <div className="flex flex-col gap-6">
       <div className="rounded-[var(--radius-lg)] bg-[color:var(--color-surface)] p-6 shadow-sm shadow-black/5">
@@ -166,7 +383,7 @@ export default function TransactionsPage() {
               Record a transaction
             </h2>
             <p className="text-sm text-[color:var(--color-muted)]">
-              Manually log income or expenses and attach receipts for your records.
+              Manually log income, expenses, or transfers between your accounts and attach receipts.
             </p>
           </div>
           <SegmentedControl
@@ -180,7 +397,7 @@ export default function TransactionsPage() {
           <div className="grid gap-4">
             <label className="text-sm font-medium text-[color:var(--color-muted)]">Type</label>
             <div className="flex gap-3">
-              {(["income", "expense"] as const).map((type) => (
+              {(["income", "expense", "transfer"] as const).map((type) => (
                 <button
                   key={type}
                   type="button"
@@ -195,7 +412,7 @@ export default function TransactionsPage() {
                     setValue("type", type);
                   }}
                 >
-                  {type === "income" ? "Income" : "Expense"}
+                  {typeLabels[type]}
                 </button>
               ))}
             </div>
@@ -203,71 +420,267 @@ export default function TransactionsPage() {
               <span className="text-xs text-[color:var(--color-danger)]">{errors.type.message}</span>
             ) : null}
 
-            <Input
-              label="Amount"
-              type="number"
-              min="0"
-              step="0.01"
-              placeholder="0.00"
-              error={errors.amount?.message}
-              {...register("amount")}
-            />
+            <div className="grid grid-cols-[1fr,120px] gap-3">
+              <Input
+                label="Amount"
+                type="number"
+                min="0"
+                step={inputStep(selectedCurrency)}
+                placeholder="0.00"
+                error={errors.amount?.message}
+                {...register("amount")}
+              />
+              <div className="grid gap-2">
+                <label className="text-sm font-medium text-[color:var(--color-muted)]">Currency</label>
+                <select className={selectClassName} {...register("currency")}>
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option value={code} key={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
 
-            <div className="grid gap-2">
-              <label className="text-sm font-medium text-[color:var(--color-muted)]">Category</label>
-              <select
-                className="h-12 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]"
-                {...register("category")}
-              >
-                {user?.categories.map((category) => (
-                  <option value={category} key={category}>
-                    {category}
-                  </option>
-                ))}
-              </select>
-              {errors.category ? (
-                <span className="text-xs text-[color:var(--color-danger)]">{errors.category.message}</span>
+            <div className={selectedType === "transfer" ? "grid grid-cols-2 gap-3" : "grid gap-2"}>
+              <div className="grid gap-2">
+                <label className="text-sm font-medium text-[color:var(--color-muted)]">
+                  {selectedType === "transfer" ? "From account" : "Account"}
+                </label>
+                <select className={selectClassName} {...register("accountId")}>
+                  {userAccounts.map((account) => (
+                    <option value={account.id} key={account.id}>
+                      {account.name}
+                    </option>
+                  ))}
+                </select>
+                {errors.accountId ? (
+                  <span className="text-xs text-[color:var(--color-danger)]">{errors.accountId.message}</span>
+                ) : null}
+              </div>
+              {selectedType === "transfer" ? (
+                <div className="grid gap-2">
+                  <label className="text-sm font-medium text-[color:var(--color-muted)]">To account</label>
+                  <select className={selectClassName} {...register("toAccountId")}>
+                    <option value="">Select…</option>
+                    {userAccounts.map((account) => (
+                      <option value={account.id} key={account.id}>
+                        {account.name}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.toAccountId ? (
+                    <span className="text-xs text-[color:var(--color-danger)]">{errors.toAccountId.message}</span>
+                  ) : null}
+                </div>
               ) : null}
             </div>
 
-            <Input
-              label="Date"
-              type="date"
-              error={errors.date?.message}
-              {...register("date")}
-            />
+            {selectedType === "transfer" ? null : (
+              <>
+                <Input
+                  label="Payee"
+                  placeholder="e.g. Green Bowl"
+                  list="payee-options"
+                  autoComplete="off"
+                  {...register("payee", { onChange: (event) => applyPayeeDefaults(event.target.value) })}
+                />
+                <datalist id="payee-options">
+                  {userPayees.map((payee) => (
+                    <option value={payee.name} key={payee.id} />
+                  ))}
+                </datalist>
+              </>
+            )}
+
+            {selectedType === "transfer" ? null : splitFields.length === 0 ? (
+              <div className="grid gap-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-[color:var(--color-muted)]">Category</label>
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-[color:var(--color-brand)]"
+                    onClick={startSplit}
+                  >
+                    Split across categories
+                  </button>
+                </div>
+                <select className={selectClassName} {...register("category")}>
+                  {categoryChoices.map((option) => (
+                    <option value={option.value} key={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                {errors.category ? (
+                  <span className="text-xs text-[color:var(--color-danger)]">{errors.category.message}</span>
+                ) : null}
+              </div>
+            ) : (
+              <div className="grid gap-3">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-medium text-[color:var(--color-muted)]">Split lines</label>
+                  <button
+                    type="button"
+                    className="text-xs font-semibold text-[color:var(--color-brand)]"
+                    onClick={() => replaceSplits([])}
+                  >
+                    Use one category
+                  </button>
+                </div>
+                {splitFields.map((field, index) => (
+                  <div key={field.id} className="grid grid-cols-[1fr,120px,auto] items-start gap-2">
+                    <select className={selectClassName} {...register(`splits.${index}.category`)}>
+                      {categoryChoices.map((option) => (
+                        <option value={option.value} key={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      aria-label="Line amount"
+                      type="number"
+                      min="0"
+                      step={inputStep(selectedCurrency)}
+                      placeholder="0.00"
+                      error={errors.splits?.[index]?.amount?.message}
+                      {...register(`splits.${index}.amount`)}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-12 rounded-2xl px-3 text-xs text-[color:var(--color-danger)]"
+                      disabled={splitFields.length <= 2}
+                      onClick={() => removeSplit(index)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between text-xs">
+                  <button
+                    type="button"
+                    className="font-semibold text-[color:var(--color-brand)]"
+                    onClick={() => appendSplit({ category: categoryChoices.at(0)?.value ?? "", amount: "" })}
+                  >
+                    Add line
+                  </button>
+                  <span
+                    className={
+                      splitRemaining === 0
+                        ? "text-[color:var(--color-muted)]"
+                        : "text-[color:var(--color-danger)]"
+                    }
+                  >
+                    {splitRemaining === 0
+                      ? "Fully allocated"
+                      : `${formatMoney(Math.abs(splitRemaining), selectedCurrency)} ${
+                          splitRemaining > 0 ? "left to allocate" : "over the amount"
+                        }`}
+                  </span>
+                </div>
+                {errors.splits?.root?.message || errors.splits?.message ? (
+                  <span className="text-xs text-[color:var(--color-danger)]">
+                    {errors.splits?.root?.message ?? errors.splits?.message}
+                  </span>
+                ) : null}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label={repeat === "none" ? "Date" : "First occurrence"}
+                type="date"
+                error={errors.date?.message}
+                {...register("date")}
+              />
+              <div className="grid gap-2">
+                <label className="text-sm font-medium text-[color:var(--color-muted)]">Repeat</label>
+                <select className={selectClassName} {...register("repeat")}>
+                  <option value="none">Does not repeat</option>
+                  {RECURRENCE_FREQUENCIES.map((option) => (
+                    <option value={option.value} key={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {repeat === "none" ? null : (
+              <div className="grid grid-cols-3 gap-3">
+                <Input
+                  label="Every"
+                  type="number"
+                  min="1"
+                  step="1"
+                  error={errors.interval?.message}
+                  {...register("interval")}
+                />
+                <div className="grid gap-2">
+                  <label className="text-sm font-medium text-[color:var(--color-muted)]">Ends</label>
+                  <select className={selectClassName} {...register("endType")}>
+                    <option value="never">Never</option>
+                    <option value="on">On date</option>
+                    <option value="after">After</option>
+                  </select>
+                </div>
+                {endType === "on" ? (
+                  <Input label="End date" type="date" error={errors.endDate?.message} {...register("endDate")} />
+                ) : endType === "after" ? (
+                  <Input
+                    label="Occurrences"
+                    type="number"
+                    min="1"
+                    step="1"
+                    error={errors.endCount?.message}
+                    {...register("endCount")}
+                  />
+                ) : null}
+              </div>
+            )}
           </div>
 
           <div className="grid gap-4">
+            <TagInput value={tags} onChange={(next) => setValue("tags", next)} suggestions={tagChoices} />
             <Textarea
               label="Notes"
-              placeholder="Add context such as merchant, purpose, or tags"
+              placeholder="Add context such as merchant or purpose"
               rows={5}
               {...register("notes")}
             />
-            <div className="grid gap-2">
-              <label className="text-sm font-medium text-[color:var(--color-muted)]">
-                Receipt (optional)
-              </label>
-              <input
-                type="file"
-                accept="image/*"
-                className="block w-full rounded-2xl border border-dashed border-[rgba(148,163,184,0.4)] bg-[rgba(148,163,184,0.08)] px-4 py-3 text-sm text-[color:var(--color-muted)] file:mr-4 file:cursor-pointer file:rounded-xl file:border-0 file:bg-[color:var(--color-brand)] file:px-4 file:py-2 file:text-sm file:font-semibold file:text-white"
-                {...register("receipt")}
-              />
-              {previewUrl ? (
-                <div className="mt-2 overflow-hidden rounded-2xl border border-[rgba(148,163,184,0.18)]">
-                  <Image
-                    src={previewUrl}
-                    alt="Receipt preview"
-                    width={600}
-                    height={320}
-                    className="h-40 w-full object-cover"
-                    unoptimized
-                  />
-                </div>
-              ) : null}
-            </div>
+            {repeat === "none" ? (
+              <div className="grid gap-2">
+                <label className="text-sm font-medium text-[color:var(--color-muted)]">
+                  Receipt (optional)
+                </label>
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="block w-full rounded-2xl border border-dashed border-[rgba(148,163,184,0.4)] bg-[rgba(148,163,184,0.08)] px-4 py-3 text-sm text-[color:var(--color-muted)] file:mr-4 file:cursor-pointer file:rounded-xl file:border-0 file:bg-[color:var(--color-brand)] file:px-4 file:py-2 file:text-sm file:font-semibold file:text-white"
+                  {...register("receipt")}
+                />
+                {previewUrl ? (
+                  <div className="mt-2 overflow-hidden rounded-2xl border border-[rgba(148,163,184,0.18)]">
+                    <Image
+                      src={previewUrl}
+                      alt="Receipt preview"
+                      width={600}
+                      height={320}
+                      className="h-40 w-full object-cover"
+                      unoptimized
+                    />
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
+            {errors.root ? (
+              <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+                {errors.root.message}
+              </div>
+            ) : null}
 
             <Button type="submit" className="w-full">
               Save transaction
@@ -286,22 +699,86 @@ export default function TransactionsPage() {
               Recent transactions across your manual entries and automated imports.
             </p>
           </div>
-          {user?.subscription.tier === "premium" ? (
-            <Button
-              variant="outline"
-              className="h-12 min-w-[200px] rounded-2xl border-[rgba(37,99,235,0.28)]"
-              onClick={handleImport}
-              disabled={isImporting}
+          <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center sm:justify-end">
+            <select
+              aria-label="Filter by account"
+              className={`${selectClassName} sm:w-56`}
+              value={accountFilter}
+              onChange={(event) => setAccountFilter(event.target.value)}
             >
-              {isImporting ? "Syncing…" : "Import from bank"}
-            </Button>
-          ) : (
-            <Badge tone="warning" className="uppercase">
-              Premium unlocks bank imports
-            </Badge>
-          )}
+              <option value="all">All accounts</option>
+              {userAccounts.map((account) => (
+                <option value={account.id} key={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+            {userPayees.length > 0 ? (
+              <select
+                aria-label="Filter by payee"
+                className={`${selectClassName} sm:w-44`}
+                value={payeeFilter}
+                onChange={(event) => setPayeeFilter(event.target.value)}
+              >
+                <option value="all">All payees</option>
+                {userPayees.map((payee) => (
+                  <option value={payee.id} key={payee.id}>
+                    {payee.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+            <Link
+              href="/payees"
+              className="flex h-12 items-center justify-center gap-2 rounded-2xl border border-[color:var(--border-color-base)] px-4 text-sm font-semibold text-[color:var(--color-foreground)] hover:bg-[rgba(37,99,235,0.08)]"
+            >
+              <Store className="size-4" />
+              Payees
+            </Link>
+            {tagChoices.length > 0 ? (
+              <select
+                aria-label="Filter by tag"
+                className={`${selectClassName} sm:w-44`}
+                value={tagFilter}
+                onChange={(event) => setTagFilter(event.target.value)}
+              >
+                <option value="all">All tags</option>
+                {tagChoices.map((tag) => (
+                  <option value={tag} key={tag}>
+                    #{tag}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+            {can(user, "bankImports") ? (
+              <Button
+                variant="outline"
+                className="h-12 min-w-[200px] rounded-2xl border-[rgba(37,99,235,0.28)]"
+                onClick={handleImport}
+                disabled={isImporting}
+              >
+                {isImporting ? "Syncing…" : "Import from bank"}
+              </Button>
+            ) : (
+              <UpgradePrompt feature="bankImports" />
+            )}
+          </div>
         </div>
 
+        {selectedAccount && ledger ? (
+          <div className="flex items-center justify-between rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 text-sm">
+            <span className="text-[color:var(--color-muted)]">
+              {selectedAccount.name} balance
+              {ledger.unconverted > 0
+                ? ` · ${ledger.unconverted} transactions need an exchange rate`
+                : ""}
+            </span>
+            <span className="font-semibold text-[color:var(--color-foreground)]">
+              {formatMoney(ledger.balance, selectedAccount.currency)}
+            </span>
+          </div>
+        ) : null}
+
         {importSummary ? (
           <div className="rounded-2xl border border-[rgba(34,197,94,0.22)] bg-[rgba(34,197,94,0.1)] px-4 py-3 text-xs text-[color:var(--color-accent)]">
             {importSummary}
@@ -315,7 +792,14 @@ export default function TransactionsPage() {
             </div>
           ) : (
             filteredTransactions.map((transaction) => {
-              const receiptSrc = getReceiptImage(transaction.receiptId);
+              const sign = selectedAccount
+                ? Math.sign(balanceEffect(transaction, selectedAccount.id))
+                : transaction.type === "income"
+                  ? 1
+                  : transaction.type === "expense"
+                    ? -1
+                    : 0;
+              const balanceAfter = ledger?.after.get(transaction.id);
               return (
                 <motion.div
                   key={transaction.id}
@@ -327,43 +811,107 @@ export default function TransactionsPage() {
                     <div className="flex flex-1 items-center gap-4">
                       <div
                         className={`flex size-12 items-center justify-center rounded-2xl text-sm font-semibold ${
-                          transaction.type === "income"
+                          sign > 0
                             ? "bg-[rgba(34,197,94,0.16)] text-[color:var(--color-accent)]"
-                            : "bg-[rgba(239,68,68,0.16)] text-[color:var(--color-danger)]"
+                            : sign < 0
+                              ? "bg-[rgba(239,68,68,0.16)] text-[color:var(--color-danger)]"
+                              : "bg-[rgba(37,99,235,0.12)] text-[color:var(--color-brand-strong)]"
                         }`}
                       >
-                        {transaction.type === "income" ? "+" : "-"}
+                        {sign > 0 ? "+" : sign < 0 ? "-" : "⇄"}
                       </div>
                       <div className="flex flex-col">
-                        <span className="text-base font-semibold text-[color:var(--color-foreground)]">
-                          {transaction.category}
+                        <span className="flex items-center gap-2 text-base font-semibold text-[color:var(--color-foreground)]">
+                          {isSplit(transaction)
+                            ? categoryLines(transaction)
+                                .map((line) => line.category)
+                                .join(" · ")
+                            : transaction.category}
+                          {isSplit(transaction) ? <Badge tone="info">Split</Badge> : null}
                         </span>
                         <span className="text-xs text-[color:var(--color-muted)]">
-                          {formatDate(transaction.date)} · {transaction.source === "imported" ? "Imported" : "Manual"}
+                          {formatDate(transaction.date)} ·{" "}
+                          {transaction.payeeId ? (
+                            <>
+                              <Link
+                                href={`/payees?id=${transaction.payeeId}`}
+                                className="font-semibold text-[color:var(--color-brand)] hover:underline"
+                              >
+                                {payeeName(transaction.payeeId)}
+                              </Link>{" "}
+                              ·{" "}
+                            </>
+                          ) : null}
+                          {sourceLabels[transaction.source]} ·{" "}
+                          {transaction.type === "transfer"
+                            ? `${accountName(transaction.accountId)} → ${accountName(transaction.toAccountId)}`
+                            : accountName(transaction.accountId)}
                         </span>
+                        {isSplit(transaction) ? (
+                          <span className="mt-1 text-xs text-[color:var(--color-muted)]">
+                            {categoryLines(transaction)
+                              .map((line) => `${line.category} ${formatMoney(line.amount, transaction.currency)}`)
+                              .join(", ")}
+                          </span>
+                        ) : null}
                         {transaction.notes ? (
                           <span className="mt-1 text-sm text-[color:var(--color-muted)]">
                             {transaction.notes}
                           </span>
                         ) : null}
+                        {transaction.tags ? (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {transaction.tags.map((tag) => (
+                              <button
+                                key={tag}
+                                type="button"
+                                aria-pressed={tagFilter === tag}
+                                className="rounded-full bg-[rgba(37,99,235,0.1)] px-2 py-0.5 text-xs font-semibold text-[color:var(--color-brand-strong)] hover:bg-[rgba(37,99,235,0.18)]"
+                                onClick={() => setTagFilter((current) => (current === tag ? "all" : tag))}
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        ) : null}
                       </div>
                     </div>
                     <div className="flex flex-col items-end gap-3 md:w-48">
                       <span className="text-lg font-semibold text-[color:var(--color-foreground)]">
-                        {transaction.type === "income" ? "" : "-"}
-                        {formatCurrency(transaction.amount, currency)}
+                        {sign < 0 ? "-" : ""}
+                        {formatMoney(transaction.amount, transaction.currency)}
                       </span>
+                      {selectedAccount && balanceAfter !== undefined ? (
+                        <span className="text-xs text-[color:var(--color-muted)]">
+                          Balance {formatMoney(balanceAfter, selectedAccount.currency)}
+                        </span>
+                      ) : null}
                       <div className="flex gap-2">
-                        {receiptSrc ? (
-                          <a
-                            href={receiptSrc}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="rounded-2xl border border-[rgba(148,163,184,0.28)] px-3 py-2 text-xs font-semibold text-[color:var(--color-brand)]"
-                          >
-                            View receipt
-                          </a>
+                        {transaction.receiptId ? (
+                          <>
+                            <ReceiptLink receiptId={transaction.receiptId} />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              aria-label="Move receipt to trash"
+                              className="h-10 rounded-2xl px-3 text-xs text-[color:var(--color-muted)]"
+                              onClick={() => transaction.receiptId && removeReceipt(transaction.receiptId)}
+                            >
+                              Remove receipt
+                            </Button>
+                          </>
                         ) : null}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-expanded={historyId === transaction.id}
+                          className="h-10 rounded-2xl px-3 text-xs"
+                          onClick={() =>
+                            setHistoryId((current) => (current === transaction.id ? null : transaction.id))
+                          }
+                        >
+                          History
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -375,12 +923,19 @@ export default function TransactionsPage() {
                       </div>
                     </div>
                   </div>
+                  {historyId === transaction.id ? (
+                    <div className="mt-2 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] p-4">
+                      <TransactionHistory transaction={transaction} />
+                    </div>
+                  ) : null}
                 </motion.div>
               );
             })
           )}
         </div>
       </div>
+
+      {user ? <RecurringList userId={user.id} /> : null}
     </div>
   );
 }
@@ -0,0 +1,151 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type TrashItem, useAppStore } from "@/store/use-app-store";
+import { useAuth } from "@/hooks/use-auth";
+import { formatDate } from "@/utils/format";
+import { formatMoney } from "@/utils/money";
+import { TRASH_RETENTION_DAYS, daysUntilPurge, describeTrashItem } from "@/utils/trash";
+
+const itemDetail = (item: TrashItem) => {
+  switch (item.kind) {
+    case "transaction":
+      return `${formatDate(item.record.date)} · ${item.record.type === "expense" ? "-" : ""}${formatMoney(
+        item.record.amount,
+        item.record.currency,
+      )}`;
+    case "budget":
+      return `Limit ${formatMoney(item.record.limit, item.record.currency)}`;
+    case "receipt":
+      return `Uploaded ${formatDate(item.record.uploadedAt)}`;
+    case "category":
+      return "Custom category";
+    case "payee":
+      return item.record.aliases.length > 0 ? `Also known as ${item.record.aliases.join(", ")}` : "Payee";
+  }
+};
+
+export default function TrashPage() {
+  const { user } = useAuth();
+  const trash = useAppStore((state) => state.trash);
+  const restoreFromTrash = useAppStore((state) => state.restoreFromTrash);
+  const purgeFromTrash = useAppStore((state) => state.purgeFromTrash);
+  const emptyTrash = useAppStore((state) => state.emptyTrash);
+  const [error, setError] = useState<string | null>(null);
+
+  const items = useMemo(
+    () =>
+      trash
+        .filter((item) => item.userId === user?.id)
+        .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)),
+    [trash, user?.id],
+  );
+
+  if (!user) return null;
+
+  const handleRestore = (id: string) => {
+    try {
+      restoreFromTrash(id);
+      setError(null);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to restore this item.");
+    }
+  };
+
+  const handlePurge = (id: string) => {
+    if (window.confirm("Delete this item forever? This cannot be undone.")) {
+      purgeFromTrash(id);
+    }
+  };
+
+  const handleEmpty = () => {
+    if (window.confirm(`Permanently delete all ${items.length} items in the trash?`)) {
+      emptyTrash(user.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card className="rounded-[var(--radius-lg)]">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-[color:var(--color-foreground)]">Trash</h2>
+            <p className="text-sm text-[color:var(--color-muted)]">
+              Deleted transactions, budgets, receipts, and categories stay here for {TRASH_RETENTION_DAYS}{" "}
+              days before they are removed for good. They are left out of your dashboard, budgets, and
+              reports in the meantime.
+            </p>
+          </div>
+          {items.length > 0 ? (
+            <Button
+              variant="outline"
+              className="h-12 rounded-2xl border-[rgba(239,68,68,0.24)] text-[color:var(--color-danger)]"
+              onClick={handleEmpty}
+            >
+              Empty trash
+            </Button>
+          ) : null}
+        </div>
+      </Card>
+
+      {error ? (
+        <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      {items.length === 0 ? (
+        <div className="flex h-40 flex-col items-center justify-center gap-2 rounded-[var(--radius-md)] border border-dashed border-[rgba(148,163,184,0.32)] text-sm text-[color:var(--color-muted)]">
+          <Trash2 className="size-5" />
+          The trash is empty.
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          {items.map((item) => {
+            const { title, kindLabel } = describeTrashItem(item);
+            const daysLeft = daysUntilPurge(item);
+            return (
+              <div
+                key={item.id}
+                className="flex flex-col gap-3 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] p-4 shadow-sm md:flex-row md:items-center md:justify-between"
+              >
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-base font-semibold text-[color:var(--color-foreground)]">{title}</span>
+                    <Badge tone="neutral">{kindLabel}</Badge>
+                  </div>
+                  <span className="text-xs text-[color:var(--color-muted)]">
+                    {itemDetail(item)} · Deleted {formatDate(item.deletedAt)} ·{" "}
+                    {daysLeft === 0 ? "Purged today" : `${daysLeft} days left`}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => handleRestore(item.id)}
+                  >
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+                    onClick={() => handlePurge(item.id)}
+                  >
+                    Delete forever
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { VERIFICATION_LINK_PATH, verificationMail } from "@/utils/email-verification";
+import type { MailMessage, MailTemplate } from "@/utils/mailer";
+import { RESET_LINK_PATH, resetMail } from "@/utils/password-reset";
+
+// The route writes every message itself from a known template, so callers can
+// choose the recipient and link but never the text: it is not an open relay.
+const TEMPLATES: Record<MailTemplate, { path: string; render: (to: string, link: string) => MailMessage }> = {
+  password_reset: { path: RESET_LINK_PATH, render: resetMail },
+  email_verification: { path: VERIFICATION_LINK_PATH, render: verificationMail },
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function linkFor(value: unknown, origin: string, path: string) {
+  if (typeof value !== "string") return undefined;
+  try {
+    const url = new URL(value);
+    return url.origin === origin && url.pathname === path ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export const dynamic = "force-dynamic";
+
+const isConfigured = () => Boolean(process.env.EMAIL_API_KEY && process.env.EMAIL_FROM);
+
+// The client asks this at startup; without delivery, features aren't gated on a verified address.
+export function GET() {
+  return NextResponse.json({ available: isConfigured() }, { status: 200 });
+}
+
+export async function POST(request: Request) {
+  const apiUrl = process.env.EMAIL_API_URL ?? "https://api.resend.com/emails";
+  const apiKey = process.env.EMAIL_API_KEY;
+  const from = process.env.EMAIL_FROM;
+  if (!apiKey || !from) {
+    return NextResponse.json(
+      { error: "Email delivery is not available right now. Please try again later." },
+      { status: 503 },
+    );
+  }
+
+  const { template, to, link } = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const entry = typeof template === "string" ? TEMPLATES[template as MailTemplate] : undefined;
+  const origin = process.env.APP_ORIGIN ?? new URL(request.url).origin;
+  const href = entry ? linkFor(link, origin, entry.path) : undefined;
+  if (!entry || !href || typeof to !== "string" || !EMAIL_PATTERN.test(to)) {
+    return NextResponse.json({ error: "That email can’t be sent." }, { status: 400 });
+  }
+
+  const message = entry.render(to, href);
+  const response = await fetch(apiUrl, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      from,
+      to: [message.to],
+      subject: message.subject,
+      text: `${message.text}\n\n${message.link}`,
+    }),
+  }).catch(() => undefined);
+
+  if (!response?.ok) {
+    console.error(`[Aurora Finance] ${message.template} email to ${message.to} failed: ${response?.status ?? "network error"}`);
+    return NextResponse.json(
+      { error: "We couldn’t send the email. Please try again later." },
+      { status: 502 },
+    );
+  }
+
+  return NextResponse.json({ ok: true }, { status: 200 });
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { type Transaction, type TransactionSplit, useAppStore } from "@/store/use-app-store";
+import { AUDIT_ACTION_LABELS, AUDIT_SOURCE_LABELS, recordHistory, visibleChanges } from "@/utils/audit";
+import { formatDate } from "@/utils/format";
+import { formatMoney } from "@/utils/money";
+
+type TransactionHistoryProps = {
+  transaction: Transaction;
+};
+
+const fieldLabels: Record<string, string> = {
+  accountId: "Account",
+  toAccountId: "To account",
+  receiptId: "Receipt",
+  payeeId: "Payee",
+  occurrenceDate: "Occurrence",
+};
+
+const fieldLabel = (field: string) =>
+  fieldLabels[field] ?? field.charAt(0).toUpperCase() + field.slice(1);
+
+export function TransactionHistory({ transaction }: TransactionHistoryProps) {
+  const audit = useAppStore((state) => state.audit);
+  const accounts = useAppStore((state) => state.accounts);
+  const payees = useAppStore((state) => state.payees);
+
+  const entries = useMemo(
+    () => recordHistory(audit, "transaction", transaction.id),
+    [audit, transaction.id],
+  );
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === undefined || value === null || value === "") return "—";
+    switch (field) {
+      case "amount":
+        return formatMoney(value as number, transaction.currency);
+      case "date":
+        return formatDate(value as string);
+      case "accountId":
+      case "toAccountId":
+        return accounts.find((account) => account.id === value)?.name ?? "Deleted account";
+      case "payeeId":
+        return payees.find((payee) => payee.id === value)?.name ?? "Deleted payee";
+      case "receiptId":
+        return "Attached";
+      case "splits":
+        return (value as TransactionSplit[])
+          .map((split) => `${split.category} ${formatMoney(split.amount, transaction.currency)}`)
+          .join(", ");
+      case "tags":
+        return (value as string[]).map((tag) => `#${tag}`).join(" ");
+      default:
+        return String(value);
+    }
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-[color:var(--color-muted)]">No recorded changes yet.</p>;
+  }
+
+  return (
+    <ol className="grid gap-2">
+      {entries.map((entry) => (
+        <li
+          key={entry.id}
+          className="rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface)] px-4 py-3 text-xs"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-[color:var(--color-foreground)]">
+              {AUDIT_ACTION_LABELS[entry.action]}
+            </span>
+            <Badge tone="neutral">{AUDIT_SOURCE_LABELS[entry.source]}</Badge>
+            <span className="text-[color:var(--color-muted)]">
+              {formatDate(entry.at, "MMM dd, yyyy · HH:mm")}
+            </span>
+          </div>
+          {visibleChanges(entry).length > 0 ? (
+            <ul className="mt-2 grid gap-1 text-[color:var(--color-muted)]">
+              {visibleChanges(entry).map(([field, change]) => (
+                <li key={field}>
+                  <span className="font-medium text-[color:var(--color-foreground)]">{fieldLabel(field)}</span>:{" "}
+                  {formatValue(field, change.before)} → {formatValue(field, change.after)}
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Receipt } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { useAppStore } from "@/store/use-app-store";
+import { formatMoney } from "@/utils/money";
+
+type InvoiceListProps = {
+  userId: string;
+};
+
+export function InvoiceList({ userId }: InvoiceListProps) {
+  const allInvoices = useAppStore((state) => state.invoices);
+  const invoices = useMemo(
+    () =>
+      allInvoices
+        .filter((invoice) => invoice.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [allInvoices, userId],
+  );
+
+  if (invoices.length === 0) {
+    return (
+      <div className="flex items-center gap-3 rounded-2xl border border-dashed border-[rgba(148,163,184,0.32)] px-4 py-6 text-sm text-[color:var(--color-muted)]">
+        <Receipt className="size-4" />
+        No charges yet. Invoices appear here after every payment attempt.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="grid gap-2">
+      {invoices.map((invoice) => (
+        <li
+          key={invoice.id}
+          className="flex flex-col gap-1 rounded-[var(--radius-md)] border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 sm:flex-row sm:items-center sm:justify-between"
+        >
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-[color:var(--color-foreground)]">{invoice.description}</span>
+            <span className="text-xs text-[color:var(--color-muted)]">
+              {format(new Date(invoice.createdAt), "PPP")}
+              {invoice.failureReason ? ` · ${invoice.failureReason}` : ""}
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-semibold text-[color:var(--color-foreground)]">
+              {formatMoney(invoice.amount, invoice.currency)}
+            </span>
+            <Badge tone={invoice.status === "paid" ? "success" : "danger"}>
+              {invoice.status === "paid" ? "Paid" : "Failed"}
+            </Badge>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
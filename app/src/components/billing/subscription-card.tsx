@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Toggle } from "@/components/ui/toggle";
+import { type SubscriptionStatus, type User, useAppStore } from "@/store/use-app-store";
+import { PREMIUM_PRICE, TRIAL_DAYS, describeSubscription, nextBillingDate } from "@/utils/billing";
+import { getPaymentProvider, mockPaymentProvider } from "@/utils/payments";
+import { formatMoney } from "@/utils/money";
+import { isPremium } from "@/utils/entitlements";
+
+type SubscriptionCardProps = {
+  user: User;
+};
+
+const statusBadges: Record<SubscriptionStatus, { label: string; tone: "success" | "info" | "warning" | "danger" | "neutral" }> = {
+  trialing: { label: "Trial", tone: "info" },
+  active: { label: "Active", tone: "success" },
+  past_due: { label: "Past due", tone: "danger" },
+  canceled: { label: "Canceled", tone: "warning" },
+  expired: { label: "Expired", tone: "neutral" },
+};
+
+export function SubscriptionCard({ user }: SubscriptionCardProps) {
+  const startTrial = useAppStore((state) => state.startTrial);
+  const upgradeToPremium = useAppStore((state) => state.upgradeToPremium);
+  const cancelSubscription = useAppStore((state) => state.cancelSubscription);
+  const resumeSubscription = useAppStore((state) => state.resumeSubscription);
+  const retryPayment = useAppStore((state) => state.retryPayment);
+  const processBilling = useAppStore((state) => state.processBilling);
+  const [declining, setDeclining] = useState(mockPaymentProvider.isDeclining());
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const { subscription } = user;
+  const premium = isPremium(user);
+  const badge = statusBadges[subscription.status];
+  const usingMock = getPaymentProvider() === mockPaymentProvider;
+  const nextBill = nextBillingDate(subscription);
+
+  const run = async (action: () => unknown, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      setMessage({ tone: "success", text: success });
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Something went wrong." });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDeclining = () => {
+    mockPaymentProvider.setDeclining(!declining);
+    setDeclining(!declining);
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-[var(--radius-lg)]">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Subscription</h3>
+          <p className="text-xs text-[color:var(--color-muted)]">
+            Unlock automation, custom budgeting, PDF reports, and priority support for{" "}
+            {formatMoney(PREMIUM_PRICE.amount, PREMIUM_PRICE.currency)} a month.
+          </p>
+        </div>
+        <Star className="size-5 text-[color:var(--color-brand)]" />
+      </div>
+      <ul className="grid gap-3 text-sm text-[color:var(--color-muted)]">
+        <li>• Automated transaction imports via Plaid</li>
+        <li>• Custom categories, rules, and alerts</li>
+        <li>• Detailed PDF financial reports</li>
+        <li>• Weekly and monthly email insights</li>
+        <li>• Priority customer support</li>
+      </ul>
+
+      {premium || subscription.status === "expired" ? (
+        <div className="flex items-center justify-between gap-3 rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 text-xs text-[color:var(--color-muted)]">
+          <span>{describeSubscription(subscription)}</span>
+          <Badge tone={badge.tone}>{badge.label}</Badge>
+        </div>
+      ) : null}
+
+      {message ? (
+        <div
+          className={
+            message.tone === "error"
+              ? "rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]"
+              : "rounded-2xl border border-[rgba(34,197,94,0.22)] bg-[rgba(34,197,94,0.1)] px-4 py-3 text-xs text-[color:var(--color-accent)]"
+          }
+        >
+          {message.text}
+        </div>
+      ) : null}
+
+      <div className="mt-auto grid gap-2">
+        {!premium ? (
+          <>
+            <Button
+              className="h-12 rounded-2xl"
+              isLoading={isBusy}
+              onClick={() =>
+                run(
+                  () => upgradeToPremium(user.id),
+                  "Welcome to Aurora Premium! Automated imports and advanced budgeting unlocked.",
+                )
+              }
+            >
+              Upgrade to Premium
+            </Button>
+            {subscription.trialUsed ? null : (
+              <Button
+                variant="ghost"
+                className="h-12 rounded-2xl"
+                disabled={isBusy}
+                onClick={() => run(() => startTrial(user.id), `Your ${TRIAL_DAYS}-day Premium trial has started.`)}
+              >
+                Start a {TRIAL_DAYS}-day free trial
+              </Button>
+            )}
+          </>
+        ) : null}
+        {subscription.status === "past_due" ? (
+          <Button
+            className="h-12 rounded-2xl"
+            isLoading={isBusy}
+            onClick={() => run(() => retryPayment(user.id), "Payment retried.")}
+          >
+            Retry payment
+          </Button>
+        ) : null}
+        {subscription.status === "canceled" ? (
+          <Button
+            className="h-12 rounded-2xl"
+            onClick={() => run(() => resumeSubscription(user.id), "Your subscription will renew as usual.")}
+          >
+            Resume subscription
+          </Button>
+        ) : null}
+        {premium && subscription.status !== "canceled" ? (
+          <Button
+            variant="outline"
+            className="h-12 rounded-2xl border-[rgba(239,68,68,0.24)] text-[color:var(--color-danger)]"
+            disabled={isBusy}
+            onClick={() =>
+              run(
+                () => cancelSubscription(user.id),
+                "Canceled. Premium categories turn read-only when the plan ends; all of your history is kept.",
+              )
+            }
+          >
+            Cancel subscription
+          </Button>
+        ) : null}
+      </div>
+
+      {usingMock ? (
+        <div className="flex flex-col gap-2 rounded-2xl border border-dashed border-[rgba(148,163,184,0.32)] p-3">
+          <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+            Test payments
+          </span>
+          <Toggle pressed={declining} onClick={handleDeclining} label="Decline every charge" />
+          {nextBill ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-10 rounded-2xl px-3 text-xs"
+              disabled={isBusy}
+              onClick={() => run(() => processBilling(user.id, new Date(nextBill)), "Billing cycle simulated.")}
+            >
+              Simulate next billing date
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import Link from "next/link";
+import { Lock } from "lucide-react";
+import { twMerge } from "tailwind-merge";
+import { CAPABILITY_LABELS, type Capability } from "@/utils/entitlements";
+
+type UpgradePromptProps = {
+  className?: string;
+} & ({ feature: Capability; message?: string } | { feature?: undefined; message: string });
+
+export function UpgradePrompt({ feature, message, className }: UpgradePromptProps) {
+  return (
+    <div
+      className={twMerge(
+        "flex items-center justify-between gap-3 rounded-2xl border border-[rgba(245,158,11,0.24)] bg-[rgba(245,158,11,0.08)] px-4 py-3 text-xs text-[color:var(--color-warning)]",
+        className,
+      )}
+    >
+      <span className="flex items-center gap-2">
+        <Lock className="size-4 shrink-0" />
+        {message ?? `Upgrade to Premium to unlock ${CAPABILITY_LABELS[feature!]}.`}
+      </span>
+      <Link href="/profile" className="shrink-0 font-semibold underline-offset-2 hover:underline">
+        Upgrade
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { ChangeEvent, useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useAppStore } from "@/store/use-app-store";
+import { SUPPORTED_CURRENCIES } from "@/utils/money";
+import { parseExchangeRateFile } from "@/utils/exchange-rates";
+import { formatDate } from "@/utils/format";
+
+const rateSchema = z
+  .object({
+    date: z.string().min(1, "Pick the day this rate applies from."),
+    base: z.string().length(3),
+    quote: z.string().length(3),
+    rate: z.string().refine((value) => Number(value) > 0, "Rate must be greater than zero."),
+  })
+  .superRefine(({ base, quote }, ctx) => {
+    if (base === quote) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Choose two different currencies.",
+        path: ["quote"],
+      });
+    }
+  });
+
+type RateForm = z.infer<typeof rateSchema>;
+
+type ExchangeRateManagerProps = {
+  userId: string;
+  displayCurrency: string;
+};
+
+const selectClassName =
+  "h-12 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-4 text-sm text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
+export function ExchangeRateManager({ userId, displayCurrency }: ExchangeRateManagerProps) {
+  const exchangeRates = useAppStore((state) => state.exchangeRates);
+  const upsertExchangeRate = useAppStore((state) => state.upsertExchangeRate);
+  const removeExchangeRate = useAppStore((state) => state.removeExchangeRate);
+  const importExchangeRates = useAppStore((state) => state.importExchangeRates);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<RateForm>({
+    resolver: zodResolver(rateSchema),
+    defaultValues: {
+      date: format(new Date(), "yyyy-MM-dd"),
+      base: SUPPORTED_CURRENCIES.find((code) => code !== displayCurrency) ?? "EUR",
+      quote: displayCurrency,
+      rate: "",
+    },
+  });
+
+  const userRates = useMemo(
+    () =>
+      exchangeRates
+        .filter((rate) => rate.userId === userId)
+        .sort((a, b) => b.date.localeCompare(a.date) || a.base.localeCompare(b.base)),
+    [exchangeRates, userId],
+  );
+
+  const onSubmit = (values: RateForm) => {
+    try {
+      upsertExchangeRate({
+        userId,
+        date: values.date,
+        base: values.base,
+        quote: values.quote,
+        rate: Number(values.rate),
+      });
+      setMessage({ tone: "success", text: `Saved ${values.base}→${values.quote} for ${values.date}.` });
+      reset({ ...values, rate: "" });
+    } catch (cause) {
+      setMessage({ tone: "error", text: cause instanceof Error ? cause.message : "Unable to save rate." });
+    }
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const rows = parseExchangeRateFile(await file.text());
+      const count = importExchangeRates(userId, rows);
+      setMessage({ tone: "success", text: `Imported ${count} rates from ${file.name}.` });
+    } catch (cause) {
+      setMessage({
+        tone: "error",
+        text: cause instanceof Error ? cause.message : "Unable to read the rate file.",
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      <form className="grid gap-3 sm:grid-cols-5 sm:items-end" onSubmit={handleSubmit(onSubmit)}>
+        <Input label="Effective date" type="date" error={errors.date?.message} {...register("date")} />
+        <div className="grid gap-2">
+          <label className="text-sm font-medium text-[color:var(--color-muted)]">From</label>
+          <select className={selectClassName} {...register("base")}>
+            {SUPPORTED_CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <label className="text-sm font-medium text-[color:var(--color-muted)]">To</label>
+          <select className={selectClassName} {...register("quote")}>
+            {SUPPORTED_CURRENCIES.map((code) => (
+              <option key={code} value={code}>
+                {code}
+              </option>
+            ))}
+          </select>
+          {errors.quote ? (
+            <span className="text-xs text-[color:var(--color-danger)]">{errors.quote.message}</span>
+          ) : null}
+        </div>
+        <Input
+          label="Rate"
+          type="number"
+          min="0"
+          step="any"
+          placeholder="1.0850"
+          error={errors.rate?.message}
+          {...register("rate")}
+        />
+        <Button type="submit" className="h-12 rounded-2xl">
+          Save rate
+        </Button>
+      </form>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-sm font-medium text-[color:var(--color-muted)]">
+          Import from file (CSV with date, base, quote, rate columns, or JSON)
+        </label>
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="block w-full rounded-2xl border border-dashed border-[rgba(148,163,184,0.4)] bg-[rgba(148,163,184,0.08)] px-4 py-3 text-sm text-[color:var(--color-muted)] file:mr-4 file:cursor-pointer file:rounded-xl file:border-0 file:bg-[color:var(--color-brand)] file:px-4 file:py-2 file:text-sm file:font-semibold file:text-white"
+          onChange={handleImport}
+        />
+      </div>
+
+      {message ? (
+        <div
+          className={`rounded-2xl border px-4 py-3 text-xs ${
+            message.tone === "error"
+              ? "border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] text-[color:var(--color-danger)]"
+              : "border-[rgba(34,197,94,0.22)] bg-[rgba(34,197,94,0.1)] text-[color:var(--color-accent)]"
+          }`}
+        >
+          {message.text}
+        </div>
+      ) : null}
+
+      {userRates.length === 0 ? (
+        <div className="flex h-24 items-center justify-center rounded-[var(--radius-md)] border border-dashed border-[rgba(148,163,184,0.32)] text-sm text-[color:var(--color-muted)]">
+          No exchange rates yet. Amounts in other currencies stay out of totals until you add one.
+        </div>
+      ) : (
+        <div className="grid gap-2">
+          {userRates.map((rate) => (
+            <div
+              key={rate.id}
+              className="flex items-center justify-between gap-3 rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 text-sm"
+            >
+              <div className="flex flex-col">
+                <span className="font-semibold text-[color:var(--color-foreground)]">
+                  1 {rate.base} = {rate.rate} {rate.quote}
+                </span>
+                <span className="text-xs text-[color:var(--color-muted)]">
+                  From {formatDate(rate.date)}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge tone={rate.source === "import" ? "info" : "neutral"}>{rate.source}</Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+                  onClick={() => removeExchangeRate(rate.id)}
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import Link from "next/link";
+
+type MissingRateNoticeProps = {
+  pairs: string[];
+};
+
+export function MissingRateNotice({ pairs }: MissingRateNoticeProps) {
+  if (pairs.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-[rgba(245,158,11,0.24)] bg-[rgba(245,158,11,0.08)] px-4 py-3 text-xs text-[color:var(--color-warning)]">
+      Some amounts are left out because no exchange rate is available for {pairs.join(", ")}.{" "}
+      <Link href="/profile#exchange-rates" className="font-semibold underline">
+        Add rates
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { useAppStore } from "@/store/use-app-store";
+import { dismissHistoryNotice, useHistoryStore } from "@/store/use-history-store";
+
+const NOTICE_DURATION_MS = 6000;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function UndoToast() {
+  const notice = useHistoryStore((state) => state.notice);
+  const undo = useAppStore((state) => state.undo);
+  const redo = useAppStore((state) => state.redo);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = window.setTimeout(dismissHistoryNotice, NOTICE_DURATION_MS);
+    return () => window.clearTimeout(timeout);
+  }, [notice]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.key.toLowerCase() !== "z") return;
+      if (isEditableTarget(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [redo, undo]);
+
+  return (
+    <AnimatePresence>
+      {notice ? (
+        <motion.div
+          key={`${notice.entry.id}-${notice.undone}`}
+          role="status"
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          transition={{ duration: 0.2 }}
+          className="glass fixed inset-x-4 bottom-28 z-50 mx-auto flex max-w-md items-center justify-between gap-3 rounded-2xl border border-[rgba(148,163,184,0.24)] bg-[color:var(--color-surface)] px-4 py-3 text-sm shadow-lg sm:bottom-32"
+        >
+          <span className="text-[color:var(--color-foreground)]">
+            {notice.undone ? `Undid: ${notice.entry.label}` : notice.entry.label}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs font-semibold text-[color:var(--color-brand)]"
+            onClick={notice.undone ? redo : undo}
+          >
+            {notice.undone ? "Redo" : "Undo"}
+          </Button>
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+}
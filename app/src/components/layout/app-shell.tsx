@@ -4,7 +4,16 @@ import { ReactNode, useEffect } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import { BottomNav } from "@/components/navigation/bottom-nav";
 import { TopAppBar } from "@/components/navigation/top-app-bar";
+import { UndoToast } from "@/components/history/undo-toast";
+import { VerifyEmailBanner } from "@/components/mail/verify-email-banner";
+import { LockScreen } from "@/components/layout/lock-screen";
 import { useAuth } from "@/hooks/use-auth";
+import { useRecurringEngine } from "@/hooks/use-recurring-engine";
+import { useBillingEngine } from "@/hooks/use-billing-engine";
+import { useMailDelivery } from "@/hooks/use-mail-delivery";
+import { useSessionGuard } from "@/hooks/use-session-guard";
+import { useAppStore } from "@/store/use-app-store";
+import { needsEmailVerification } from "@/utils/email-verification";
 
 type AppShellProps = {
   children: ReactNode;
@@ -13,7 +22,14 @@ type AppShellProps = {
 export function AppShell({ children }: AppShellProps) {
   const router = useRouter();
   const pathname = usePathname();
-  const { user } = useAuth();
+  const { user, vault } = useAuth();
+  const session = useAppStore((state) => state.session);
+  const deliverable = useMailDelivery();
+  useSessionGuard(user?.id);
+  // Nothing runs on the user's behalf behind the lock screen.
+  const activeUserId = session?.lockedAt ? undefined : user?.id;
+  useRecurringEngine(activeUserId);
+  useBillingEngine(activeUserId);
   useEffect(() => {
     if (!user) {
       router.replace("/sign-in?next=" + encodeURIComponent(pathname));
@@ -28,10 +44,17 @@ export function AppShell({ children }: AppShellProps) {
     );
   }
 
+  // The page is unmounted while locked, so none of it stays on screen.
+  if (session?.lockedAt) {
+    return <LockScreen user={user} session={session} />;
+  }
+
   return (
     <div className="relative flex min-h-screen flex-col bg-[color:var(--color-background)] pb-[96px] sm:pb-[120px]">
       <TopAppBar />
+      {vault && needsEmailVerification(vault, deliverable) ? <VerifyEmailBanner vault={vault} /> : null}
       <main className="flex-1 px-5 pb-24 pt-6 sm:px-8">{children}</main>
+      <UndoToast />
       <BottomNav />
     </div>
   );
@@ -0,0 +1,104 @@
+'use client';
+
+import { FormEvent, useState, useTransition } from "react";
+import { Lock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type Session, type User, useAppStore } from "@/store/use-app-store";
+import { pinAttemptsLeft } from "@/utils/session";
+
+type LockScreenProps = {
+  user: User;
+  session: Session;
+};
+
+export function LockScreen({ user, session }: LockScreenProps) {
+  const unlockWithPin = useAppStore((state) => state.unlockWithPin);
+  const unlockWithPassword = useAppStore((state) => state.unlockWithPassword);
+  const signOut = useAppStore((state) => state.signOut);
+  const [secret, setSecret] = useState("");
+  const [preferPassword, setPreferPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const canUsePin = Boolean(user.pinHash) && pinAttemptsLeft(session) > 0;
+  const usePin = canUsePin && !preferPassword;
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    startTransition(async () => {
+      try {
+        setError(null);
+        await (usePin ? unlockWithPin(secret) : unlockWithPassword(secret));
+      } catch (cause) {
+        setError(cause instanceof Error ? cause.message : "Unable to unlock.");
+        setSecret("");
+      }
+    });
+  };
+
+  const switchMethod = () => {
+    setPreferPassword(!preferPassword);
+    setSecret("");
+    setError(null);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] px-4 py-10">
+      <div className="glass card-shadow flex w-full max-w-md flex-col gap-8 rounded-[var(--radius-lg)] border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] p-10">
+        <div className="flex flex-col gap-3">
+          <Lock className="size-6 text-[color:var(--color-brand)]" />
+          <h1 className="text-3xl font-semibold text-[color:var(--color-foreground)]">Aurora is locked</h1>
+          <p className="text-sm text-[color:var(--color-muted)]">
+            {usePin
+              ? `Enter your PIN to continue as ${user.email}.`
+              : `Enter your password to continue as ${user.email}.`}
+          </p>
+        </div>
+
+        <form className="flex flex-col gap-5" onSubmit={handleSubmit}>
+          <Input
+            key={usePin ? "pin" : "password"}
+            label={usePin ? "PIN" : "Password"}
+            type="password"
+            inputMode={usePin ? "numeric" : undefined}
+            autoComplete={usePin ? "off" : "current-password"}
+            autoFocus
+            value={secret}
+            onChange={(event) => setSecret(event.target.value)}
+          />
+
+          {error ? (
+            <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+              {error}
+            </div>
+          ) : null}
+
+          <Button type="submit" isLoading={isPending} disabled={!secret}>
+            Unlock
+          </Button>
+        </form>
+
+        <div className="flex items-center justify-between text-sm text-[color:var(--color-muted)]">
+          {canUsePin ? (
+            <button
+              type="button"
+              className="font-medium text-[color:var(--color-brand)] hover:underline"
+              onClick={switchMethod}
+            >
+              {usePin ? "Use password instead" : "Use PIN instead"}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="button"
+            className="font-medium text-[color:var(--color-brand)] hover:underline"
+            onClick={signOut}
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useSyncExternalStore } from "react";
+import { format } from "date-fns";
+import { type SentMail, isOutboxActive, memoryOutbox } from "@/utils/mailer";
+
+const NO_MAIL: SentMail[] = [];
+const noMail = () => NO_MAIL;
+
+/** Shows mail "sent" through the in-memory outbox, so links can be followed without a mail server. Renders nothing outside development and tests. */
+export function OutboxPanel() {
+  const messages = useSyncExternalStore(memoryOutbox.subscribe, memoryOutbox.messages, noMail);
+
+  if (!isOutboxActive()) return null;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-2xl border border-dashed border-[rgba(148,163,184,0.32)] p-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+          Test outbox
+        </span>
+        {messages.length > 0 ? (
+          <button
+            type="button"
+            className="text-xs font-medium text-[color:var(--color-brand)] hover:underline"
+            onClick={() => memoryOutbox.clear()}
+          >
+            Clear
+          </button>
+        ) : null}
+      </div>
+      {messages.length === 0 ? (
+        <p className="text-xs text-[color:var(--color-muted)]">Mail sent from this tab shows up here.</p>
+      ) : (
+        messages.map((message) => (
+          <div key={message.id} className="flex flex-col gap-1 text-xs text-[color:var(--color-muted)]">
+            <span className="font-semibold text-[color:var(--color-foreground)]">{message.subject}</span>
+            <span>
+              To {message.to} · {format(new Date(message.sentAt), "p")}
+            </span>
+            <p>{message.text}</p>
+            {message.link ? (
+              <a href={message.link} className="break-all font-medium text-[color:var(--color-brand)] hover:underline">
+                {message.link}
+              </a>
+            ) : null}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
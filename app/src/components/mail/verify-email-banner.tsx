@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from "react";
+import { MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { OutboxPanel } from "@/components/mail/outbox-panel";
+import { type Vault, useAppStore } from "@/store/use-app-store";
+import { resendCooldown } from "@/utils/email-verification";
+import { isOutboxEnabled } from "@/utils/mailer";
+
+type VerifyEmailBannerProps = {
+  vault: Vault;
+};
+
+export function VerifyEmailBanner({ vault }: VerifyEmailBannerProps) {
+  const resendVerification = useAppStore((state) => state.resendVerification);
+  const [now, setNow] = useState(() => new Date());
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+  const wait = resendCooldown(vault.verification, now);
+
+  // Ticks only while the resend button is counting down.
+  useEffect(() => {
+    if (wait === 0) return;
+    const interval = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(interval);
+  }, [wait]);
+
+  const handleResend = async () => {
+    setIsBusy(true);
+    try {
+      await resendVerification(vault.id, window.location.origin);
+      setMessage({ tone: "success", text: `We sent a new link to ${vault.email}.` });
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Unable to send a new link." });
+    } finally {
+      setNow(new Date());
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mx-5 mt-4 flex flex-col gap-3 rounded-2xl border border-[rgba(245,158,11,0.24)] bg-[rgba(245,158,11,0.08)] px-4 py-3 text-sm text-[color:var(--color-warning)] sm:mx-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="flex items-center gap-2">
+          <MailWarning className="size-4 shrink-0" />
+          {vault.verification?.sentAt
+            ? `Confirm ${vault.email} using the link we emailed you. Premium and email insights unlock once it's verified.`
+            : `Verify ${vault.email} to unlock Premium and email insights.`}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-9 rounded-2xl px-3 text-xs"
+          disabled={isBusy || wait > 0}
+          onClick={handleResend}
+        >
+          {wait > 0 ? `Resend in ${wait}s` : vault.verification?.sentAt ? "Resend link" : "Send link"}
+        </Button>
+      </div>
+      {message ? (
+        <p
+          className={`text-xs ${
+            message.tone === "success" ? "text-[color:var(--color-accent)]" : "text-[color:var(--color-danger)]"
+          }`}
+        >
+          {message.text}
+        </p>
+      ) : null}
+      {isOutboxEnabled ? <OutboxPanel /> : null}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import {
   LayoutDashboard,
+  Landmark,
   Wallet2,
   PieChart,
   UserRound,
@@ -23,6 +24,11 @@ const NAVIGATION_ITEMS = [
     href: "/transactions",
     icon: Wallet2,
   },
+  {
+    label: "Accounts",
+    href: "/accounts",
+    icon: Landmark,
+  },
   {
     label: "Budgeting",
     href: "/budgeting",
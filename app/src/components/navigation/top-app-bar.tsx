@@ -7,6 +7,7 @@ import { useAppStore } from "@/store/use-app-store";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useHapticFeedback } from "@/hooks/use-haptic-feedback";
+import { isPremium } from "@/utils/entitlements";
 
 export function TopAppBar() {
   const { user, signOut } = useAuth();
@@ -49,8 +50,8 @@ export function TopAppBar() {
           <span className="text-lg font-semibold text-[color:var(--color-foreground)]">
             {user.name}
           </span>
-          <Badge tone={user.subscription.tier === "premium" ? "success" : "neutral"}>
-            {user.subscription.tier === "premium" ? "Premium Member" : "Free Plan"}
+          <Badge tone={isPremium(user) ? "success" : "neutral"}>
+            {isPremium(user) ? "Premium Member" : "Free Plan"}
           </Badge>
         </div>
       </div>
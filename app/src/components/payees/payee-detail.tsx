@@ -0,0 +1,266 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type Payee, type Transaction, useAppStore } from "@/store/use-app-store";
+import { formatDate } from "@/utils/format";
+import { formatMoney, fromMinorUnits, sumMinor } from "@/utils/money";
+import { type PayeeMonth, payeeHistory } from "@/utils/payees";
+
+type PayeeDetailProps = {
+  payee: Payee;
+  /** The owner's payees, as merge targets. */
+  payees: Payee[];
+  /** Already converted into `currency`. */
+  transactions: Transaction[];
+  currency: string;
+  categoryChoices: { value: string; label: string }[];
+  onError: (message: string | null) => void;
+  onRemoved: () => void;
+};
+
+type MonthTooltipProps = {
+  active?: boolean;
+  payload?: readonly { payload?: PayeeMonth }[];
+};
+
+const selectClassName =
+  "h-10 w-full rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-3 text-xs text-[color:var(--color-foreground)] focus:border-[color:var(--color-brand)] focus:outline-none focus:ring-2 focus:ring-[rgba(37,99,235,0.18)]";
+
+export function PayeeDetail({
+  payee,
+  payees,
+  transactions,
+  currency,
+  categoryChoices,
+  onError,
+  onRemoved,
+}: PayeeDetailProps) {
+  const updatePayee = useAppStore((state) => state.updatePayee);
+  const addPayeeAlias = useAppStore((state) => state.addPayeeAlias);
+  const removePayeeAlias = useAppStore((state) => state.removePayeeAlias);
+  const mergePayee = useAppStore((state) => state.mergePayee);
+  const removePayee = useAppStore((state) => state.removePayee);
+  const [name, setName] = useState(payee.name);
+  const [alias, setAlias] = useState("");
+  const [mergeTarget, setMergeTarget] = useState("");
+
+  const own = useMemo(
+    () =>
+      transactions
+        .filter((transaction) => transaction.payeeId === payee.id)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    [payee.id, transactions],
+  );
+  const history = useMemo(
+    () =>
+      payeeHistory(transactions, payee.id).map((month) => ({
+        ...month,
+        amount: fromMinorUnits(month.spent, currency),
+      })),
+    [currency, payee.id, transactions],
+  );
+  const totalSpent = sumMinor(own.filter((transaction) => transaction.type === "expense").map((t) => t.amount));
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      onError(null);
+      return true;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : "Unable to update payee.");
+      return false;
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">{payee.name}</h3>
+        <span className="text-xs text-[color:var(--color-muted)]">
+          {own.length === 1 ? "1 transaction" : `${own.length} transactions`} · {formatMoney(totalSpent, currency)}{" "}
+          spent in total
+        </span>
+      </div>
+
+      <div className="h-56 w-full">
+        <ResponsiveContainer>
+          <BarChart data={history} margin={{ top: 10, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="rgba(148,163,184,0.18)" />
+            <XAxis dataKey="label" stroke="rgba(148,163,184,0.7)" tickLine={false} />
+            <YAxis stroke="rgba(148,163,184,0.7)" tickLine={false} allowDecimals={false} />
+            <Tooltip
+              content={({ active, payload }: MonthTooltipProps) => {
+                const datum = active ? payload?.[0]?.payload : undefined;
+                if (!datum) return null;
+                return (
+                  <div className="rounded-xl border border-[rgba(148,163,184,0.16)] bg-[color:var(--color-surface)] px-4 py-3 text-xs shadow-lg">
+                    <div className="font-semibold text-[color:var(--color-foreground)]">{datum.label}</div>
+                    <div className="mt-1 text-[color:var(--color-muted)]">
+                      {formatMoney(datum.spent, currency)} spent
+                      {datum.received > 0 ? ` · ${formatMoney(datum.received, currency)} received` : ""}
+                    </div>
+                  </div>
+                );
+              }}
+            />
+            <Bar dataKey="amount" radius={[12, 12, 6, 6]} fill="rgba(37,99,235,0.75)" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">Name</label>
+          <div className="flex gap-2">
+            <Input aria-label="Payee name" className="h-10" value={name} onChange={(event) => setName(event.target.value)} />
+            <Button
+              size="sm"
+              className="h-10 rounded-2xl px-3 text-xs"
+              disabled={name.trim() === payee.name}
+              onClick={() => run(() => updatePayee(payee.id, { name }))}
+            >
+              Rename
+            </Button>
+          </div>
+        </div>
+        <div className="grid gap-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+            Default category
+          </label>
+          <select
+            aria-label="Default category"
+            className={selectClassName}
+            value={payee.defaultCategory ?? ""}
+            onChange={(event) => run(() => updatePayee(payee.id, { defaultCategory: event.target.value }))}
+          >
+            <option value="">None</option>
+            {categoryChoices.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">Aliases</span>
+        <p className="text-xs text-[color:var(--color-muted)]">
+          Other spellings, such as how your bank writes the name, that should count as {payee.name}.
+        </p>
+        {payee.aliases.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {payee.aliases.map((existing) => (
+              <span
+                key={existing}
+                className="inline-flex items-center gap-1 rounded-full bg-[rgba(148,163,184,0.16)] px-3 py-1 text-xs font-semibold text-[color:var(--color-foreground)]"
+              >
+                {existing}
+                <button
+                  type="button"
+                  aria-label={`Remove alias ${existing}`}
+                  className="rounded-full hover:text-[color:var(--color-danger)]"
+                  onClick={() => run(() => removePayeeAlias(payee.id, existing))}
+                >
+                  <X className="size-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : null}
+        <div className="flex gap-2">
+          <Input
+            aria-label="New alias"
+            className="h-10"
+            placeholder="e.g. GREEN BOWL #0412"
+            value={alias}
+            onChange={(event) => setAlias(event.target.value)}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={!alias.trim()}
+            onClick={() => {
+              if (run(() => addPayeeAlias(payee.id, alias))) setAlias("");
+            }}
+          >
+            Add alias
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+          Recent transactions
+        </span>
+        {own.length === 0 ? (
+          <p className="text-xs text-[color:var(--color-muted)]">No transactions with this payee yet.</p>
+        ) : (
+          <ul className="grid gap-1 text-sm">
+            {own.slice(0, 8).map((transaction) => (
+              <li key={transaction.id} className="flex items-center justify-between gap-3">
+                <span className="text-[color:var(--color-muted)]">
+                  {formatDate(transaction.date)} · {transaction.category}
+                </span>
+                <span className="font-semibold text-[color:var(--color-foreground)]">
+                  {transaction.type === "expense" ? "-" : ""}
+                  {formatMoney(transaction.amount, currency)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 border-t border-[rgba(148,163,184,0.18)] pt-4 sm:flex-row sm:items-center">
+        <select
+          aria-label="Merge into"
+          className={selectClassName}
+          value={mergeTarget}
+          onChange={(event) => setMergeTarget(event.target.value)}
+        >
+          <option value="" disabled>
+            Merge into…
+          </option>
+          {payees
+            .filter((candidate) => candidate.id !== payee.id)
+            .map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.name}
+              </option>
+            ))}
+        </select>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={!mergeTarget}
+            onClick={() => {
+              const target = payees.find((candidate) => candidate.id === mergeTarget);
+              if (!target || !window.confirm(`Move every ${payee.name} transaction to ${target.name}?`)) return;
+              if (run(() => mergePayee(payee.id, target.id))) onRemoved();
+            }}
+          >
+            Merge
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+            onClick={() => {
+              if (run(() => removePayee(payee.id))) onRemoved();
+            }}
+          >
+            Delete
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
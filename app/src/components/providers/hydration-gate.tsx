@@ -1,25 +1,40 @@
 'use client';
 
 import { ReactNode, useEffect, useState } from 'react';
+import { StorageRecovery } from '@/components/providers/storage-recovery';
+import { useHydrationStore } from '@/store/use-hydration-store';
+import { startStoreSync } from '@/store/sync';
+import { installMailer } from '@/utils/mailer';
 
 type HydrationGateProps = {
   children: ReactNode;
 };
 
 export function HydrationGate({ children }: HydrationGateProps) {
-  const [isHydrated, setIsHydrated] = useState(false);
+  const [isMounted, setIsMounted] = useState(false);
+  const status = useHydrationStore((state) => state.status);
+  const error = useHydrationStore((state) => state.error);
+  const backupKey = useHydrationStore((state) => state.backupKey);
 
   useEffect(() => {
     if (typeof window === 'undefined') {
       return;
     }
     const timeout = window.setTimeout(() => {
-      setIsHydrated(true);
+      setIsMounted(true);
     }, 0);
     return () => window.clearTimeout(timeout);
   }, []);
 
-  if (!isHydrated) {
+  useEffect(() => startStoreSync(), []);
+
+  useEffect(() => installMailer(), []);
+
+  if (isMounted && status === 'failed') {
+    return <StorageRecovery error={error} backupKey={backupKey} />;
+  }
+
+  if (!isMounted || status !== 'ready') {
     return (
       <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] text-[color:var(--color-muted)]">
         <div className="animate-pulse text-sm font-medium tracking-wide">Preparing your finances…</div>
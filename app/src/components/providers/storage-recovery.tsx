@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useAppStore } from "@/store/use-app-store";
+import { clearPersistedState, readBackup } from "@/store/storage";
+
+type StorageRecoveryProps = {
+  error?: string;
+  backupKey?: string;
+};
+
+export function StorageRecovery({ error, backupKey }: StorageRecoveryProps) {
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    if (!backupKey) return;
+    const backup = await readBackup(backupKey);
+    if (!backup) {
+      setMessage("The backup could not be found in this browser.");
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([backup], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${backupKey.replace(/[^a-z0-9-]/gi, "-")}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRetry = () => {
+    setMessage(null);
+    void useAppStore.persist.rehydrate();
+  };
+
+  const handleReset = async () => {
+    const confirmed = window.confirm(
+      "Start fresh? Your saved data will be cleared from this browser. The backup stays available for download.",
+    );
+    if (!confirmed) return;
+    await clearPersistedState();
+    void useAppStore.persist.rehydrate();
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-[color:var(--color-background)] px-4 py-10">
+      <div className="glass card-shadow flex w-full max-w-lg flex-col gap-6 rounded-[var(--radius-lg)] border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] p-10">
+        <div className="flex flex-col gap-3">
+          <span className="text-sm font-semibold uppercase tracking-[0.4em] text-[color:var(--color-danger)]">
+            Data upgrade failed
+          </span>
+          <h1 className="text-2xl font-semibold text-[color:var(--color-foreground)]">
+            We couldn&apos;t open your saved finances
+          </h1>
+          <p className="text-sm text-[color:var(--color-muted)]">
+            Your data was left untouched. {backupKey ? "A copy was saved before the upgrade started." : null}
+          </p>
+        </div>
+
+        {error ? (
+          <div className="rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-sm text-[color:var(--color-danger)]">
+            {error}
+          </div>
+        ) : null}
+
+        {message ? (
+          <div className="rounded-2xl bg-[rgba(37,99,235,0.08)] px-4 py-3 text-sm text-[color:var(--color-brand-strong)]">
+            {message}
+          </div>
+        ) : null}
+
+        <div className="grid gap-3">
+          {backupKey ? (
+            <Button variant="outline" onClick={handleDownload}>
+              Download backup
+            </Button>
+          ) : null}
+          <Button onClick={handleRetry}>Try again</Button>
+          <Button variant="ghost" className="text-[color:var(--color-danger)]" onClick={handleReset}>
+            Start fresh
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+'use client';
+
+import { useReceiptUrl } from "@/hooks/use-receipt-url";
+
+type ReceiptLinkProps = {
+  receiptId: string;
+};
+
+export function ReceiptLink({ receiptId }: ReceiptLinkProps) {
+  const href = useReceiptUrl(receiptId);
+
+  if (!href) return null;
+
+  return (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="rounded-2xl border border-[rgba(148,163,184,0.28)] px-3 py-2 text-xs font-semibold text-[color:var(--color-brand)]"
+    >
+      View receipt
+    </a>
+  );
+}
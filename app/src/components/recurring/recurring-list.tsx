@@ -0,0 +1,68 @@
+'use client';
+
+import { useMemo } from "react";
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAppStore } from "@/store/use-app-store";
+import { describeRule } from "@/utils/recurrence";
+import { formatDate } from "@/utils/format";
+import { formatMoney } from "@/utils/money";
+
+type RecurringListProps = {
+  userId: string;
+};
+
+export function RecurringList({ userId }: RecurringListProps) {
+  const recurring = useAppStore((state) => state.recurring);
+  const removeRecurring = useAppStore((state) => state.removeRecurring);
+
+  const templates = useMemo(
+    () =>
+      recurring
+        .filter((template) => template.userId === userId)
+        .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+    [recurring, userId],
+  );
+
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-[var(--radius-lg)] bg-[color:var(--color-surface)] p-6 shadow-sm shadow-black/5">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Recurring</h3>
+          <p className="text-sm text-[color:var(--color-muted)]">
+            These are added to your activity automatically when they fall due.
+          </p>
+        </div>
+        <Repeat className="size-5 text-[color:var(--color-brand)]" />
+      </div>
+      <div className="grid gap-2">
+        {templates.map((template) => (
+          <div
+            key={template.id}
+            className="flex items-center justify-between gap-3 rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 text-sm"
+          >
+            <div className="flex flex-col">
+              <span className="font-semibold text-[color:var(--color-foreground)]">
+                {template.category} · {template.type === "expense" ? "-" : ""}
+                {formatMoney(template.amount, template.currency)}
+              </span>
+              <span className="text-xs text-[color:var(--color-muted)]">
+                {describeRule(template.rule)} · from {formatDate(template.startDate)}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+              onClick={() => removeRecurring(template.id)}
+            >
+              Stop
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useMemo, useState } from "react";
+import { CalendarClock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useAppStore } from "@/store/use-app-store";
+import { todayKey, upcomingOccurrences } from "@/utils/recurrence";
+import { formatDate } from "@/utils/format";
+import { formatMinorForInput, formatMoney, inputStep, toMinorUnits } from "@/utils/money";
+
+type UpcomingOccurrencesProps = {
+  userId: string;
+};
+
+const occurrenceKey = (templateId: string, date: string) => `${templateId}:${date}`;
+
+export function UpcomingOccurrences({ userId }: UpcomingOccurrencesProps) {
+  const recurring = useAppStore((state) => state.recurring);
+  const skipOccurrence = useAppStore((state) => state.skipOccurrence);
+  const editOccurrence = useAppStore((state) => state.editOccurrence);
+  const resetOccurrence = useAppStore((state) => state.resetOccurrence);
+  const [editing, setEditing] = useState<{ key: string; amount: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const occurrences = useMemo(
+    () =>
+      upcomingOccurrences(
+        recurring.filter((template) => template.userId === userId),
+        todayKey(),
+      ).slice(0, 8),
+    [recurring, userId],
+  );
+
+  if (occurrences.length === 0) return null;
+
+  const saveEdit = (templateId: string, date: string, currency: string) => {
+    if (!editing) return;
+    try {
+      editOccurrence(templateId, date, { amount: toMinorUnits(editing.amount, currency) });
+      setEditing(null);
+      setError(null);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Unable to update this occurrence.");
+    }
+  };
+
+  return (
+    <Card className="rounded-[var(--radius-lg)]">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Upcoming</h3>
+          <p className="text-sm text-[color:var(--color-muted)]">
+            Scheduled transactions for the next 30 days. Adjust or skip one without changing the rest.
+          </p>
+        </div>
+        <CalendarClock className="size-5 text-[color:var(--color-brand)]" />
+      </div>
+
+      {error ? (
+        <div className="mt-4 rounded-2xl border border-[rgba(239,68,68,0.24)] bg-[rgba(239,68,68,0.08)] px-4 py-3 text-xs text-[color:var(--color-danger)]">
+          {error}
+        </div>
+      ) : null}
+
+      <div className="mt-4 grid gap-2">
+        {occurrences.map(({ template, date, amount, skipped }) => {
+          const key = occurrenceKey(template.id, date);
+          const isEditing = editing?.key === key;
+          const hasException = Boolean(template.exceptions?.[date]);
+          return (
+            <div
+              key={key}
+              className="flex flex-col gap-3 rounded-2xl border border-[rgba(148,163,184,0.18)] bg-[color:var(--color-surface-muted)] px-4 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="flex flex-col">
+                <span
+                  className={`font-semibold text-[color:var(--color-foreground)] ${skipped ? "line-through opacity-60" : ""}`}
+                >
+                  {template.category} · {template.type === "expense" ? "-" : ""}
+                  {formatMoney(amount, template.currency)}
+                </span>
+                <span className="text-xs text-[color:var(--color-muted)]">{formatDate(date)}</span>
+              </div>
+              {isEditing ? (
+                <div className="flex items-center gap-2">
+                  <Input
+                    aria-label="Amount for this occurrence"
+                    type="number"
+                    min="0"
+                    step={inputStep(template.currency)}
+                    className="w-32"
+                    value={editing.amount}
+                    onChange={(event) => setEditing({ key, amount: event.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => saveEdit(template.id, date, template.currency)}
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-10 rounded-2xl px-3 text-xs"
+                    onClick={() => setEditing(null)}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  {skipped ? (
+                    <Badge tone="warning">Skipped</Badge>
+                  ) : hasException ? (
+                    <Badge tone="info">Edited</Badge>
+                  ) : null}
+                  {hasException ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-10 rounded-2xl px-3 text-xs"
+                      onClick={() => resetOccurrence(template.id, date)}
+                    >
+                      Restore
+                    </Button>
+                  ) : null}
+                  {skipped ? null : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-10 rounded-2xl px-3 text-xs"
+                        onClick={() =>
+                          setEditing({ key, amount: formatMinorForInput(amount, template.currency) })
+                        }
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-10 rounded-2xl border border-[rgba(239,68,68,0.2)] px-3 text-xs text-[color:var(--color-danger)]"
+                        onClick={() => skipOccurrence(template.id, date)}
+                      >
+                        Skip
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
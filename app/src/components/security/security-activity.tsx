@@ -0,0 +1,53 @@
+'use client';
+
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { type SecurityEventType, useAppStore } from "@/store/use-app-store";
+
+const RECENT_LIMIT = 10;
+
+const eventLabels: Record<SecurityEventType, { label: string; tone: "success" | "info" | "warning" | "danger" | "neutral" }> = {
+  sign_in: { label: "Signed in", tone: "success" },
+  sign_in_failed: { label: "Wrong password", tone: "warning" },
+  two_factor_failed: { label: "Wrong sign-in code", tone: "warning" },
+  lockout: { label: "Sign-in locked", tone: "danger" },
+  password_reset: { label: "Password reset", tone: "info" },
+  two_factor_enabled: { label: "Two-factor turned on", tone: "success" },
+  two_factor_disabled: { label: "Two-factor turned off", tone: "warning" },
+  recovery_code_used: { label: "Recovery code used", tone: "info" },
+};
+
+type SecurityActivityProps = {
+  userId: string;
+};
+
+export function SecurityActivity({ userId }: SecurityActivityProps) {
+  const securityEvents = useAppStore((state) => state.securityEvents);
+  const events = useMemo(
+    () => securityEvents.filter((event) => event.userId === userId).slice(0, RECENT_LIMIT),
+    [securityEvents, userId],
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-semibold uppercase tracking-wide text-[color:var(--color-muted)]">
+        Recent activity
+      </span>
+      {events.length === 0 ? (
+        <p className="text-xs text-[color:var(--color-muted)]">No sign-in activity yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {events.map((event) => (
+            <li key={event.id} className="flex items-center justify-between gap-3 text-sm">
+              <Badge tone={eventLabels[event.type].tone}>{eventLabels[event.type].label}</Badge>
+              <span className="text-xs text-[color:var(--color-muted)]">
+                {format(new Date(event.createdAt), "PPp")}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
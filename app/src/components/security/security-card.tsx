@@ -0,0 +1,107 @@
+'use client';
+
+import { FormEvent, useState } from "react";
+import { format } from "date-fns";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { SecurityActivity } from "@/components/security/security-activity";
+import { TwoFactorSettings } from "@/components/security/two-factor-settings";
+import { type User, useAppStore } from "@/store/use-app-store";
+import { IDLE_LOCK_MINUTES, MAX_PIN_ATTEMPTS } from "@/utils/session";
+
+type SecurityCardProps = {
+  user: User;
+};
+
+export function SecurityCard({ user }: SecurityCardProps) {
+  const session = useAppStore((state) => state.session);
+  const setUnlockPin = useAppStore((state) => state.setUnlockPin);
+  const lockApp = useAppStore((state) => state.lockApp);
+  const [pin, setPin] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ tone: "success" | "error"; text: string } | null>(null);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      setMessage({ tone: "success", text: success });
+      setPin("");
+    } catch (error) {
+      setMessage({ tone: "error", text: error instanceof Error ? error.message : "Something went wrong." });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSavePin = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void run(() => setUnlockPin(user.id, pin), user.pinHash ? "PIN changed." : "PIN set. Use it to unlock quickly.");
+  };
+
+  return (
+    <Card className="flex flex-col gap-4 rounded-[var(--radius-lg)]">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-[color:var(--color-foreground)]">Security</h3>
+          <p className="text-sm text-[color:var(--color-muted)]">
+            Aurora locks after {IDLE_LOCK_MINUTES} minutes without activity.
+            {session ? ` This session ends ${format(new Date(session.expiresAt), "PPp")}.` : null}
+          </p>
+        </div>
+        <KeyRound className="size-5 text-[color:var(--color-brand)]" />
+      </div>
+
+      <form className="flex flex-col gap-3 sm:flex-row sm:items-end" onSubmit={handleSavePin}>
+        <Input
+          label={user.pinHash ? "New unlock PIN" : "Unlock PIN"}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          placeholder="4 to 6 digits"
+          value={pin}
+          onChange={(event) => setPin(event.target.value)}
+        />
+        <Button type="submit" variant="secondary" className="h-12 rounded-2xl" disabled={isBusy || !pin}>
+          {user.pinHash ? "Change PIN" : "Set PIN"}
+        </Button>
+      </form>
+      <p className="text-xs text-[color:var(--color-muted)]">
+        After {MAX_PIN_ATTEMPTS} wrong PINs the lock screen asks for your password.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        {user.pinHash ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={isBusy}
+            onClick={() => run(() => setUnlockPin(user.id), "PIN removed. Unlock with your password.")}
+          >
+            Remove PIN
+          </Button>
+        ) : null}
+        <Button variant="ghost" size="sm" className="h-10 rounded-2xl px-3 text-xs" onClick={lockApp}>
+          Lock now
+        </Button>
+      </div>
+
+      {message ? (
+        <p
+          className={`text-xs ${
+            message.tone === "success" ? "text-[color:var(--color-accent)]" : "text-[color:var(--color-danger)]"
+          }`}
+        >
+          {message.text}
+        </p>
+      ) : null}
+
+      <TwoFactorSettings user={user} />
+
+      <SecurityActivity userId={user.id} />
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { FormEvent, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { type User, useAppStore } from "@/store/use-app-store";
+import { generateTotpSecret, otpauthUri } from "@/utils/totp";
+
+const ISSUER = "Aurora Finance";
+
+type TwoFactorSettingsProps = {
+  user: User;
+};
+
+export function TwoFactorSettings({ user }: TwoFactorSettingsProps) {
+  const enableTwoFactor = useAppStore((state) => state.enableTwoFactor);
+  const disableTwoFactor = useAppStore((state) => state.disableTwoFactor);
+  const regenerateRecoveryCodes = useAppStore((state) => state.regenerateRecoveryCodes);
+  // The secret being enrolled; it only reaches the store once a code proves the app has it.
+  const [secret, setSecret] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+      setCode("");
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "Something went wrong.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEnable = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!secret) return;
+    void run(async () => {
+      setRecoveryCodes(await enableTwoFactor(user.id, { secret, code }));
+      setSecret(null);
+    });
+  };
+
+  const codeInput = (
+    <Input
+      label="Code from your authenticator app"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="123456"
+      value={code}
+      onChange={(event) => setCode(event.target.value)}
+    />
+  );
+
+  const errorBox = error ? <p className="text-xs text-[color:var(--color-danger)]">{error}</p> : null;
+
+  if (recoveryCodes) {
+    return (
+      <div className="flex flex-col gap-3 rounded-2xl border border-[rgba(148,163,184,0.24)] p-4">
+        <span className="text-sm font-semibold text-[color:var(--color-foreground)]">Save your recovery codes</span>
+        <p className="text-xs text-[color:var(--color-muted)]">
+          Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-[color:var(--color-foreground)]">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <Button variant="secondary" className="h-10 rounded-2xl" onClick={() => setRecoveryCodes(null)}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    );
+  }
+
+  if (user.twoFactor) {
+    const remaining = user.twoFactor.recoveryCodeHashes.length;
+    return (
+      <div className="flex flex-col gap-3 rounded-2xl border border-[rgba(148,163,184,0.24)] p-4">
+        <span className="text-sm font-semibold text-[color:var(--color-foreground)]">Two-factor sign-in is on</span>
+        <p className="text-xs text-[color:var(--color-muted)]">
+          Since {format(new Date(user.twoFactor.enabledAt), "PP")}. {remaining} of your recovery codes{" "}
+          {remaining === 1 ? "is" : "are"} left. Enter a current code or a recovery code to make changes.
+        </p>
+        {codeInput}
+        {errorBox}
+        <div className="flex flex-wrap gap-3">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={isBusy || !code.trim()}
+            onClick={() => run(async () => setRecoveryCodes(await regenerateRecoveryCodes(user.id, code)))}
+          >
+            New recovery codes
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            disabled={isBusy || !code.trim()}
+            onClick={() => run(() => disableTwoFactor(user.id, code))}
+          >
+            Turn off
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (secret) {
+    const uri = otpauthUri({ secret, account: user.email, issuer: ISSUER });
+    return (
+      <form
+        className="flex flex-col gap-3 rounded-2xl border border-[rgba(148,163,184,0.24)] p-4"
+        onSubmit={handleEnable}
+      >
+        <span className="text-sm font-semibold text-[color:var(--color-foreground)]">Set up your authenticator</span>
+        <p className="text-xs text-[color:var(--color-muted)]">
+          Open this link on the device with your authenticator app, or add an account by hand with the key below.
+        </p>
+        <a href={uri} className="break-all text-xs font-medium text-[color:var(--color-brand)] hover:underline">
+          {uri}
+        </a>
+        <code className="rounded-xl bg-[color:var(--color-surface-muted)] px-3 py-2 font-mono text-sm tracking-wider text-[color:var(--color-foreground)]">
+          {secret.match(/.{1,4}/g)?.join(" ")}
+        </code>
+        {codeInput}
+        {errorBox}
+        <div className="flex flex-wrap gap-3">
+          <Button type="submit" variant="secondary" className="h-10 rounded-2xl" disabled={isBusy || !code.trim()}>
+            Verify and turn on
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-10 rounded-2xl px-3 text-xs"
+            onClick={() => {
+              setSecret(null);
+              setError(null);
+            }}
+          >
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-[rgba(148,163,184,0.24)] p-4">
+      <div className="flex flex-col gap-1">
+        <span className="text-sm font-semibold text-[color:var(--color-foreground)]">Two-factor sign-in</span>
+        <span className="text-xs text-[color:var(--color-muted)]">
+          Ask for a code from an authenticator app after your password.
+        </span>
+      </div>
+      <Button
+        variant="secondary"
+        size="sm"
+        className="h-10 rounded-2xl px-3 text-xs"
+        onClick={() => setSecret(generateTotpSecret())}
+      >
+        Turn on
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useId, useState } from "react";
+import { X } from "lucide-react";
+import { normalizeTag } from "@/utils/tags";
+
+type TagInputProps = {
+  label?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Previously used tags, most relevant first. */
+  suggestions: string[];
+};
+
+const MAX_SUGGESTIONS = 6;
+
+export function TagInput({ label = "Tags", value, onChange, suggestions }: TagInputProps) {
+  const inputId = useId();
+  const [draft, setDraft] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  const query = normalizeTag(draft);
+  const matches = suggestions
+    .filter((tag) => !value.includes(tag) && (query === "" || tag.includes(query)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const commit = (raw: string) => {
+    const tags = raw.split(",").map(normalizeTag).filter((tag) => tag && !value.includes(tag));
+    if (tags.length > 0) onChange([...value, ...new Set(tags)]);
+    setDraft("");
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((event.key === "Enter" || event.key === ",") && draft.trim()) {
+      event.preventDefault();
+      commit(draft);
+    } else if (event.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative grid gap-2">
+      <label htmlFor={inputId} className="text-sm font-medium text-[color:var(--color-muted)]">
+        {label}
+      </label>
+      <div className="flex min-h-12 flex-wrap items-center gap-2 rounded-2xl border border-[color:var(--border-color-base)] bg-[color:var(--color-surface)] px-3 py-2 focus-within:border-[color:var(--color-brand)] focus-within:ring-2 focus-within:ring-[rgba(37,99,235,0.18)]">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 rounded-full bg-[rgba(37,99,235,0.12)] px-3 py-1 text-xs font-semibold text-[color:var(--color-brand-strong)]"
+          >
+            #{tag}
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+              className="rounded-full hover:text-[color:var(--color-danger)]"
+              onClick={() => onChange(value.filter((candidate) => candidate !== tag))}
+            >
+              <X className="size-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={inputId}
+          role="combobox"
+          aria-controls={`${inputId}-suggestions`}
+          aria-expanded={isFocused && matches.length > 0}
+          aria-autocomplete="list"
+          className="h-8 min-w-[8rem] flex-1 bg-transparent text-sm text-[color:var(--color-foreground)] placeholder:text-[color:var(--color-muted)] focus:outline-none"
+          placeholder={value.length === 0 ? "e.g. vacation-2026, reimbursable" : ""}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (draft.trim()) commit(draft);
+          }}
+        />
+      </div>
+      {isFocused && matches.length > 0 ? (
+        <ul
+          id={`${inputId}-suggestions`}
+          role="listbox"
+          className="absolute inset-x-0 top-full z-10 mt-1 grid gap-1 rounded-2xl border border-[rgba(148,163,184,0.24)] bg-[color:var(--color-surface)] p-2 shadow-lg"
+        >
+          {matches.map((tag) => (
+            <li key={tag} role="option" aria-selected={false}>
+              <button
+                type="button"
+                className="w-full rounded-xl px-3 py-2 text-left text-sm text-[color:var(--color-foreground)] hover:bg-[rgba(37,99,235,0.08)]"
+                // Keep focus in the input so the list stays open for the next pick.
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => commit(tag)}
+              >
+                #{tag}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
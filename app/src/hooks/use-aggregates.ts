@@ -0,0 +1,86 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAppStore, type Budget, type ExchangeRate, type Transaction } from '@/store/use-app-store';
+import { useAuth } from '@/hooks/use-auth';
+import { useCurrencyConversion } from '@/hooks/use-currency-conversion';
+import {
+  ALL_TIME,
+  type AggregateIndex,
+  type AggregateScope,
+  type PeriodTotals,
+  createAggregateIndex,
+} from '@/utils/aggregates';
+
+const MAX_INDEXES = 8;
+
+// Shared across pages so moving between the dashboard and budgets reuses the
+// totals instead of rebuilding them. New rates or a new display currency
+// change every converted amount, so those start a fresh index.
+const indexes = new Map<string, { rates: ExchangeRate[]; index: AggregateIndex }>();
+
+function indexFor(scope: AggregateScope) {
+  const key = `${scope.userId}|${scope.accountId}|${scope.currency}`;
+  const cached = indexes.get(key);
+  if (cached?.rates === scope.rates) return cached.index;
+
+  const index = createAggregateIndex(scope);
+  indexes.delete(key);
+  indexes.set(key, { rates: scope.rates, index });
+  if (indexes.size > MAX_INDEXES) {
+    indexes.delete(indexes.keys().next().value!);
+  }
+  return index;
+}
+
+export type TransactionAggregates = {
+  currency: string;
+  totals: (period: string) => PeriodTotals;
+  transactions: (period: string) => Transaction[];
+  missingPairs: string[];
+};
+
+/** The signed-in user's totals by `periodKey`, optionally narrowed to one account. */
+export function useTransactionAggregates(accountId = 'all'): TransactionAggregates {
+  const { user } = useAuth();
+  const transactions = useAppStore((state) => state.transactions);
+  const exchangeRates = useAppStore((state) => state.exchangeRates);
+  const userId = user?.id ?? '';
+  const currency = user?.settings.currency ?? 'USD';
+
+  return useMemo(() => {
+    const index = indexFor({ userId, accountId, currency, rates: exchangeRates });
+    index.update(transactions);
+    return {
+      currency,
+      totals: index.totals,
+      transactions: index.transactions,
+      missingPairs: index.missingPairs(),
+    };
+  }, [accountId, currency, exchangeRates, transactions, userId]);
+}
+
+const NO_TRANSACTIONS: Transaction[] = [];
+
+export type BudgetSpending = Budget & { spent: number };
+
+/**
+ * Budgets converted into the display currency with what was spent in their
+ * category during `period`. Budgets without a usable rate are left out of
+ * `budgets`; `spentIn` still answers for their category.
+ */
+export function useBudgetSpending(budgets: Budget[], period = ALL_TIME, accountId = 'all') {
+  const aggregates = useTransactionAggregates(accountId);
+  const conversion = useCurrencyConversion(NO_TRANSACTIONS, budgets);
+
+  return useMemo(() => {
+    const { categories } = aggregates.totals(period);
+    const spentIn = (category: string) => categories.get(category) ?? 0;
+    return {
+      currency: aggregates.currency,
+      budgets: conversion.budgets.map((budget): BudgetSpending => ({ ...budget, spent: spentIn(budget.category) })),
+      spentIn,
+      missingPairs: Array.from(new Set([...aggregates.missingPairs, ...conversion.missingPairs])),
+    };
+  }, [aggregates, conversion, period]);
+}
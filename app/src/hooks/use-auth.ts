@@ -6,6 +6,7 @@ import { useAppStore, type User } from '@/store/use-app-store';
 export function useAuth() {
   const currentUserId = useAppStore((state) => state.currentUserId);
   const users = useAppStore((state) => state.users);
+  const vaults = useAppStore((state) => state.vaults);
   const signOut = useAppStore((state) => state.signOut);
 
   const user: User | undefined = useMemo(
@@ -13,5 +14,8 @@ export function useAuth() {
     [users, currentUserId],
   );
 
-  return { user, signOut };
+  // The public account entry, which carries the email verification state.
+  const vault = useMemo(() => vaults.find((candidate) => candidate.id === currentUserId), [vaults, currentUserId]);
+
+  return { user, vault, signOut };
 }
@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAppStore } from '@/store/use-app-store';
+
+// Settles due renewals, retries and expiries when the app opens and whenever
+// the tab becomes visible again. Billing failures surface as invoices and
+// subscription status, so errors here are not reported twice.
+export function useBillingEngine(userId?: string) {
+  const processBilling = useAppStore((state) => state.processBilling);
+
+  useEffect(() => {
+    if (!userId) return;
+    const run = () => void processBilling(userId).catch(() => undefined);
+    run();
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') run();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [processBilling, userId]);
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAppStore, type Budget, type Transaction } from '@/store/use-app-store';
+import { useAuth } from '@/hooks/use-auth';
+import { createCurrencyConverter } from '@/utils/exchange-rates';
+
+export function useCurrencyConversion(transactions: Transaction[], budgets: Budget[]) {
+  const { user } = useAuth();
+  const exchangeRates = useAppStore((state) => state.exchangeRates);
+  const currency = user?.settings.currency ?? 'USD';
+
+  return useMemo(() => {
+    const converter = createCurrencyConverter(
+      exchangeRates.filter((rate) => rate.userId === user?.id),
+      currency,
+    );
+    return {
+      currency,
+      transactions: converter.convertTransactions(transactions),
+      budgets: converter.convertBudgets(budgets),
+      missingPairs: converter.missingPairs(),
+    };
+  }, [exchangeRates, user?.id, currency, transactions, budgets]);
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isMailDeliveryAvailable, subscribeMailDelivery } from '@/utils/mailer';
+
+/** Whether mail reaches inboxes, which decides if a verified address is asked for. */
+export function useMailDelivery() {
+  return useSyncExternalStore(subscribeMailDelivery, isMailDeliveryAvailable, () => false);
+}
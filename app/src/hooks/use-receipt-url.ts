@@ -0,0 +1,29 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { loadReceiptBlob } from '@/store/vault';
+
+export function useReceiptUrl(receiptId?: string) {
+  const [url, setUrl] = useState<{ receiptId: string; href: string } | null>(null);
+
+  useEffect(() => {
+    if (!receiptId) return;
+    let objectUrl: string | undefined;
+    let cancelled = false;
+
+    loadReceiptBlob(receiptId)
+      .then((blob) => {
+        if (cancelled || !blob) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl({ receiptId, href: objectUrl });
+      })
+      .catch(() => setUrl(null));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [receiptId]);
+
+  return url && url.receiptId === receiptId ? url.href : undefined;
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAppStore } from '@/store/use-app-store';
+
+// Materializes due recurring transactions when the app opens for a user and
+// again whenever the tab becomes visible, so a tab left open overnight catches up.
+export function useRecurringEngine(userId?: string) {
+  const materializeRecurring = useAppStore((state) => state.materializeRecurring);
+
+  useEffect(() => {
+    if (!userId) return;
+    materializeRecurring(userId);
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') {
+        materializeRecurring(userId);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [materializeRecurring, userId]);
+}
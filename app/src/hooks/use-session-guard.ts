@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAppStore } from '@/store/use-app-store';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 15_000;
+
+// Keeps the session honest while the app is open: user input counts as
+// activity, and a regular check locks an idle session or ends an expired one.
+// Checking again when the tab becomes visible catches a device that slept.
+export function useSessionGuard(userId?: string) {
+  const touchSession = useAppStore((state) => state.touchSession);
+  const enforceSession = useAppStore((state) => state.enforceSession);
+
+  useEffect(() => {
+    if (!userId) return;
+    const check = () => enforceSession();
+    const handleActivity = () => touchSession();
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enforceSession, touchSession, userId]);
+}
@@ -0,0 +1,281 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MIGRATIONS, STORE_VERSION, migratePersistedState } from '@/store/migrations';
+
+// Steps that stamp records with "now" read the pinned clock.
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const step = (version: number, state: Record<string, unknown>) => MIGRATIONS[version](state);
+
+describe('migration steps', () => {
+  it('registers one step per version from v1 to STORE_VERSION', () => {
+    expect(STORE_VERSION).toBe(16);
+    expect(Object.keys(MIGRATIONS).map(Number)).toEqual(Array.from({ length: STORE_VERSION }, (_, index) => index + 1));
+  });
+
+  it('v1 backfills missing collections, user defaults and transaction sources', () => {
+    expect(
+      step(1, {
+        users: [{ id: 'u1', email: 'ada@example.com', settings: { currency: 'EUR' } }],
+        transactions: [{ id: 't1', userId: 'u1' }, { id: 't2', userId: 'u1', source: 'imported' }],
+      }),
+    ).toEqual({
+      users: [
+        {
+          id: 'u1',
+          email: 'ada@example.com',
+          subscription: { tier: 'free', status: 'active' },
+          settings: { currency: 'EUR', notifications: true, darkMode: false, haptics: true },
+          categories: ['Salary', 'Rent', 'Food', 'Transportation', 'Entertainment', 'Utilities'],
+        },
+      ],
+      receipts: [],
+      transactions: [
+        { id: 't1', userId: 'u1', source: 'manual' },
+        { id: 't2', userId: 'u1', source: 'imported' },
+      ],
+      budgets: [],
+      analyticsLog: [],
+    });
+  });
+
+  it('v2 drops moved receipt images and fills in their type and size', () => {
+    expect(step(2, { receipts: [{ id: 'r1', fileName: 'lunch.png', dataUrl: '' }] })).toEqual({
+      receipts: [{ id: 'r1', fileName: 'lunch.png', mimeType: 'application/octet-stream', size: 0 }],
+    });
+  });
+
+  it('v2 refuses a receipt image that is still inline', () => {
+    expect(() => step(2, { receipts: [{ id: 'r1', fileName: 'lunch.png', dataUrl: 'data:image/png;base64,AA' }] })).toThrow(
+      'Receipt lunch.png was not moved to the receipt store.',
+    );
+  });
+
+  it('v3 converts amounts and limits to minor units in the owner currency', () => {
+    expect(
+      step(3, {
+        users: [
+          { id: 'u1', settings: { currency: 'USD' } },
+          { id: 'u2', settings: { currency: 'JPY' } },
+        ],
+        transactions: [
+          { id: 't1', userId: 'u1', amount: 12.34 },
+          { id: 't2', userId: 'u2', amount: 1200 },
+          { id: 't3', userId: 'u1', amount: '1.005' },
+        ],
+        budgets: [{ id: 'b1', userId: 'u1', limit: 250 }],
+      }),
+    ).toMatchObject({
+      transactions: [
+        { id: 't1', amount: 1234 },
+        { id: 't2', amount: 1200 },
+        { id: 't3', amount: 101 },
+      ],
+      budgets: [{ id: 'b1', limit: 25000 }],
+    });
+  });
+
+  it('v4 gives transactions and budgets their owner currency and adds exchange rates', () => {
+    expect(
+      step(4, {
+        users: [{ id: 'u1', settings: { currency: 'GBP' } }],
+        transactions: [{ id: 't1', userId: 'u1' }, { id: 't2', userId: 'u1', currency: 'EUR' }],
+        budgets: [{ id: 'b1', userId: 'u1' }],
+      }),
+    ).toMatchObject({
+      transactions: [{ currency: 'GBP' }, { currency: 'EUR' }],
+      budgets: [{ currency: 'GBP' }],
+      exchangeRates: [],
+    });
+  });
+
+  it('v5 files every transaction under a new everyday account', () => {
+    expect(
+      step(5, {
+        users: [{ id: 'u1', settings: { currency: 'CAD' } }],
+        transactions: [{ id: 't1', userId: 'u1' }, { id: 't2', userId: 'u1', accountId: 'other' }],
+      }),
+    ).toMatchObject({
+      accounts: [
+        {
+          id: 'u1-everyday',
+          userId: 'u1',
+          name: 'Everyday account',
+          kind: 'checking',
+          currency: 'CAD',
+          openingBalance: 0,
+          createdAt: NOW.toISOString(),
+        },
+      ],
+      transactions: [{ accountId: 'u1-everyday' }, { accountId: 'other' }],
+    });
+  });
+
+  it.each([
+    [6, 'recurring'],
+    [7, 'trash'],
+    [8, 'audit'],
+    [14, 'resetTokens'],
+  ])('v%i adds an empty %s collection and keeps an existing one', (version, key) => {
+    expect(step(version, {})).toEqual({ [key]: [] });
+    expect(step(version, { [key]: [{ id: 'kept' }] })).toEqual({ [key]: [{ id: 'kept' }] });
+  });
+
+  it('v9 turns category names into records and archives names only records still use', () => {
+    const migrated = step(9, {
+      users: [{ id: 'u1', categories: ['Food', 'Rent'] }],
+      transactions: [
+        { id: 't1', userId: 'u1', type: 'expense', category: 'Food', splits: [{ category: 'Gifts' }] },
+        { id: 't2', userId: 'u1', type: 'transfer', category: 'Transfer' },
+      ],
+      trash: [{ id: 'x1', userId: 'u1', kind: 'category', deletedAt: '2026-01-01', record: { name: 'Old' } }],
+    });
+
+    expect(migrated.users).toEqual([{ id: 'u1' }]);
+    expect(migrated.categories).toEqual([
+      { id: 'u1-category-0', userId: 'u1', name: 'Food', createdAt: NOW.toISOString() },
+      { id: 'u1-category-1', userId: 'u1', name: 'Rent', createdAt: NOW.toISOString() },
+      { id: 'u1-category-2', userId: 'u1', name: 'Gifts', archived: true, createdAt: NOW.toISOString() },
+    ]);
+    expect(migrated.trash).toEqual([
+      {
+        id: 'x1',
+        userId: 'u1',
+        kind: 'category',
+        deletedAt: '2026-01-01',
+        record: { id: 'x1-category', userId: 'u1', name: 'Old', createdAt: '2026-01-01' },
+      },
+    ]);
+  });
+
+  it('v10 marks categories outside the legacy defaults as premium', () => {
+    expect(step(10, { categories: [{ id: 'c1', name: 'Food' }, { id: 'c2', name: 'Travel' }] })).toEqual({
+      categories: [{ id: 'c1', name: 'Food' }, { id: 'c2', name: 'Travel', tier: 'premium' }],
+    });
+  });
+
+  it('v11 schedules premium renewals and gives past-due users a grace period', () => {
+    const migrated = step(11, {
+      users: [
+        { id: 'free', subscription: { tier: 'free', status: 'active' } },
+        { id: 'late', subscription: { tier: 'premium', status: 'past_due' } },
+      ],
+    });
+
+    expect(migrated).toEqual({
+      users: [
+        { id: 'free', subscription: { tier: 'free', status: 'active' } },
+        {
+          id: 'late',
+          subscription: {
+            tier: 'premium',
+            status: 'past_due',
+            renewalDate: '2026-04-15T12:00:00.000Z',
+            graceUntil: '2026-03-22T12:00:00.000Z',
+            retryAt: NOW.toISOString(),
+          },
+        },
+      ],
+      invoices: [],
+    });
+  });
+
+  it('v12 lifts merchants out of imported notes into payees', () => {
+    const migrated = step(12, {
+      transactions: [
+        { id: 't1', userId: 'u1', source: 'imported', notes: 'Green Bowl automatic sync', createdAt: 'c1' },
+        { id: 't2', userId: 'u1', source: 'imported', notes: 'Green Bowl automatic sync', createdAt: 'c2' },
+        { id: 't3', userId: 'u1', source: 'imported', notes: 'Acme Corp automated deposit', createdAt: 'c3' },
+        { id: 't4', userId: 'u1', source: 'manual', notes: 'Cafe automatic sync' },
+      ],
+    });
+
+    expect(migrated.payees).toEqual([
+      { id: 'u1-payee-0', userId: 'u1', name: 'Green Bowl', aliases: [], createdAt: 'c1' },
+      { id: 'u1-payee-1', userId: 'u1', name: 'Acme Corp', aliases: [], createdAt: 'c3' },
+    ]);
+    expect(migrated.transactions).toMatchObject([
+      { id: 't1', payeeId: 'u1-payee-0', notes: 'Automatic sync' },
+      { id: 't2', payeeId: 'u1-payee-0', notes: 'Automatic sync' },
+      { id: 't3', payeeId: 'u1-payee-1', notes: 'Automated deposit' },
+      { id: 't4', notes: 'Cafe automatic sync' },
+    ]);
+  });
+
+  it('v13 gives every user without one a keyless vault entry', () => {
+    expect(
+      step(13, {
+        users: [{ id: 'u1', email: ' Ada@Example.com ' }, { id: 'u2', email: 'bo@example.com' }],
+        vaults: [{ id: 'u2', email: 'bo@example.com', key: 'sealed' }],
+      }).vaults,
+    ).toEqual([
+      { id: 'u2', email: 'bo@example.com', key: 'sealed' },
+      { id: 'u1', email: 'ada@example.com' },
+    ]);
+  });
+
+  it('v15 adds sign-in attempts and security events', () => {
+    expect(step(15, {})).toEqual({ signInAttempts: [], securityEvents: [] });
+  });
+
+  it('v16 counts accounts from before verification as verified and leaves pending ones alone', () => {
+    const pending = { id: 'u2', email: 'bo@example.com', verification: { secret: 's', sentAt: '2026-03-01' } };
+    const verified = { id: 'u3', email: 'cy@example.com', emailVerifiedAt: '2026-02-01' };
+
+    expect(step(16, { vaults: [{ id: 'u1', email: 'ada@example.com' }, pending, verified] }).vaults).toEqual([
+      { id: 'u1', email: 'ada@example.com', emailVerifiedAt: NOW.toISOString() },
+      pending,
+      verified,
+    ]);
+  });
+});
+
+describe('migratePersistedState', () => {
+  it('upgrades a v0 blob through every step', () => {
+    const migrated = migratePersistedState({ users: [{ id: 'u1', email: 'ada@example.com' }] }, 0);
+
+    expect(migrated).toMatchObject({
+      users: [{ id: 'u1', subscription: { tier: 'free' }, settings: { currency: 'USD' } }],
+      vaults: [{ id: 'u1', email: 'ada@example.com', emailVerifiedAt: NOW.toISOString() }],
+      accounts: [{ id: 'u1-everyday' }],
+      resetTokens: [],
+      signInAttempts: [],
+      securityEvents: [],
+    });
+  });
+
+  it('leaves a current blob alone', () => {
+    const state = { users: [] };
+    expect(migratePersistedState(state, STORE_VERSION)).toBe(state);
+  });
+
+  it('refuses data written by a newer version', () => {
+    expect(() => migratePersistedState({}, STORE_VERSION + 1)).toThrow(
+      `Stored data was written by a newer version of Aurora Finance (schema v${STORE_VERSION + 1}).`,
+    );
+  });
+
+  it('refuses to skip a version without a step', () => {
+    expect(() => migratePersistedState({}, STORE_VERSION, STORE_VERSION + 1)).toThrow(
+      `No migration is registered for schema v${STORE_VERSION + 1}.`,
+    );
+  });
+
+  it('names the failing step, which the recovery screen shows', () => {
+    expect(() =>
+      migratePersistedState({ receipts: [{ id: 'r1', fileName: 'lunch.png', dataUrl: 'data:,' }] }, 1),
+    ).toThrow('Upgrading stored data to schema v2 failed: Receipt lunch.png was not moved to the receipt store.');
+  });
+
+  it('refuses a blob that is not an object', () => {
+    expect(() => migratePersistedState(null, 0)).toThrow('Stored data is unreadable.');
+  });
+});
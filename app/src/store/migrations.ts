@@ -0,0 +1,324 @@
+/**
+ * Schema migrations for the persisted `aurora-finance-state` blob.
+ *
+ * Each step upgrades the blob written by the previous version by exactly one
+ * version. Steps must be pure: they receive plain JSON and return plain JSON,
+ * never touch storage, and never assume fields written by later versions.
+ * Bump `STORE_VERSION` and add a step whenever a persisted type changes shape.
+ */
+
+import { addDays, addMonths } from 'date-fns';
+import { GRACE_PERIOD_DAYS } from '@/utils/billing';
+import { toMinorUnits } from '@/utils/money';
+
+type PersistedBlob = Record<string, unknown>;
+
+type MigrationStep = (state: PersistedBlob) => PersistedBlob;
+
+const asArray = (value: unknown): Record<string, unknown>[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    : [];
+
+const ownerCurrency = (users: PersistedBlob[], userId: unknown) => {
+  const settings = users.find((user) => user.id === userId)?.settings as PersistedBlob | undefined;
+  return typeof settings?.currency === 'string' ? settings.currency : 'USD';
+};
+
+const LEGACY_DEFAULT_CATEGORIES = ['Salary', 'Rent', 'Food', 'Transportation', 'Entertainment', 'Utilities'];
+
+export const MIGRATIONS: Record<number, MigrationStep> = {
+  // v0 → v1: the first versioned schema. Older builds could leave collections
+  // undefined and users without settings or categories, so backfill defaults.
+  1: (state) => ({
+    ...state,
+    users: asArray(state.users).map((user) => ({
+      ...user,
+      subscription: {
+        tier: 'free',
+        status: 'active',
+        ...(user.subscription as PersistedBlob | undefined),
+      },
+      settings: {
+        currency: 'USD',
+        notifications: true,
+        darkMode: false,
+        haptics: true,
+        ...(user.settings as PersistedBlob | undefined),
+      },
+      categories: Array.isArray(user.categories) ? user.categories : LEGACY_DEFAULT_CATEGORIES,
+    })),
+    receipts: asArray(state.receipts),
+    transactions: asArray(state.transactions).map((transaction) => ({
+      ...transaction,
+      source: transaction.source ?? 'manual',
+    })),
+    budgets: asArray(state.budgets),
+    analyticsLog: asArray(state.analyticsLog),
+  }),
+  // v1 → v2: receipt images moved out of the blob into IndexedDB. The storage
+  // adapter extracts them while importing from localStorage; an inline image
+  // that survived that step would be lost here, so refuse to continue.
+  2: (state) => ({
+    ...state,
+    receipts: asArray(state.receipts).map(({ dataUrl, ...receipt }) => {
+      if (typeof dataUrl === 'string' && dataUrl) {
+        throw new Error(`Receipt ${String(receipt.fileName)} was not moved to the receipt store.`);
+      }
+      return {
+        ...receipt,
+        mimeType: typeof receipt.mimeType === 'string' ? receipt.mimeType : 'application/octet-stream',
+        size: typeof receipt.size === 'number' ? receipt.size : 0,
+      };
+    }),
+  }),
+  // v2 → v3: amounts and budget limits move from float major units to integer
+  // minor units in the owner's display currency.
+  3: (state) => {
+    const users = asArray(state.users);
+    const toMinor = (value: unknown, userId: unknown) =>
+      toMinorUnits(typeof value === 'number' ? value : Number(value) || 0, ownerCurrency(users, userId));
+
+    return {
+      ...state,
+      transactions: asArray(state.transactions).map((transaction) => ({
+        ...transaction,
+        amount: toMinor(transaction.amount, transaction.userId),
+      })),
+      budgets: asArray(state.budgets).map((budget) => ({
+        ...budget,
+        limit: toMinor(budget.limit, budget.userId),
+      })),
+    };
+  },
+  // v3 → v4: transactions and budgets carry their own currency. Until now every
+  // amount was implicitly in the owner's display currency.
+  4: (state) => {
+    const users = asArray(state.users);
+
+    return {
+      ...state,
+      transactions: asArray(state.transactions).map((transaction) => ({
+        ...transaction,
+        currency: transaction.currency ?? ownerCurrency(users, transaction.userId),
+      })),
+      budgets: asArray(state.budgets).map((budget) => ({
+        ...budget,
+        currency: budget.currency ?? ownerCurrency(users, budget.userId),
+      })),
+      exchangeRates: asArray(state.exchangeRates),
+    };
+  },
+  // v4 → v5: every transaction belongs to an account. Give each user one
+  // checking account in their display currency and file their history under it.
+  5: (state) => {
+    const users = asArray(state.users);
+    const createdAt = new Date().toISOString();
+    const accounts = users.map((user) => ({
+      id: `${String(user.id)}-everyday`,
+      userId: user.id,
+      name: 'Everyday account',
+      kind: 'checking',
+      currency: ownerCurrency(users, user.id),
+      openingBalance: 0,
+      createdAt,
+    }));
+
+    return {
+      ...state,
+      accounts,
+      transactions: asArray(state.transactions).map((transaction) => ({
+        ...transaction,
+        accountId:
+          transaction.accountId ??
+          accounts.find((account) => account.userId === transaction.userId)?.id,
+      })),
+    };
+  },
+  // v5 → v6: recurring transaction templates.
+  6: (state) => ({
+    ...state,
+    recurring: asArray(state.recurring),
+  }),
+  // v6 → v7: deleted records move to a trash instead of disappearing.
+  7: (state) => ({
+    ...state,
+    trash: asArray(state.trash),
+  }),
+  // v7 → v8: audit trail of record changes.
+  8: (state) => ({
+    ...state,
+    audit: asArray(state.audit),
+  }),
+  // v8 → v9: categories become records with ids and an optional parent
+  // instead of a name list on the user. Names that records still use but the
+  // list had lost come back archived so they can be renamed or merged.
+  9: (state) => {
+    const users = asArray(state.users);
+    const createdAt = new Date().toISOString();
+    const referenced = [...asArray(state.transactions), ...asArray(state.recurring), ...asArray(state.budgets)]
+      .filter((record) => record.type !== 'transfer')
+      .flatMap((record) =>
+        [record, ...asArray(record.splits)].map((line) => ({ userId: record.userId, name: line.category })),
+      );
+
+    const categories = users.flatMap((user) => {
+      const listed = new Set(
+        (Array.isArray(user.categories) ? user.categories : []).filter(
+          (name): name is string => typeof name === 'string',
+        ),
+      );
+      const unlisted = new Set(
+        referenced.flatMap((entry) =>
+          entry.userId === user.id && typeof entry.name === 'string' && !listed.has(entry.name)
+            ? [entry.name]
+            : [],
+        ),
+      );
+      return [
+        ...[...listed].map((name) => ({ name })),
+        ...[...unlisted].map((name) => ({ name, archived: true })),
+      ].map((category, index) => ({
+        id: `${String(user.id)}-category-${index}`,
+        userId: user.id,
+        ...category,
+        createdAt,
+      }));
+    });
+
+    return {
+      ...state,
+      users: users.map((user) => Object.fromEntries(Object.entries(user).filter(([key]) => key !== 'categories'))),
+      categories,
+      trash: asArray(state.trash).map((item) => {
+        if (item.kind !== 'category') return item;
+        const record = item.record as PersistedBlob | undefined;
+        return {
+          ...item,
+          record: { id: `${String(item.id)}-category`, userId: item.userId, name: record?.name, createdAt: item.deletedAt },
+        };
+      }),
+    };
+  },
+  // v9 → v10: categories remember which plan they belong to so a downgrade
+  // can lock premium ones instead of deleting them.
+  10: (state) => ({
+    ...state,
+    categories: asArray(state.categories).map((category) =>
+      LEGACY_DEFAULT_CATEGORIES.includes(String(category.name)) ? category : { ...category, tier: 'premium' },
+    ),
+  }),
+  // v10 → v11: subscriptions follow a billing lifecycle and charges leave
+  // invoices. Past-due users get the standard grace period from today.
+  11: (state) => {
+    const now = new Date();
+    return {
+      ...state,
+      users: asArray(state.users).map((user) => {
+        const subscription = user.subscription as PersistedBlob;
+        if (subscription.tier !== 'premium') return user;
+        return {
+          ...user,
+          subscription: {
+            ...subscription,
+            renewalDate: subscription.renewalDate ?? addMonths(now, 1).toISOString(),
+            ...(subscription.status === 'past_due' && !subscription.graceUntil
+              ? { graceUntil: addDays(now, GRACE_PERIOD_DAYS).toISOString(), retryAt: now.toISOString() }
+              : {}),
+          },
+        };
+      }),
+      invoices: asArray(state.invoices),
+    };
+  },
+  // v11 → v12: payees become records. Bank imports used to write the merchant
+  // into notes ("Green Bowl automatic sync"); those are lifted into payees.
+  12: (state) => {
+    const payees = new Map<string, PersistedBlob>();
+    const transactions = asArray(state.transactions).map((transaction) => {
+      const match =
+        transaction.source === 'imported' && typeof transaction.notes === 'string'
+          ? /^(.+) (automatic sync|automated deposit)$/.exec(transaction.notes)
+          : null;
+      if (!match) return transaction;
+      const [, merchant, note] = match;
+      const key = `${String(transaction.userId)}:${merchant}`;
+      if (!payees.has(key)) {
+        payees.set(key, {
+          id: `${String(transaction.userId)}-payee-${payees.size}`,
+          userId: transaction.userId,
+          name: merchant,
+          aliases: [],
+          createdAt: transaction.createdAt,
+        });
+      }
+      return {
+        ...transaction,
+        payeeId: payees.get(key)!.id,
+        notes: note === 'automated deposit' ? 'Automated deposit' : 'Automatic sync',
+      };
+    });
+    return { ...state, transactions, payees: [...asArray(state.payees), ...payees.values()] };
+  },
+  // v12 → v13: records are encrypted per user, with a public vault entry for
+  // signing in. Existing accounts get an entry without a key; they are sealed
+  // the next time their owner signs in and the password is known.
+  13: (state) => ({
+    ...state,
+    vaults: [
+      ...asArray(state.vaults),
+      ...asArray(state.users)
+        .filter((user) => !asArray(state.vaults).some((vault) => vault.id === user.id))
+        .map((user) => ({ id: user.id, email: String(user.email ?? '').trim().toLowerCase() })),
+    ],
+  }),
+  // v13 → v14: password resets go through emailed single-use tokens.
+  14: (state) => ({
+    ...state,
+    resetTokens: asArray(state.resetTokens),
+  }),
+  // v14 → v15: failed sign-ins are throttled per address and shown as security activity.
+  15: (state) => ({
+    ...state,
+    signInAttempts: asArray(state.signInAttempts),
+    securityEvents: asArray(state.securityEvents),
+  }),
+  // v15 → v16: Premium and email insights need a verified address. Accounts
+  // from before verification never had a link to follow, so they count as
+  // verified; every account since keeps a pending verification until then.
+  16: (state) => ({
+    ...state,
+    vaults: asArray(state.vaults).map((vault) =>
+      vault.emailVerifiedAt || vault.verification ? vault : { ...vault, emailVerifiedAt: new Date().toISOString() },
+    ),
+  }),
+};
+
+export const STORE_VERSION = Math.max(...Object.keys(MIGRATIONS).map(Number));
+
+export function migratePersistedState(persisted: unknown, fromVersion: number, toVersion = STORE_VERSION) {
+  if (typeof persisted !== 'object' || persisted === null) {
+    throw new Error('Stored data is unreadable.');
+  }
+  if (fromVersion > toVersion) {
+    throw new Error(
+      `Stored data was written by a newer version of Aurora Finance (schema v${fromVersion}).`,
+    );
+  }
+
+  let state = persisted as PersistedBlob;
+  for (let version = fromVersion + 1; version <= toVersion; version += 1) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`No migration is registered for schema v${version}.`);
+    }
+    try {
+      state = step(state);
+    } catch (cause) {
+      const reason = cause instanceof Error ? cause.message : String(cause);
+      throw new Error(`Upgrading stored data to schema v${version} failed: ${reason}`);
+    }
+  }
+
+  return state;
+}
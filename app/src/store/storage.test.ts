@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { StateStorage } from 'zustand/middleware';
+import { STORAGE_KEY, backupKeyFor, clearBackups, writeBackup } from '@/store/storage';
+
+const memoryStorage = (entries: Record<string, string> = {}) => {
+  const memory = new Map(Object.entries(entries));
+  const storage: StateStorage = {
+    getItem: (name) => memory.get(name) ?? null,
+    setItem: (name, value) => {
+      memory.set(name, value);
+    },
+    removeItem: (name) => {
+      memory.delete(name);
+    },
+  };
+  return { memory, storage };
+};
+
+describe('migration backups', () => {
+  it('are written under the version they were taken from', async () => {
+    const { memory, storage } = memoryStorage({ [STORAGE_KEY]: '{"state":{},"version":14}' });
+
+    expect(await writeBackup(14, storage)).toBe(backupKeyFor(14));
+    expect(memory.get(backupKeyFor(14))).toBe('{"state":{},"version":14}');
+  });
+
+  it('are all dropped once the upgrade is written, leaving the stored state', async () => {
+    const { memory, storage } = memoryStorage({
+      [STORAGE_KEY]: '{"state":{},"version":16}',
+      [backupKeyFor(0)]: 'v0',
+      [backupKeyFor(13)]: 'v13',
+      [backupKeyFor(15)]: 'v15',
+      'unrelated-key': 'kept',
+    });
+
+    await clearBackups(16, storage);
+
+    expect([...memory.keys()]).toEqual([STORAGE_KEY, 'unrelated-key']);
+  });
+
+  it('keep a backup taken at the current version', async () => {
+    const { memory, storage } = memoryStorage({ [backupKeyFor(16)]: 'v16' });
+
+    await clearBackups(16, storage);
+
+    expect(memory.has(backupKeyFor(16))).toBe(true);
+  });
+});
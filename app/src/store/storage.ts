@@ -0,0 +1,167 @@
+'use client';
+
+import type { StateStorage } from 'zustand/middleware';
+
+export const STORAGE_KEY = 'aurora-finance-state';
+
+const DATABASE_NAME = 'aurora-finance';
+const DATABASE_VERSION = 1;
+const STATE_STORE = 'state';
+const RECEIPT_STORE = 'receipts';
+
+type LegacyReceipt = {
+  id: string;
+  fileName: string;
+  dataUrl?: string;
+  uploadedAt: string;
+};
+
+/** A receipt image encrypted with its owner's data key. */
+export type SealedReceiptBlob = {
+  userId: string;
+  mimeType: string;
+  iv: string;
+  data: ArrayBuffer;
+};
+
+let databasePromise: Promise<IDBDatabase> | undefined;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(STATE_STORE)) {
+          database.createObjectStore(STATE_STORE);
+        }
+        if (!database.objectStoreNames.contains(RECEIPT_STORE)) {
+          database.createObjectStore(RECEIPT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, mode);
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await promisify(run(transaction.objectStore(storeName)));
+  await completed;
+  return result;
+}
+
+export const putReceiptBlob = (id: string, blob: Blob | SealedReceiptBlob) =>
+  withStore(RECEIPT_STORE, 'readwrite', (store) => store.put(blob, id)).then(() => undefined);
+
+export const getReceiptBlob = (id: string) =>
+  withStore<Blob | SealedReceiptBlob | undefined>(RECEIPT_STORE, 'readonly', (store) => store.get(id));
+
+export const deleteReceiptBlob = (id: string) =>
+  withStore(RECEIPT_STORE, 'readwrite', (store) => store.delete(id));
+
+export const listReceiptBlobIds = () =>
+  withStore(RECEIPT_STORE, 'readonly', (store) => store.getAllKeys()).then((keys) => keys.map(String));
+
+// Before receipts lived in IndexedDB, the whole store was one localStorage
+// entry with every image inlined as a data URL. Move it over once, splitting
+// the images out into the receipt store, and only then drop the old entry.
+async function importLegacyState(name: string) {
+  const legacy = window.localStorage.getItem(name);
+  if (!legacy) return null;
+
+  const parsed = JSON.parse(legacy) as { state?: { receipts?: LegacyReceipt[] }; version?: number };
+  const receipts = parsed.state?.receipts ?? [];
+  const movedReceipts = await Promise.all(
+    receipts.map(async ({ dataUrl, ...receipt }) => {
+      if (!dataUrl) return receipt;
+      const blob = await fetch(dataUrl).then((response) => response.blob());
+      await putReceiptBlob(receipt.id, blob);
+      return { ...receipt, mimeType: blob.type, size: blob.size };
+    }),
+  );
+
+  const migrated = JSON.stringify({
+    ...parsed,
+    state: parsed.state ? { ...parsed.state, receipts: movedReceipts } : parsed.state,
+  });
+  await withStore(STATE_STORE, 'readwrite', (store) => store.put(migrated, name));
+  window.localStorage.removeItem(name);
+  return migrated;
+}
+
+const indexedDbStorage: StateStorage = {
+  getItem: async (name) => {
+    const stored = await withStore<string | undefined>(STATE_STORE, 'readonly', (store) =>
+      store.get(name),
+    );
+    if (stored !== undefined) return stored;
+    return name === STORAGE_KEY ? importLegacyState(name) : null;
+  },
+  setItem: async (name, value) => {
+    await withStore(STATE_STORE, 'readwrite', (store) => store.put(value, name));
+  },
+  removeItem: async (name) => {
+    await withStore(STATE_STORE, 'readwrite', (store) => store.delete(name));
+  },
+};
+
+const noopStorage: StateStorage = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+};
+
+export const persistStorage: StateStorage =
+  typeof window !== 'undefined' && 'indexedDB' in window ? indexedDbStorage : noopStorage;
+
+export const backupKeyFor = (version: number) => `${STORAGE_KEY}:backup-v${version}`;
+
+/**
+ * Copies the stored blob exactly as it is, sealed partitions included, so a
+ * failed upgrade can be restored for every account. Returns the backup's key,
+ * or undefined when there was nothing stored.
+ */
+export async function writeBackup(version: number, storage = persistStorage) {
+  const stored = await storage.getItem(STORAGE_KEY);
+  if (!stored) return undefined;
+  const key = backupKeyFor(version);
+  await storage.setItem(key, stored);
+  return key;
+}
+
+/**
+ * Drops the backups of every schema older than `version`. Called once an
+ * upgrade has been written, so a copy never outlives the data it protects.
+ */
+export async function clearBackups(version: number, storage = persistStorage) {
+  for (let previous = 0; previous < version; previous += 1) {
+    await storage.removeItem(backupKeyFor(previous));
+  }
+}
+
+export async function readBackup(key: string) {
+  return (await persistStorage.getItem(key)) ?? null;
+}
+
+export async function clearPersistedState() {
+  await persistStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { nanoid } from 'nanoid';
+import { STORE_VERSION } from '@/store/migrations';
+import { STORAGE_KEY } from '@/store/storage';
+import { type Session, isSwappingLockedRecords, useAppStore } from '@/store/use-app-store';
+import { clearHistory, entryTouches, useHistoryStore } from '@/store/use-history-store';
+import { useHydrationStore } from '@/store/use-hydration-store';
+import { forgetKey, readStoredRecords, rememberKey, unlockedKey, whenWritten } from '@/store/vault';
+import {
+  type CollectionChange,
+  type SyncStamp,
+  applyCollectionChange,
+  diffCollection,
+  isNewer,
+} from '@/utils/sync';
+import { recordOwner } from '@/utils/vault';
+
+type StoreState = ReturnType<typeof useAppStore.getState>;
+
+// Every persisted collection; keep in step with `partialize` in the store.
+const SYNCED_COLLECTIONS = [
+  'vaults',
+  'users',
+  'receipts',
+  'accounts',
+  'categories',
+  'payees',
+  'transactions',
+  'budgets',
+  'recurring',
+  'trash',
+  'audit',
+  'invoices',
+  'exchangeRates',
+  'analyticsLog',
+  'resetTokens',
+  'signInAttempts',
+  'securityEvents',
+] as const;
+
+type SyncedCollection = (typeof SYNCED_COLLECTIONS)[number];
+
+type SyncMessage = {
+  /** Tabs on another schema version ignore each other until reloaded. */
+  version: number;
+  stamp: SyncStamp;
+  collections: Partial<Record<SyncedCollection, CollectionChange>>;
+  /**
+   * Present when the signed-in user or their session changed; `null` means
+   * signed out. The user's data key travels along so the other tabs can save
+   * their edits, and the session so every tab locks and expires together.
+   */
+  session?: { currentUserId: string | null; key?: CryptoKey; record?: Session };
+};
+
+const CHANNEL_NAME = `${STORAGE_KEY}:sync`;
+
+/**
+ * Keeps every open tab's copy of the store in step. Each local change is
+ * broadcast as the records it added, replaced or removed, and other tabs
+ * merge those records into their own state instead of replacing whole
+ * slices, so edits made in different tabs all survive the next persist.
+ * When two tabs change the same record, the later change wins everywhere.
+ */
+export function startStoreSync() {
+  if (typeof window === 'undefined') return () => undefined;
+
+  const tab = nanoid();
+  // Last change applied to each `collection:id` (or the session), local or remote.
+  const stamps = new Map<string, SyncStamp>();
+  const pending: SyncMessage[] = [];
+  let clock = 0;
+  let applyingRemote = false;
+
+  const nextStamp = (): SyncStamp => {
+    clock = Math.max(clock + 1, Date.now());
+    return { at: clock, tab };
+  };
+
+  const transport =
+    typeof BroadcastChannel === 'undefined'
+      ? createStorageTransport(receive)
+      : createChannelTransport(receive);
+
+  function publish(state: StoreState, previous: StoreState) {
+    if (applyingRemote || isSwappingLockedRecords() || useHydrationStore.getState().status !== 'ready') return;
+    const stamp = nextStamp();
+    const message: SyncMessage = { version: STORE_VERSION, stamp, collections: {} };
+
+    SYNCED_COLLECTIONS.forEach((key) => {
+      const change = diffCollection<{ id: string }>(previous[key], state[key]);
+      if (!change) return;
+      message.collections[key] = change;
+      change.upserts.forEach((record) => stamps.set(`${key}:${record.id}`, stamp));
+      change.removed.forEach((id) => stamps.set(`${key}:${id}`, stamp));
+    });
+    if (state.currentUserId !== previous.currentUserId || state.session !== previous.session) {
+      message.session = {
+        currentUserId: state.currentUserId ?? null,
+        key: state.currentUserId ? unlockedKey(state.currentUserId) : undefined,
+        record: state.session,
+      };
+      stamps.set('session', stamp);
+    }
+
+    if (message.session || Object.keys(message.collections).length > 0) {
+      transport.post(message);
+    }
+  }
+
+  function receive(message: SyncMessage) {
+    if (message.version !== STORE_VERSION || message.stamp.tab === tab) return;
+    if (useHydrationStore.getState().status !== 'ready') {
+      pending.push(message);
+      return;
+    }
+    clock = Math.max(clock, message.stamp.at);
+
+    const state = useAppStore.getState();
+    const update: Partial<Record<SyncedCollection, unknown>> & { currentUserId?: string; session?: Session } = {};
+    const touched: [SyncedCollection, string[]][] = [];
+    const accept = (key: string) => {
+      if (!isNewer(message.stamp, stamps.get(key))) return false;
+      stamps.set(key, message.stamp);
+      return true;
+    };
+
+    // The session goes first: a user signed in elsewhere is unlocked here
+    // before their records arrive in the same message.
+    const sessionChanged = message.session && accept('session');
+    if (sessionChanged) {
+      const { currentUserId, key, record } = message.session!;
+      update.currentUserId = currentUserId ?? undefined;
+      update.session = record;
+      if (state.currentUserId && state.currentUserId !== currentUserId) forgetKey(state.currentUserId);
+      if (currentUserId && key) rememberKey(currentUserId, key);
+    }
+
+    // Records of users this tab hasn't unlocked stay out: it has no key to
+    // seal them with, so they would otherwise be persisted in the clear.
+    // Receipts go last, once the records that reference them are in.
+    const readable = (collection: SyncedCollection, record: { id: string; userId?: string }) => {
+      const owner = recordOwner({ ...state, ...update }, collection, record);
+      if (owner === undefined) return collection !== 'receipts';
+      return unlockedKey(owner) !== undefined;
+    };
+    [...SYNCED_COLLECTIONS.filter((key) => key !== 'receipts'), 'receipts' as const].forEach((key) => {
+      const change = message.collections[key];
+      if (!change) return;
+      const accepted = {
+        upserts: change.upserts.filter((record) => readable(key, record) && accept(`${key}:${record.id}`)),
+        removed: change.removed.filter((id) => accept(`${key}:${id}`)),
+      };
+      if (accepted.upserts.length > 0 || accepted.removed.length > 0) {
+        update[key] = applyCollectionChange<{ id: string }>(state[key], accepted);
+        touched.push([key, [...accepted.upserts.map((record) => record.id), ...accepted.removed]]);
+      }
+    });
+
+    const changedKeys = Object.keys(update);
+    if (changedKeys.length === 0) return;
+
+    // Undo skips records changed since, so an entry touching what the other
+    // tab just changed could no longer be undone in full. Drop those entries.
+    const { past, future } = useHistoryStore.getState();
+    if (
+      (sessionChanged && update.currentUserId !== state.currentUserId) ||
+      [...past, ...future].some((entry) => touched.some(([key, ids]) => entryTouches(entry, key, ids)))
+    ) {
+      clearHistory();
+    }
+
+    applyingRemote = true;
+    try {
+      useAppStore.setState(update as Partial<StoreState>);
+    } finally {
+      applyingRemote = false;
+    }
+  }
+
+  const unsubscribeStore = useAppStore.subscribe(publish);
+  const unsubscribeHydration = useHydrationStore.subscribe(({ status }) => {
+    if (status === 'ready') pending.splice(0).forEach(receive);
+  });
+
+  return () => {
+    unsubscribeStore();
+    unsubscribeHydration();
+    transport.close();
+  };
+}
+
+type Transport = {
+  post: (message: SyncMessage) => void;
+  close: () => void;
+};
+
+function createChannelTransport(receive: (message: SyncMessage) => void): Transport {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => receive(event.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
+
+/** What the storage fallback sends: which records changed, never the records themselves. */
+type SyncPing = Omit<SyncMessage, 'collections'> & {
+  collections: Partial<Record<SyncedCollection, { upserts: string[]; removed: string[] }>>;
+};
+
+// Turns a ping back into a message by reading the changed records from
+// storage, where the sending tab has already written them.
+async function resolvePing(ping: SyncPing): Promise<SyncMessage> {
+  const stored = await readStoredRecords();
+  const collections: SyncMessage['collections'] = {};
+  (Object.keys(ping.collections) as SyncedCollection[]).forEach((key) => {
+    const { upserts, removed } = ping.collections[key]!;
+    const records = new Map(
+      (Array.isArray(stored[key]) ? (stored[key] as { id: string }[]) : []).map((record) => [record.id, record]),
+    );
+    // A record missing from storage was removed since, or is sealed for a user this tab can't open.
+    collections[key] = { upserts: upserts.flatMap((id) => records.get(id) ?? []), removed };
+  });
+  return { ...ping, collections };
+}
+
+// Fallback for browsers without BroadcastChannel: other tabs see each write
+// to this key as a `storage` event. Local storage isn't encrypted, so only
+// record ids pass through it, and the value is removed again right away.
+function createStorageTransport(receive: (message: SyncMessage) => void): Transport {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANNEL_NAME || !event.newValue) return;
+    let ping: SyncPing;
+    try {
+      ping = JSON.parse(event.newValue) as SyncPing;
+    } catch {
+      // A half-written or foreign value; the next change resyncs the records it touches.
+      return;
+    }
+    void resolvePing(ping).then(receive);
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: (message) => {
+      // Keys can't be serialized; a tab reached this way keeps its session
+      // in step but leaves saving the other user's records to this tab.
+      const { session } = message;
+      const ping: SyncPing = {
+        ...message,
+        session: session ? { ...session, key: undefined } : undefined,
+        collections: {},
+      };
+      (Object.keys(message.collections) as SyncedCollection[]).forEach((key) => {
+        const { upserts, removed } = message.collections[key]!;
+        ping.collections[key] = { upserts: upserts.map((record) => record.id), removed };
+      });
+      // The store hands its state to storage right after notifying
+      // subscribers, so wait for that write before telling the other tabs.
+      void Promise.resolve()
+        .then(whenWritten)
+        .then(() => {
+          try {
+            window.localStorage.setItem(CHANNEL_NAME, JSON.stringify(ping));
+            window.localStorage.removeItem(CHANNEL_NAME);
+          } catch {
+            // Quota exceeded: this change stays local until the other tabs reload.
+          }
+        });
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
@@ -0,0 +1,478 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Category, type Transaction, type User, useAppStore } from '@/store/use-app-store';
+import { rememberKey, unlockedKey, whenWritten } from '@/store/vault';
+import { createDataKey, digestHex, hashPassword } from '@/utils/crypto';
+import { type ChargeRequest, mockPaymentProvider, setPaymentProvider } from '@/utils/payments';
+import { createSession } from '@/utils/session';
+
+// The vault writes through `persistStorage`, which is a no-op outside the
+// browser; an in-memory map stands in for IndexedDB.
+const memory = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('@/store/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/store/storage')>()),
+  persistStorage: {
+    getItem: (name: string) => memory.get(name) ?? null,
+    setItem: (name: string, value: string) => {
+      memory.set(name, value);
+    },
+    removeItem: (name: string) => {
+      memory.delete(name);
+    },
+  },
+}));
+
+const CREATED_AT = '2026-03-01T00:00:00.000Z';
+
+const user = (tier: 'free' | 'premium' = 'free'): User => ({
+  id: 'u1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  passwordHash: 'hash',
+  createdAt: CREATED_AT,
+  subscription: { tier, status: 'active' },
+  settings: { currency: 'USD', notifications: true, darkMode: false, haptics: true },
+});
+
+const category = (name: string, extra: Partial<Category> = {}): Category => ({
+  id: `c-${name}`,
+  userId: 'u1',
+  name,
+  createdAt: CREATED_AT,
+  ...extra,
+});
+
+const transaction = (id: string, name: string): Transaction => ({
+  id,
+  userId: 'u1',
+  type: 'expense',
+  category: name,
+  amount: 1200,
+  currency: 'USD',
+  accountId: 'a1',
+  date: CREATED_AT,
+  source: 'manual',
+  createdAt: CREATED_AT,
+});
+
+const entry = (name: string) => ({
+  userId: 'u1',
+  type: 'expense' as const,
+  category: name,
+  amount: 1200,
+  currency: 'USD',
+  accountId: 'a1',
+  date: CREATED_AT,
+});
+
+const envelope = { salt: 's', iterations: 1, iv: 'i', wrappedKey: 'w' };
+
+// Lets deferred store work run and the vault finish writing.
+const settle = async () => {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  await whenWritten();
+};
+
+beforeEach(() => {
+  useAppStore.setState({
+    users: [user()],
+    accounts: [
+      { id: 'a1', userId: 'u1', name: 'Everyday', kind: 'checking', currency: 'USD', openingBalance: 0, createdAt: CREATED_AT },
+      { id: 'a2', userId: 'u1', name: 'Savings', kind: 'savings', currency: 'USD', openingBalance: 0, createdAt: CREATED_AT },
+    ],
+    categories: [
+      category('Food'),
+      category('Rent'),
+      category('Travel', { tier: 'premium' }),
+      category('Old', { archived: true }),
+      { ...category('Lunch'), userId: 'u2' },
+    ],
+    transactions: [transaction('t-travel', 'Travel'), transaction('t-old', 'Old')],
+    budgets: [{ id: 'b-travel', userId: 'u1', category: 'Travel', limit: 5000, currency: 'USD', createdAt: CREATED_AT }],
+    payees: [],
+  });
+});
+
+describe('category guards', () => {
+  it('files a new transaction under an available category, ignoring case', () => {
+    expect(useAppStore.getState().addTransaction(entry('food')).category).toBe('food');
+  });
+
+  it('refuses a new transaction under a locked Premium category', () => {
+    expect(() => useAppStore.getState().addTransaction(entry('Travel'))).toThrow(
+      'Travel is a Premium category. Upgrade to Premium to change it.',
+    );
+  });
+
+  it('refuses a new transaction under a name that is not one of the owner’s categories', () => {
+    expect(() => useAppStore.getState().addTransaction(entry('Gifts'))).toThrow('Gifts is not one of your categories.');
+    expect(() => useAppStore.getState().addTransaction(entry('Lunch'))).toThrow('Lunch is not one of your categories.');
+    expect(() => useAppStore.getState().addTransaction(entry('Old'))).toThrow('Old is not one of your categories.');
+  });
+
+  it('checks every split line', () => {
+    const split = {
+      ...entry('Food'),
+      splits: [
+        { category: 'Food', amount: 600 },
+        { category: 'Travel', amount: 600 },
+      ],
+    };
+    expect(() => useAppStore.getState().addTransaction(split)).toThrow('Travel is a Premium category.');
+  });
+
+  it('leaves transfers out, since they are filed under Transfer', () => {
+    const transfer = { ...entry('Anything'), type: 'transfer' as const, toAccountId: 'a2' };
+    expect(useAppStore.getState().addTransaction(transfer).category).toBe('Transfer');
+  });
+
+  it('opens locked categories again on Premium', () => {
+    useAppStore.setState({ users: [user('premium')] });
+    expect(useAppStore.getState().addTransaction(entry('Travel')).category).toBe('Travel');
+  });
+
+  it('refuses edits to a transaction filed under a locked category', () => {
+    expect(() => useAppStore.getState().updateTransaction('t-travel', { notes: 'Flights' })).toThrow(
+      'Travel is a Premium category.',
+    );
+    expect(() => useAppStore.getState().updateTransaction('t-travel', { category: 'Food' })).toThrow(
+      'Travel is a Premium category.',
+    );
+  });
+
+  it('refuses moving a transaction to a locked or unknown category', () => {
+    useAppStore.setState({ transactions: [transaction('t1', 'Food')] });
+    expect(() => useAppStore.getState().updateTransaction('t1', { category: 'Travel' })).toThrow(
+      'Travel is a Premium category.',
+    );
+    expect(() => useAppStore.getState().updateTransaction('t1', { category: 'Gifts' })).toThrow(
+      'Gifts is not one of your categories.',
+    );
+  });
+
+  it('still lets a transaction in an archived category be edited', () => {
+    useAppStore.getState().updateTransaction('t-old', { notes: 'Kept' });
+    expect(useAppStore.getState().transactions.find((tx) => tx.id === 't-old')?.notes).toBe('Kept');
+  });
+
+  it('refuses budgets for locked or unknown categories, and edits to a locked budget', () => {
+    const budget = { userId: 'u1', limit: 5000, currency: 'USD' };
+    expect(() => useAppStore.getState().upsertBudget({ ...budget, category: 'Travel' })).toThrow(
+      'Travel is a Premium category.',
+    );
+    expect(() => useAppStore.getState().upsertBudget({ ...budget, category: 'Gifts' })).toThrow(
+      'Gifts is not one of your categories.',
+    );
+    expect(() => useAppStore.getState().upsertBudget({ ...budget, id: 'b-travel', category: 'Travel', limit: 9000 })).toThrow(
+      'Travel is a Premium category.',
+    );
+    expect(useAppStore.getState().upsertBudget({ ...budget, category: 'Rent' }).category).toBe('Rent');
+  });
+});
+
+describe('billing', () => {
+  const NOW = new Date('2026-03-15T12:00:00.000Z');
+  const due: User = { ...user('premium'), subscription: { tier: 'premium', status: 'active', renewalDate: CREATED_AT } };
+  let charges: ChargeRequest[];
+
+  // Stands in for the Web Locks API: requests for a name run one after another.
+  const queues = new Map<string, Promise<unknown>>();
+  const locks = {
+    request: <T>(name: string, callback: () => Promise<T>) => {
+      const next = (queues.get(name) ?? Promise.resolve()).then(callback);
+      queues.set(name, next.catch(() => undefined));
+      return next;
+    },
+  };
+
+  beforeEach(() => {
+    charges = [];
+    queues.clear();
+    setPaymentProvider({
+      name: 'test',
+      charge: async (request) => {
+        charges.push(request);
+        return { status: 'succeeded', reference: `ref-${charges.length}` };
+      },
+    });
+    vi.stubGlobal('navigator', { locks });
+    useAppStore.setState({ users: [due], invoices: [], audit: [] });
+  });
+
+  afterEach(() => {
+    setPaymentProvider(mockPaymentProvider);
+    vi.unstubAllGlobals();
+  });
+
+  it('charges a due renewal once, keyed by the period it pays for', async () => {
+    await Promise.all([
+      useAppStore.getState().processBilling('u1', NOW),
+      useAppStore.getState().processBilling('u1', NOW),
+    ]);
+
+    expect(charges).toEqual([expect.objectContaining({ userId: 'u1', amount: 499, idempotencyKey: `u1:renewal:${CREATED_AT}` })]);
+    expect(useAppStore.getState().users[0].subscription).toMatchObject({
+      status: 'active',
+      renewalDate: '2026-04-01T00:00:00.000Z',
+    });
+    expect(useAppStore.getState().invoices).toMatchObject([{ status: 'paid', reference: 'ref-1' }]);
+    expect(useAppStore.getState().audit).toMatchObject([{ entity: 'subscription', source: 'rule' }]);
+  });
+
+  it('waits while another tab holds the billing lock and skips the renewal it settled', async () => {
+    let release: (() => void) | undefined;
+    const otherTab = locks.request('aurora-finance-state:billing:u1', () => new Promise<void>((resolve) => (release = resolve)));
+    await vi.waitFor(() => expect(release).toBeDefined());
+    const billing = useAppStore.getState().processBilling('u1', NOW);
+
+    // The other tab's renewal reaches this one through sync before it lets go.
+    useAppStore.setState({
+      users: [{ ...due, subscription: { ...due.subscription, renewalDate: '2026-04-01T00:00:00.000Z' } }],
+    });
+    release!();
+    await Promise.all([otherTab, billing]);
+
+    expect(charges).toEqual([]);
+  });
+
+  it('moves a declined renewal past due and retries it under a new key', async () => {
+    setPaymentProvider({
+      name: 'test',
+      charge: async (request) => {
+        charges.push(request);
+        return charges.length === 1
+          ? { status: 'failed', reason: 'Declined.' }
+          : { status: 'succeeded', reference: 'ref-retry' };
+      },
+    });
+
+    await useAppStore.getState().processBilling('u1', NOW);
+    const { subscription } = useAppStore.getState().users[0];
+    expect(subscription).toMatchObject({ status: 'past_due', retryAt: '2026-03-16T12:00:00.000Z' });
+
+    await useAppStore.getState().retryPayment('u1');
+    expect(charges.map((charge) => charge.idempotencyKey)).toEqual([
+      `u1:renewal:${CREATED_AT}`,
+      'u1:retry:2026-03-16T12:00:00.000Z',
+    ]);
+    expect(useAppStore.getState().users[0].subscription.status).toBe('active');
+    // The engine's charge is rule-driven; the retry was asked for.
+    expect(useAppStore.getState().audit.map((entry) => entry.source).sort()).toEqual(['manual', 'rule']);
+    await expect(useAppStore.getState().retryPayment('u1')).rejects.toThrow('There is no failed payment to retry.');
+  });
+
+  it('expires a canceled plan at the end of its period without charging', async () => {
+    useAppStore.setState({ users: [{ ...due, subscription: { ...due.subscription, status: 'canceled' } }] });
+
+    await useAppStore.getState().processBilling('u1', NOW);
+
+    expect(charges).toEqual([]);
+    expect(useAppStore.getState().users[0].subscription).toEqual({ tier: 'free', status: 'expired' });
+  });
+
+  it('pays once per key with the mock provider, however often a charge is sent', async () => {
+    const request = { userId: 'u1', amount: 499, currency: 'USD', description: 'Premium', idempotencyKey: 'k1' };
+    const first = await mockPaymentProvider.charge(request);
+
+    expect(await mockPaymentProvider.charge(request)).toEqual(first);
+    expect(await mockPaymentProvider.charge({ ...request, idempotencyKey: 'k2' })).not.toEqual(first);
+  });
+});
+
+describe('session lock', () => {
+  beforeEach(async () => {
+    memory.clear();
+    rememberKey('u1', await createDataKey());
+    useAppStore.setState({
+      vaults: [{ id: 'u1', email: 'ada@example.com', key: envelope }],
+      users: [
+        {
+          ...user('premium'),
+          // A cheap hash keeps the test fast; the iterations are stored with it.
+          pinHash: await hashPassword('1234', 1000),
+          twoFactor: { secret: 'totp-secret', enabledAt: CREATED_AT, recoveryCodeHashes: [], lastCounter: 0 },
+        },
+      ],
+      currentUserId: 'u1',
+      session: createSession('u1'),
+    });
+  });
+
+  afterEach(async () => {
+    useAppStore.setState({ vaults: [], currentUserId: undefined, session: undefined });
+    await settle();
+  });
+
+  it('takes the records out of memory and forgets the key, keeping a bare user for the lock screen', async () => {
+    useAppStore.getState().lockApp();
+    await settle();
+
+    const state = useAppStore.getState();
+    expect(state.transactions).toEqual([]);
+    expect(state.accounts).toEqual([]);
+    expect(state.budgets).toEqual([]);
+    expect(state.users).toEqual([expect.objectContaining({ id: 'u1', twoFactor: undefined })]);
+    expect(unlockedKey('u1')).toBeUndefined();
+    // What reaches storage is sealed, the user record included.
+    expect(memory.get('aurora-finance-state')).not.toContain('t-travel');
+    expect(memory.get('aurora-finance-state')).not.toContain('totp-secret');
+  });
+
+  it('opens the records again with the right PIN', async () => {
+    useAppStore.getState().lockApp();
+    await settle();
+
+    await useAppStore.getState().unlockWithPin('1234');
+    await settle();
+
+    const state = useAppStore.getState();
+    expect(state.session).toMatchObject({ lockedAt: undefined, failedPinAttempts: 0 });
+    expect(state.transactions.map((tx) => tx.id)).toEqual(['t-travel', 't-old']);
+    expect(state.users).toEqual([expect.objectContaining({ twoFactor: expect.objectContaining({ secret: 'totp-secret' }) })]);
+    expect(unlockedKey('u1')).toBeDefined();
+  });
+
+  it('counts wrong PINs and then only takes the password', async () => {
+    useAppStore.getState().lockApp();
+    await settle();
+
+    await expect(useAppStore.getState().unlockWithPin('0000')).rejects.toThrow('Wrong PIN. 4 attempts left.');
+    useAppStore.setState((state) => ({ session: { ...state.session!, failedPinAttempts: 4 } }));
+    await expect(useAppStore.getState().unlockWithPin('0000')).rejects.toThrow(
+      'Too many wrong PINs. Enter your password to unlock.',
+    );
+    await expect(useAppStore.getState().unlockWithPin('1234')).rejects.toThrow('Enter your password to unlock.');
+    expect(useAppStore.getState().transactions).toEqual([]);
+  });
+
+  it('leaves billing alone until the app is unlocked', async () => {
+    const charge = vi.fn();
+    setPaymentProvider({ name: 'test', charge });
+    const due = { ...user('premium'), subscription: { tier: 'premium' as const, status: 'active' as const, renewalDate: CREATED_AT } };
+    useAppStore.setState({ users: [due] });
+    useAppStore.getState().lockApp();
+    await settle();
+
+    await useAppStore.getState().processBilling('u1', new Date('2026-03-15T12:00:00.000Z'));
+
+    expect(charge).not.toHaveBeenCalled();
+    setPaymentProvider(mockPaymentProvider);
+  });
+});
+
+describe('password reset', () => {
+  const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+  beforeEach(async () => {
+    memory.clear();
+    rememberKey('u1', await createDataKey());
+    useAppStore.setState({
+      vaults: [{ id: 'u1', email: 'ada@example.com', key: envelope }],
+      currentUserId: 'u1',
+      session: createSession('u1', NOW),
+      resetTokens: [
+        {
+          id: 'r1',
+          userId: 'u1',
+          tokenHash: await digestHex('reset-token'),
+          createdAt: NOW.toISOString(),
+          expiresAt: '2999-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    useAppStore.setState({ vaults: [], currentUserId: undefined, session: undefined, resetTokens: [] });
+    await settle();
+  });
+
+  it('signs the account out everywhere and takes the link only once', async () => {
+    await useAppStore.getState().resetPassword({ token: 'reset-token', newPassword: 'a new passphrase' });
+    await settle();
+
+    const state = useAppStore.getState();
+    expect(state.session).toBeUndefined();
+    expect(state.currentUserId).toBeUndefined();
+    expect(state.transactions).toEqual([]);
+    expect(unlockedKey('u1')).toBeUndefined();
+    expect(state.resetTokens).toEqual([]);
+    expect(state.vaults[0].key).not.toEqual(envelope);
+    expect(state.vaults[0].sessionsRevokedAt).toBeDefined();
+    await expect(
+      useAppStore.getState().resetPassword({ token: 'reset-token', newPassword: 'another passphrase' }),
+    ).rejects.toThrow('This reset link is invalid or has expired. Request a new one.');
+  });
+
+  it('refuses an expired link', async () => {
+    useAppStore.setState((state) => ({
+      resetTokens: state.resetTokens.map((entry) => ({ ...entry, expiresAt: '2026-03-15T13:00:00.000Z' })),
+    }));
+
+    await expect(
+      useAppStore.getState().resetPassword({ token: 'reset-token', newPassword: 'a new passphrase' }),
+    ).rejects.toThrow('This reset link is invalid or has expired.');
+    expect(useAppStore.getState().session).toBeDefined();
+  });
+
+  it('ends a session another tab began before the reset', () => {
+    useAppStore.setState({
+      vaults: [{ id: 'u1', email: 'ada@example.com', key: envelope, sessionsRevokedAt: '2026-03-15T12:30:00.000Z' }],
+    });
+
+    useAppStore.getState().enforceSession(new Date('2026-03-15T12:31:00.000Z'));
+
+    expect(useAppStore.getState().session).toBeUndefined();
+  });
+});
+
+describe('sign-in throttling', () => {
+  const signIn = (password = 'wrong') => useAppStore.getState().signIn({ email: 'nobody@example.com', password });
+  const ago = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+  beforeEach(() => {
+    useAppStore.setState({ vaults: [], signInAttempts: [] });
+  });
+
+  it('makes every failure after the third wait, refusing early tries without counting them', async () => {
+    await expect(signIn()).rejects.toThrow('Invalid email or password.');
+    await expect(signIn()).rejects.toThrow('Invalid email or password.');
+    await expect(signIn()).rejects.toThrow('Invalid email or password. Wait 2 seconds before trying again.');
+    await expect(signIn()).rejects.toThrow(/^Too many attempts\. Try again in [12] seconds?\.$/);
+
+    expect(useAppStore.getState().signInAttempts).toMatchObject([{ email: 'nobody@example.com', failures: 3 }]);
+  });
+
+  it('locks the address at the eighth failure in a row', async () => {
+    useAppStore.setState({
+      signInAttempts: [{ id: 'a1', email: 'nobody@example.com', failures: 7, lastFailedAt: ago(60) }],
+    });
+
+    await expect(signIn()).rejects.toThrow('Too many failed sign-ins. Sign-in for this email is locked until');
+    await expect(signIn()).rejects.toThrow('Too many failed sign-ins.');
+
+    expect(useAppStore.getState().signInAttempts).toMatchObject([{ failures: 8, lockedUntil: expect.any(String) }]);
+  });
+
+  it('signs out a locked screen once its password is locked out', async () => {
+    rememberKey('u1', await createDataKey());
+    useAppStore.setState({
+      vaults: [{ id: 'u1', email: 'ada@example.com', key: envelope }],
+      users: [{ ...user(), passwordHash: await hashPassword('right password', 1000) }],
+      currentUserId: 'u1',
+      session: { ...createSession('u1'), lockedAt: new Date().toISOString() },
+      signInAttempts: [{ id: 'a1', email: 'ada@example.com', failures: 7, lastFailedAt: ago(60) }],
+    });
+
+    await expect(useAppStore.getState().unlockWithPassword('wrong')).rejects.toThrow('Too many failed sign-ins.');
+    await settle();
+
+    expect(useAppStore.getState().session).toBeUndefined();
+    expect(useAppStore.getState().transactions).toEqual([]);
+    await expect(useAppStore.getState().unlockWithPassword('right password')).rejects.toThrow(
+      'Your session has ended. Sign in again.',
+    );
+    useAppStore.setState({ vaults: [] });
+    await settle();
+  });
+});
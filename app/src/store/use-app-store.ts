@@ -3,8 +3,95 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import { nanoid } from 'nanoid';
-import { addMonths } from 'date-fns';
+import { format } from 'date-fns';
 import { generateImportedTransactions } from '@/utils/imports';
+import { assertSplitsBalance, reassignCategory } from '@/utils/splits';
+import { categoryNames, isCategoryLocked, sameCategoryName } from '@/utils/categories';
+import { assertCapability, assertWithinLimit, can } from '@/utils/entitlements';
+import { type BillingEvent, PREMIUM_PRICE, dueBillingAction, transition } from '@/utils/billing';
+import { getPaymentProvider } from '@/utils/payments';
+import { getMailer } from '@/utils/mailer';
+import { generateRecoveryCodes, hashRecoveryCode, matchTotp, redeemCode } from '@/utils/totp';
+import {
+  lockedUntil,
+  pruneAttempts,
+  recordFailure,
+  retryDelaySeconds,
+  secondsUntilRetry,
+} from '@/utils/sign-in-throttle';
+import {
+  MAX_PIN_ATTEMPTS,
+  PIN_PATTERN,
+  createSession,
+  isSessionExpired,
+  isSessionIdle,
+  isSessionRevoked,
+  pinAttemptsLeft,
+  shouldRecordActivity,
+} from '@/utils/session';
+import {
+  type EmailVerification,
+  assertEmailVerified,
+  readVerificationToken,
+  resendCooldown,
+  signVerificationToken,
+  verificationLink,
+  verificationMail,
+  verifyVerificationToken,
+} from '@/utils/email-verification';
+import {
+  findResetToken,
+  isResetTokenExpired,
+  resetLink,
+  resetMail,
+  resetTokenExpiry,
+} from '@/utils/password-reset';
+import { dueOccurrences, occurrenceSplits, todayKey } from '@/utils/recurrence';
+import { isExpired } from '@/utils/trash';
+import { collectAuditEntries } from '@/utils/audit';
+import { normalizeTags } from '@/utils/tags';
+import { cleanPayeeName, matchPayee, payeeKey, payeeKeys } from '@/utils/payees';
+import { assertMinorUnits } from '@/utils/money';
+import {
+  type KeyEnvelope,
+  createDataKey,
+  hashPassword,
+  digestHex,
+  needsRehash,
+  randomToken,
+  unwrapDataKey,
+  verifyPassword,
+  wrapDataKey,
+} from '@/utils/crypto';
+import { type Partition, mergePartition, partitionReceiptIds, splitPartition } from '@/utils/vault';
+import { type ExchangeRateInput, validateExchangeRate } from '@/utils/exchange-rates';
+import { STORE_VERSION, migratePersistedState } from '@/store/migrations';
+import { STORAGE_KEY, clearBackups, deleteReceiptBlob, listReceiptBlobIds, writeBackup } from '@/store/storage';
+import {
+  heldPartition,
+  holdPartition,
+  lockPartition,
+  lockedReceiptIds,
+  openPartition,
+  readStoredRecords,
+  releasePartition,
+  rememberKey,
+  sealReceiptBlobs,
+  storeReceiptBlob,
+  unlockedKey,
+  vaultStorage,
+  whenWritten,
+} from '@/store/vault';
+import { useHydrationStore } from '@/store/use-hydration-store';
+import {
+  type HistoryEntry,
+  type RecordPatch,
+  applyRecordPatch,
+  clearHistory,
+  diffRecords,
+  pushHistory,
+  useHistoryStore,
+} from '@/store/use-history-store';
 
 export type PlanTier = 'free' | 'premium';
 
@@ -15,10 +102,34 @@ export type UserSettings = {
   haptics: boolean;
 };
 
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled' | 'expired';
+
+/** See `utils/billing` for how a subscription moves between statuses. */
 export type Subscription = {
   tier: PlanTier;
+  status: SubscriptionStatus;
+  /** End of the current trial or paid period; the next charge is due then. */
   renewalDate?: string;
-  status: 'active' | 'past_due';
+  /** Past due only: Premium ends at this point unless a retry succeeds. */
+  graceUntil?: string;
+  /** Past due only: earliest time the failed charge is retried automatically. */
+  retryAt?: string;
+  trialUsed?: boolean;
+};
+
+export type Invoice = {
+  id: string;
+  userId: string;
+  description: string;
+  /** Integer minor units. */
+  amount: number;
+  currency: string;
+  status: 'paid' | 'failed';
+  /** Payment provider and its reference for the charge. */
+  provider: string;
+  reference?: string;
+  failureReason?: string;
+  createdAt: string;
 };
 
 export type User = {
@@ -26,46 +137,292 @@ export type User = {
   email: string;
   name: string;
   passwordHash: string;
+  /** Hash of the PIN that unlocks the lock screen, when one is set. */
+  pinHash?: string;
+  twoFactor?: TwoFactor;
   createdAt: string;
   subscription: Subscription;
   settings: UserSettings;
-  categories: string[];
+};
+
+/**
+ * TOTP second factor (RFC 6238). It sits in the user's sealed records, so it
+ * can only be read once the password has unlocked them.
+ */
+export type TwoFactor = {
+  /** Base32 shared secret. */
+  secret: string;
+  enabledAt: string;
+  /** Hashes of the recovery codes not used yet. */
+  recoveryCodeHashes: string[];
+  /** Last time step accepted, so a code can't be used twice. */
+  lastCounter: number;
+};
+
+export type SignInResult =
+  | { status: 'signed_in'; user: User }
+  | { status: 'two_factor_required'; email: string };
+
+/**
+ * The public sign-in entry for an account, one per user and sharing its id.
+ * Everything else the user owns is stored encrypted under the data key in
+ * `key`; accounts from before encryption have no key until their next sign-in.
+ * Email verification lives here too, so a link can be redeemed while locked.
+ */
+export type Vault = {
+  id: string;
+  email: string;
+  key?: KeyEnvelope;
+  /** Unset while the address is pending verification. */
+  emailVerifiedAt?: string;
+  verification?: EmailVerification;
+  /** Set by a password reset; sessions and sign-ins begun earlier are ended. */
+  sessionsRevokedAt?: string;
+};
+
+/**
+ * The signed-in user's session. It is kept in memory and shared between tabs,
+ * never persisted: after a reload the data key is gone and everyone signs in again.
+ */
+export type Session = {
+  userId: string;
+  startedAt: string;
+  /** Absolute end, however active the user is. */
+  expiresAt: string;
+  lastActiveAt: string;
+  /** Set while the lock screen is up. */
+  lockedAt?: string;
+  failedPinAttempts: number;
+};
+
+/** A pending password reset. Only the token's hash is kept, so a stored entry can't be redeemed. */
+export type PasswordResetToken = {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+/** Recent failed sign-ins for one address, known or not, so guessing is slowed for both. */
+export type SignInAttempt = {
+  id: string;
+  email: string;
+  failures: number;
+  lastFailedAt: string;
+  lockedUntil?: string;
+};
+
+export type SecurityEventType =
+  | 'sign_in'
+  | 'sign_in_failed'
+  | 'two_factor_failed'
+  | 'lockout'
+  | 'password_reset'
+  | 'two_factor_enabled'
+  | 'two_factor_disabled'
+  | 'recovery_code_used';
+
+/**
+ * An entry in a user's security activity. These are recorded while the
+ * account is locked too, so unlike the rest of the user's records they are
+ * never sealed.
+ */
+export type SecurityEvent = {
+  id: string;
+  userId: string;
+  type: SecurityEventType;
+  createdAt: string;
 };
 
 export type Receipt = {
   id: string;
   fileName: string;
-  dataUrl: string;
+  mimeType: string;
+  size: number;
   uploadedAt: string;
 };
 
-export type TransactionSource = 'manual' | 'imported';
+export type TransactionSource = 'manual' | 'imported' | 'recurring';
+
+export type TransactionType = 'income' | 'expense' | 'transfer';
+
+export type AccountKind = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export type Account = {
+  id: string;
+  userId: string;
+  name: string;
+  kind: AccountKind;
+  currency: string;
+  /** Integer minor units in the account currency. */
+  openingBalance: number;
+  createdAt: string;
+};
 
-export type TransactionType = 'income' | 'expense';
+export type Category = {
+  id: string;
+  userId: string;
+  /** Unique per user, ignoring case. Transactions and budgets store this name. */
+  name: string;
+  /** Set on subcategories; a subcategory cannot have subcategories of its own. */
+  parentId?: string;
+  /** Hidden from pickers but kept so existing records still resolve. */
+  archived?: boolean;
+  /** Plan the category belongs to; premium categories turn read-only on the Free plan. */
+  tier?: PlanTier;
+  createdAt: string;
+};
+
+export type TransactionSplit = {
+  category: string;
+  /** Integer minor units in the parent transaction's currency. */
+  amount: number;
+};
+
+export type Payee = {
+  id: string;
+  userId: string;
+  /** Unique per user once normalized with `payeeKey`, together with the aliases. */
+  name: string;
+  /** Other spellings that resolve to this payee, e.g. how a bank feed writes it. */
+  aliases: string[];
+  /** Category name preselected for new transactions with this payee. */
+  defaultCategory?: string;
+  createdAt: string;
+};
 
 export type Transaction = {
   id: string;
   userId: string;
   type: TransactionType;
   category: string;
+  /** Integer minor units, e.g. cents. See `utils/money`. */
   amount: number;
+  currency: string;
+  accountId: string;
+  /** Destination account; set only for transfers. */
+  toAccountId?: string;
+  /** Two or more category lines summing to `amount`; `category` mirrors the first. */
+  splits?: TransactionSplit[];
+  /** Set on transactions materialized from a recurring template. */
+  recurringId?: string;
+  occurrenceDate?: string;
   date: string;
+  payeeId?: string;
   notes?: string;
+  /** Free-form labels such as `vacation-2026`, normalized by `utils/tags`. */
+  tags?: string[];
   receiptId?: string;
   source: TransactionSource;
   createdAt: string;
 };
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'last_business_day' | 'yearly';
+
+export type RecurrenceEnd =
+  | { type: 'never' }
+  | { type: 'on'; date: string }
+  | { type: 'after'; count: number };
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  /** Every N days/weeks/months/years. */
+  interval: number;
+  end: RecurrenceEnd;
+};
+
+/** A per-date change to one occurrence, keyed by its scheduled yyyy-MM-dd. */
+export type RecurrenceException = {
+  skipped?: boolean;
+  amount?: number;
+  notes?: string;
+};
+
+export type RecurringTemplate = {
+  id: string;
+  userId: string;
+  type: TransactionType;
+  category: string;
+  amount: number;
+  currency: string;
+  accountId: string;
+  toAccountId?: string;
+  splits?: TransactionSplit[];
+  payeeId?: string;
+  notes?: string;
+  tags?: string[];
+  rule: RecurrenceRule;
+  /** yyyy-MM-dd of the first occurrence; weekly and monthly rules repeat its weekday or day. */
+  startDate: string;
+  /** Last day the engine has materialized; occurrences on or before it are done. */
+  generatedThrough?: string;
+  exceptions?: Record<string, RecurrenceException>;
+  createdAt: string;
+};
+
 export type Budget = {
   id: string;
   userId: string;
   category: string;
+  /** Integer minor units, e.g. cents. See `utils/money`. */
   limit: number;
+  currency: string;
   createdAt: string;
   rollover?: boolean;
   alertThreshold?: number;
 };
 
+/**
+ * A soft-deleted record. It keeps the record exactly as it was so a restore
+ * puts it back unchanged; items are purged `TRASH_RETENTION_DAYS` after deletion.
+ */
+export type TrashItem = {
+  id: string;
+  userId: string;
+  deletedAt: string;
+} & (
+  | { kind: 'transaction'; record: Transaction }
+  | { kind: 'budget'; record: Budget }
+  | { kind: 'receipt'; record: Receipt; transactionId?: string }
+  | { kind: 'category'; record: Category }
+  | { kind: 'payee'; record: Payee }
+);
+
+export type AuditEntity = 'transaction' | 'budget' | 'category' | 'settings' | 'subscription';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export type AuditSource = 'manual' | 'import' | 'rule' | 'recurring';
+
+export type AuditEntry = {
+  id: string;
+  /** Owner of the changed record. */
+  userId: string;
+  /** Signed-in user when the change happened. */
+  actorId?: string;
+  entity: AuditEntity;
+  /** Record id; the user id for settings and subscription. */
+  entityId: string;
+  action: AuditAction;
+  source: AuditSource;
+  changes: Record<string, { before?: unknown; after?: unknown }>;
+  at: string;
+};
+
+export type ExchangeRate = {
+  id: string;
+  userId: string;
+  base: string;
+  quote: string;
+  /** Units of `quote` for one unit of `base`. */
+  rate: number;
+  /** Day the rate applies from, as `yyyy-MM-dd`. */
+  date: string;
+  source: 'manual' | 'import';
+  createdAt: string;
+};
+
 export type AnalyticsLog = {
   id: string;
   userId: string;
@@ -74,35 +431,126 @@ export type AnalyticsLog = {
 };
 
 type AppState = {
+  vaults: Vault[];
   users: User[];
   receipts: Receipt[];
+  accounts: Account[];
+  categories: Category[];
+  payees: Payee[];
   transactions: Transaction[];
   budgets: Budget[];
+  recurring: RecurringTemplate[];
+  trash: TrashItem[];
+  audit: AuditEntry[];
+  invoices: Invoice[];
+  exchangeRates: ExchangeRate[];
   analyticsLog: AnalyticsLog[];
+  resetTokens: PasswordResetToken[];
+  signInAttempts: SignInAttempt[];
+  securityEvents: SecurityEvent[];
   currentUserId?: string;
+  session?: Session;
 };
 
 type AppActions = {
-  signUp: (args: { email: string; name: string; passwordHash: string }) => string;
-  signIn: (args: { email: string; passwordHash: string }) => User;
+  /** Signs the new user in with their address pending and emails a verification link. */
+  signUp: (args: { email: string; name: string; password: string; origin: string }) => Promise<string>;
+  /**
+   * Wrong passwords slow down further attempts for the address and eventually
+   * lock it for a while. Accounts with two-factor sign-in stop after the
+   * password and finish in `completeTwoFactor`.
+   */
+  signIn: (args: { email: string; password: string }) => Promise<SignInResult>;
+  /** Accepts a code from the authenticator app or an unused recovery code. */
+  completeTwoFactor: (code: string, now?: Date) => Promise<User>;
+  cancelTwoFactor: () => void;
   signOut: () => void;
-  resetPassword: (args: { email: string; newPasswordHash: string }) => void;
+  /** Records user activity, at most once a minute, to keep an idle lock away. */
+  touchSession: (now?: Date) => void;
+  /** Signs out once the session has expired and locks it once it has been idle too long. */
+  enforceSession: (now?: Date) => void;
+  lockApp: () => void;
+  /** Throws on a wrong PIN; after too many, only `unlockWithPassword` works. */
+  unlockWithPin: (pin: string) => Promise<void>;
+  unlockWithPassword: (password: string) => Promise<void>;
+  /** Sets the lock screen PIN, or removes it when `pin` is undefined. */
+  setUnlockPin: (userId: string, pin?: string) => Promise<void>;
+  /** Turns on two-factor sign-in once `code` proves the app has `secret`; returns the recovery codes. */
+  enableTwoFactor: (userId: string, args: { secret: string; code: string; now?: Date }) => Promise<string[]>;
+  /** Both take a current code or a recovery code. */
+  disableTwoFactor: (userId: string, code: string, now?: Date) => Promise<void>;
+  regenerateRecoveryCodes: (userId: string, code: string, now?: Date) => Promise<string[]>;
+  /** Emails a single-use reset link; does nothing, without saying so, for unknown addresses. */
+  requestPasswordReset: (args: { email: string; origin: string }) => Promise<void>;
+  /**
+   * Redeems a reset link. Without `currentPassword` an encrypted account that
+   * isn't unlocked in this tab can't be decrypted, so it starts over empty.
+   */
+  resetPassword: (args: { token: string; newPassword: string; currentPassword?: string }) => Promise<void>;
+  /** Throws while the previous link is inside its cooldown. */
+  resendVerification: (userId: string, origin: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  addAccount: (args: Omit<Account, 'id' | 'createdAt'>) => Account;
+  updateAccount: (id: string, updates: Partial<Omit<Account, 'id' | 'userId' | 'createdAt'>>) => void;
+  removeAccount: (id: string) => void;
+  /** `payee` is a name, matched against existing payees and aliases or created. */
   addTransaction: (
-    args: Omit<Transaction, 'id' | 'createdAt' | 'source'> & { source?: TransactionSource },
+    args: Omit<Transaction, 'id' | 'createdAt' | 'source'> & { source?: TransactionSource; payee?: string },
   ) => Transaction;
   updateTransaction: (id: string, updates: Partial<Omit<Transaction, 'id' | 'userId'>>) => void;
   removeTransaction: (id: string) => void;
-  addReceipt: (args: Omit<Receipt, 'id' | 'uploadedAt'>) => Receipt;
+  addRecurring: (
+    args: Omit<RecurringTemplate, 'id' | 'createdAt' | 'generatedThrough' | 'exceptions'> & { payee?: string },
+  ) => RecurringTemplate;
+  removeRecurring: (id: string) => void;
+  skipOccurrence: (templateId: string, date: string) => void;
+  editOccurrence: (templateId: string, date: string, changes: Omit<RecurrenceException, 'skipped'>) => void;
+  resetOccurrence: (templateId: string, date: string) => void;
+  materializeRecurring: (userId: string, today?: string) => Transaction[];
+  addReceipt: (args: { fileName: string; blob: Blob }) => Promise<Receipt>;
   removeReceipt: (id: string) => void;
+  /** Permanently drops a receipt that was never attached, e.g. after a failed save. */
+  discardReceipt: (id: string) => void;
   upsertBudget: (
     args: Omit<Budget, 'id' | 'createdAt'> & { id?: string },
   ) => Budget;
   removeBudget: (id: string) => void;
-  upgradeToPremium: (userId: string) => void;
-  downgradeToFree: (userId: string) => void;
-  addCustomCategory: (userId: string, category: string) => void;
+  startTrial: (userId: string) => void;
+  /** Charges the first period through the payment provider; throws if the charge fails. */
+  upgradeToPremium: (userId: string) => Promise<Invoice>;
+  cancelSubscription: (userId: string) => void;
+  resumeSubscription: (userId: string) => void;
+  retryPayment: (userId: string) => Promise<Invoice>;
+  /** Runs whatever renewal, retry or expiry is due for the user at `now`. */
+  processBilling: (userId: string, now?: Date) => Promise<void>;
+  addCategory: (args: { userId: string; name: string; parentId?: string }) => Category;
+  renameCategory: (id: string, name: string) => void;
+  moveCategory: (id: string, parentId?: string) => void;
+  /** Files everything in the source category under the target and deletes the source. */
+  mergeCategory: (sourceId: string, targetId: string) => void;
+  archiveCategory: (id: string) => void;
+  unarchiveCategory: (id: string) => void;
+  removeCategory: (id: string) => void;
+  addPayee: (args: { userId: string; name: string; defaultCategory?: string }) => Payee;
+  /** Renaming keeps the old name as an alias so existing feeds still match. */
+  updatePayee: (id: string, updates: { name?: string; defaultCategory?: string }) => void;
+  addPayeeAlias: (id: string, alias: string) => void;
+  removePayeeAlias: (id: string, alias: string) => void;
+  mergePayee: (sourceId: string, targetId: string) => void;
+  removePayee: (id: string) => void;
+  restoreFromTrash: (id: string) => void;
+  purgeFromTrash: (id: string) => void;
+  emptyTrash: (userId: string) => void;
+  purgeExpiredTrash: (now?: Date) => void;
+  upsertExchangeRate: (
+    args: ExchangeRateInput & { id?: string; userId: string },
+  ) => ExchangeRate;
+  removeExchangeRate: (id: string) => void;
+  importExchangeRates: (userId: string, rates: ExchangeRateInput[]) => number;
   importTransactions: (userId: string) => Transaction[];
   updateSettings: (userId: string, settings: Partial<UserSettings>) => void;
+  undo: () => void;
+  redo: () => void;
   sendAnalyticsEmail: (userId: string, period: 'weekly' | 'monthly') => AnalyticsLog;
 };
 
@@ -118,102 +566,1317 @@ const DEFAULT_CATEGORIES = [
   'Savings',
 ];
 
-const selectUserByEmail = (users: User[], email: string) =>
-  users.find(
-    (user) => user.email.trim().toLowerCase() === email.trim().toLowerCase(),
+export const TRANSFER_CATEGORY = 'Transfer';
+
+const FREE_CATEGORIES = DEFAULT_CATEGORIES.slice(0, 6);
+
+const createCategories = (userId: string, names: string[], tier?: PlanTier): Category[] => {
+  const createdAt = new Date().toISOString();
+  return names.map((name) => ({ id: nanoid(), userId, name, tier, createdAt }));
+};
+
+// Premium categories stay on the Free plan with their history, but cannot be
+// changed until the owner upgrades again.
+function assertCategoryEditable(users: User[], category: Category) {
+  const tier = users.find((user) => user.id === category.userId)?.subscription.tier ?? 'free';
+  if (isCategoryLocked(category, tier)) {
+    throw new Error(`${category.name} is a Premium category. Upgrade to Premium to change it.`);
+  }
+}
+
+// Looks up a category for an edit, refusing ones the owner's plan has locked.
+function editableCategory(state: Pick<AppState, 'users' | 'categories'>, id: string) {
+  const category = state.categories.find((candidate) => candidate.id === id);
+  if (!category) {
+    throw new Error('Category not found.');
+  }
+  assertCategoryEditable(state.users, category);
+  return category;
+}
+
+// Records filed under a locked category keep it, but can't be changed until
+// the owner upgrades again.
+function assertCategoriesUnlocked(state: Pick<AppState, 'users' | 'categories'>, userId: string, names: string[]) {
+  names.forEach((name) => {
+    const category = state.categories.find(
+      (candidate) => candidate.userId === userId && sameCategoryName(candidate.name, name),
+    );
+    if (category) assertCategoryEditable(state.users, category);
+  });
+}
+
+// New records can only be filed under the owner's current, unlocked categories.
+function assertCategoriesAvailable(state: Pick<AppState, 'users' | 'categories'>, userId: string, names: string[]) {
+  assertCategoriesUnlocked(state, userId, names);
+  const owner = state.users.find((user) => user.id === userId);
+  const available = owner ? categoryNames(state.categories, owner) : [];
+  const unknown = names.find((name) => !available.some((candidate) => sameCategoryName(candidate, name)));
+  if (unknown !== undefined) {
+    throw new Error(`${unknown} is not one of your categories.`);
+  }
+}
+
+// The categories a transaction is filed under: its split lines, or its one category.
+const transactionCategories = ({ type, category, splits }: Pick<Transaction, 'type' | 'category' | 'splits'>) =>
+  type === 'transfer' ? [] : splits && splits.length > 0 ? splits.map((line) => line.category) : [category];
+
+const withoutNames = (names: string[], existing: string[]) =>
+  names.filter((name) => !existing.some((candidate) => sameCategoryName(candidate, name)));
+
+function assertCategoryName(categories: Category[], userId: string, name: string, id?: string) {
+  if (!name) {
+    throw new Error('Category name cannot be empty.');
+  }
+  if (sameCategoryName(name, TRANSFER_CATEGORY)) {
+    throw new Error(`${TRANSFER_CATEGORY} is reserved for moves between accounts.`);
+  }
+  const taken = categories.some(
+    (category) => category.userId === userId && category.id !== id && sameCategoryName(category.name, name),
   );
+  if (taken) {
+    throw new Error(`A category named ${name} already exists.`);
+  }
+}
+
+function assertCategoryParent(
+  categories: Category[],
+  { id, userId }: { id?: string; userId: string },
+  parentId?: string,
+) {
+  if (!parentId) return;
+  const parent = categories.find((category) => category.id === parentId && category.userId === userId);
+  if (!parent) {
+    throw new Error('Choose a parent category.');
+  }
+  if (parent.id === id) {
+    throw new Error('A category cannot be its own parent.');
+  }
+  if (parent.parentId) {
+    throw new Error('Subcategories cannot have subcategories of their own.');
+  }
+  if (id && categories.some((category) => category.parentId === id)) {
+    throw new Error('A category with subcategories cannot become a subcategory.');
+  }
+}
+
+const usesCategory = (state: AppState, { userId, name }: Category) =>
+  [...state.transactions, ...state.recurring].some(
+    (record) =>
+      record.userId === userId &&
+      (record.category === name || Boolean(record.splits?.some((line) => line.category === name))),
+  ) ||
+  state.budgets.some((budget) => budget.userId === userId && budget.category === name) ||
+  state.payees.some((payee) => payee.userId === userId && payee.defaultCategory === name);
+
+// Points a user's transactions, schedules and budgets at a renamed or merged
+// category, including trashed ones so a restore lands under the new name.
+function reassignRecords(state: AppState, userId: string, from: string, to: string) {
+  const owned = <T extends { userId: string }>(update: (record: T) => T) => (record: T) =>
+    record.userId === userId ? update(record) : record;
+  const reassignBudget = (budget: Budget) => (budget.category === from ? { ...budget, category: to } : budget);
+  const reassignPayee = (payee: Payee) =>
+    payee.defaultCategory === from ? { ...payee, defaultCategory: to } : payee;
+
+  return {
+    transactions: state.transactions.map(owned((transaction) => reassignCategory(transaction, from, to))),
+    recurring: state.recurring.map(owned((template) => reassignCategory(template, from, to))),
+    budgets: state.budgets.map(owned(reassignBudget)),
+    payees: state.payees.map(owned(reassignPayee)),
+    trash: state.trash.map(
+      owned((item): TrashItem => {
+        if (item.kind === 'transaction') {
+          const record = reassignCategory(item.record, from, to);
+          return record === item.record ? item : { ...item, record };
+        }
+        if (item.kind === 'budget') {
+          const record = reassignBudget(item.record);
+          return record === item.record ? item : { ...item, record };
+        }
+        if (item.kind === 'payee') {
+          const record = reassignPayee(item.record);
+          return record === item.record ? item : { ...item, record };
+        }
+        return item;
+      }),
+    ),
+  };
+}
+
+// A merge can leave one category with several budgets. Same-currency budgets
+// are folded into the first one so the limits add up instead of competing.
+function foldBudgets(budgets: Budget[], userId: string, category: string) {
+  const matching = budgets.filter((budget) => budget.userId === userId && budget.category === category);
+  const byCurrency = new Map<string, Budget>();
+  matching.forEach((budget) => {
+    const existing = byCurrency.get(budget.currency);
+    byCurrency.set(budget.currency, existing ? { ...existing, limit: existing.limit + budget.limit } : budget);
+  });
+  return budgets.flatMap((budget) => {
+    if (!matching.includes(budget)) return [budget];
+    const folded = byCurrency.get(budget.currency)!;
+    return folded.id === budget.id ? [folded] : [];
+  });
+}
+
+// Names and aliases share one namespace per user, so any spelling resolves to
+// exactly one payee.
+function assertPayeeName(payees: Payee[], userId: string, name: string, id?: string) {
+  if (!payeeKey(name)) {
+    throw new Error('Payee name cannot be empty.');
+  }
+  const taken = payees.find(
+    (payee) => payee.userId === userId && payee.id !== id && payeeKeys(payee).includes(payeeKey(name)),
+  );
+  if (taken) {
+    throw new Error(`${name} already belongs to ${taken.name}.`);
+  }
+}
+
+// Finds the payee a typed or imported name refers to, creating one for new names.
+function resolvePayee(payees: Payee[], userId: string, name: string) {
+  const existing = matchPayee(payees, userId, name);
+  if (existing) return { payee: existing, created: undefined };
+  const payee: Payee = {
+    id: nanoid(),
+    userId,
+    name: cleanPayeeName(name),
+    aliases: [],
+    createdAt: new Date().toISOString(),
+  };
+  assertPayeeName(payees, userId, payee.name);
+  return { payee, created: payee };
+}
+
+// Points transactions and schedules at another payee, including trashed
+// transactions so a restore keeps its payee.
+function reassignPayee(state: AppState, from: string, to: string) {
+  const move = <T extends { payeeId?: string }>(record: T) =>
+    record.payeeId === from ? { ...record, payeeId: to } : record;
+  return {
+    transactions: state.transactions.map(move),
+    recurring: state.recurring.map(move),
+    trash: state.trash.map(
+      (item): TrashItem => (item.kind === 'transaction' ? { ...item, record: move(item.record) } : item),
+    ),
+  };
+}
+
+const usesPayee = (state: AppState, id: string) =>
+  [...state.transactions, ...state.recurring].some((record) => record.payeeId === id) ||
+  state.trash.some((item) => item.kind === 'transaction' && item.record.payeeId === id);
+
+const createDefaultAccount = (userId: string, currency: string): Account => ({
+  id: nanoid(),
+  userId,
+  name: 'Everyday account',
+  kind: 'checking',
+  currency,
+  openingBalance: 0,
+  createdAt: new Date().toISOString(),
+});
+
+function assertTransactionAccounts(
+  accounts: Account[],
+  { userId, type, accountId, toAccountId }: Pick<Transaction, 'userId' | 'type' | 'accountId' | 'toAccountId'>,
+) {
+  const owns = (id?: string) => accounts.some((account) => account.id === id && account.userId === userId);
+  if (!owns(accountId)) {
+    throw new Error('Choose an account for this transaction.');
+  }
+  if (type === 'transfer') {
+    if (!owns(toAccountId)) {
+      throw new Error('Choose the account the money moves to.');
+    }
+    if (toAccountId === accountId) {
+      throw new Error('A transfer needs two different accounts.');
+    }
+  } else if (toAccountId) {
+    throw new Error('Only transfers can have a destination account.');
+  }
+}
+
+// Drops single-line splits, checks the lines add up and keeps `category`
+// pointing at the first line so code that reads one category stays correct.
+function normalizeSplits<T extends Pick<Transaction, 'type' | 'category' | 'amount' | 'splits'>>(
+  transaction: T,
+): T {
+  const { splits } = transaction;
+  if (!splits || splits.length < 2) {
+    return { ...transaction, splits: undefined, category: splits?.[0]?.category ?? transaction.category };
+  }
+  if (transaction.type === 'transfer') {
+    throw new Error('Transfers cannot be split across categories.');
+  }
+  assertSplitsBalance(transaction.amount, splits);
+  return { ...transaction, category: splits[0].category };
+}
+
+// Slices an undo can restore. Session and analytics state are left out on purpose.
+const HISTORY_KEYS = [
+  'users',
+  'receipts',
+  'accounts',
+  'categories',
+  'payees',
+  'transactions',
+  'budgets',
+  'recurring',
+  'trash',
+  'exchangeRates',
+] as const;
+
+type HistoryKey = (typeof HISTORY_KEYS)[number];
+
+// Undoes (from `after`) or redoes (from `before`) an entry's record changes.
+const patchState = (state: AppState, entry: HistoryEntry, from: 'before' | 'after') =>
+  Object.fromEntries(
+    Object.entries(entry.changes).map(([key, patch]) => [
+      key,
+      applyRecordPatch(state[key as HistoryKey] as { id: string }[], patch, from),
+    ]),
+  ) as Partial<AppState>;
+
+// Receipt blobs stay in IndexedDB while any undo or redo could bring their
+// transaction back, and are only deleted once the last entry mentioning them
+// is gone.
+const receiptIdsIn = (entries: HistoryEntry[]) =>
+  entries.flatMap(({ changes: { receipts, trash } }) => [
+    ...[...(receipts?.before ?? []), ...(receipts?.after ?? [])].map((receipt) => receipt.id),
+    ...([...(trash?.before ?? []), ...(trash?.after ?? [])] as TrashItem[]).flatMap((item) =>
+      item.kind === 'receipt' ? [item.record.id] : [],
+    ),
+  ]);
+
+function deleteUnreachableBlobs(candidates: string[]) {
+  const { receipts, trash } = useAppStore.getState();
+  const { past, future } = useHistoryStore.getState();
+  const reachable = new Set([
+    ...receipts.map((receipt) => receipt.id),
+    ...trash.flatMap((item) => (item.kind === 'receipt' ? [item.record.id] : [])),
+    ...receiptIdsIn([...past, ...future]),
+  ]);
+  new Set(candidates).forEach((id) => {
+    if (!reachable.has(id)) void deleteReceiptBlob(id);
+  });
+}
+
+function releaseReceipts(dropped: HistoryEntry[]) {
+  if (dropped.length === 0) return;
+  deleteUnreachableBlobs(receiptIdsIn(dropped));
+}
 
-const STORAGE_KEY = 'aurora-finance-state';
+const AUDIT_LIMIT = 5000;
 
-const storage =
-  typeof window !== 'undefined'
-    ? createJSONStorage<AppState>(() => window.localStorage)
-    : createJSONStorage<AppState>(() => ({
-        getItem: () => null,
-        setItem: () => {},
-        removeItem: () => {},
-      }));
+function appendAudit(before: AppState, after: AppState, source: AuditSource) {
+  const entries = collectAuditEntries(before, after, source);
+  if (entries.length === 0) return;
+  useAppStore.setState((state) => ({
+    audit: [...state.audit, ...entries].slice(-AUDIT_LIMIT),
+  }));
+}
+
+// Wraps an action so every record it creates, changes or deletes lands in the
+// audit trail with the given source.
+function audited<Args extends unknown[], Result>(
+  run: (...args: Args) => Result,
+  source: AuditSource = 'manual',
+) {
+  return (...args: Args): Result => {
+    const before = useAppStore.getState();
+    const result = run(...args);
+    appendAudit(before, useAppStore.getState(), source);
+    return result;
+  };
+}
+
+// Moves a user's subscription through the billing state machine. Starting
+// Premium seeds the premium categories; lapsing leaves all data in place and
+// only locks what the Free plan does not include.
+function moveSubscription(userId: string, event: BillingEvent, now: Date = new Date(), invoice?: Invoice) {
+  const { users, categories } = useAppStore.getState();
+  const user = users.find((candidate) => candidate.id === userId);
+  if (!user) {
+    throw new Error('User not found.');
+  }
+  const subscription = transition(user.subscription, event, now);
+  const starting = subscription.tier === 'premium' && user.subscription.tier !== 'premium';
+
+  useAppStore.setState((state) => ({
+    users: state.users.map((candidate) => (candidate.id === userId ? { ...candidate, subscription } : candidate)),
+    categories: starting
+      ? [
+          ...categories,
+          ...createCategories(
+            userId,
+            DEFAULT_CATEGORIES.filter(
+              (name) =>
+                !categories.some(
+                  (category) => category.userId === userId && sameCategoryName(category.name, name),
+                ),
+            ),
+            'premium',
+          ),
+        ]
+      : state.categories,
+    invoices: invoice ? [invoice, ...state.invoices] : state.invoices,
+  }));
+}
+
+const applyBillingEvent = audited(moveSubscription);
+// Renewals and expiries the billing engine settles on its own schedule.
+const applyBillingRule = audited(moveSubscription, 'rule');
+
+async function chargePremium(userId: string, now: Date, idempotencyKey: string): Promise<Invoice> {
+  const provider = getPaymentProvider();
+  const description = `Aurora Premium · ${format(now, 'MMMM yyyy')}`;
+  const result = await provider.charge({ userId, ...PREMIUM_PRICE, description, idempotencyKey });
+  return {
+    id: nanoid(),
+    userId,
+    description,
+    ...PREMIUM_PRICE,
+    status: result.status === 'succeeded' ? 'paid' : 'failed',
+    provider: provider.name,
+    reference: result.status === 'succeeded' ? result.reference : undefined,
+    failureReason: result.status === 'failed' ? result.reason : undefined,
+    createdAt: now.toISOString(),
+  };
+}
+
+// Users whose billing this tab is settling, so the engine doesn't queue behind itself.
+const billingInFlight = new Set<string>();
+
+// Each tab runs its own billing engine over the same records. The Web Locks
+// API lets only one of them settle a user's bill at a time, and the lock is
+// held until the outcome is written so the next tab reads it. This tab's own
+// pending writes land first, so storage only disagrees with memory when
+// another tab has moved on. Without the API, the provider's idempotency key
+// still stops a second payment.
+async function withBillingLock<T>(userId: string, run: () => Promise<T>) {
+  billingInFlight.add(userId);
+  try {
+    const settle = async () => {
+      await whenWritten();
+      const result = await run();
+      await whenWritten();
+      return result;
+    };
+    return typeof navigator !== 'undefined' && navigator.locks
+      ? await navigator.locks.request(`${STORAGE_KEY}:billing:${userId}`, settle)
+      : await settle();
+  } finally {
+    billingInFlight.delete(userId);
+  }
+}
+
+// The subscription, if both this tab and storage still agree it needs `due`.
+// Another tab may have settled and written the bill while this one waited for
+// the lock, before sync caught this tab up.
+async function pendingSubscription(
+  userId: string,
+  due: (subscription: Subscription) => boolean,
+): Promise<Subscription | undefined> {
+  const current = useAppStore.getState().users.find((user) => user.id === userId)?.subscription;
+  const stored = ((await readStoredRecords()).users as User[] | undefined)?.find(
+    (user) => user.id === userId,
+  )?.subscription;
+  return current && due(current) && (!stored || due(stored)) ? current : undefined;
+}
+
+// A renewal or retry pays for one period, so it is keyed by the date it fell due.
+const renewalKey = (userId: string, subscription: Subscription) =>
+  subscription.status === 'past_due'
+    ? `${userId}:retry:${subscription.retryAt}`
+    : `${userId}:renewal:${subscription.renewalDate}`;
+
+async function settleRenewal(
+  userId: string,
+  subscription: Subscription,
+  now: Date,
+  apply = applyBillingEvent,
+): Promise<Invoice> {
+  const invoice = await chargePremium(userId, now, renewalKey(userId, subscription));
+  apply(
+    userId,
+    { type: invoice.status === 'paid' ? 'payment_succeeded' : 'payment_failed' },
+    now,
+    invoice,
+  );
+  return invoice;
+}
+
+// Like `audited`, and also pushes an undo entry for the records it changed.
+function recorded<Args extends unknown[], Result>(
+  label: string | ((result: Result) => string),
+  run: (...args: Args) => Result,
+  { destructive = false, source = 'manual' as AuditSource } = {},
+) {
+  return (...args: Args): Result => {
+    const before = useAppStore.getState();
+    const result = run(...args);
+    const after = useAppStore.getState();
+    appendAudit(before, after, source);
+    const changes: Record<string, RecordPatch> = {};
+    HISTORY_KEYS.forEach((key) => {
+      const patch = diffRecords(before[key], after[key]);
+      if (patch) changes[key] = patch;
+    });
+    if (Object.keys(changes).length > 0) {
+      releaseReceipts(
+        pushHistory({
+          label: typeof label === 'function' ? label(result) : label,
+          destructive,
+          changes,
+        }),
+      );
+    }
+    return result;
+  };
+}
+
+// Permanent removal. Receipts belonging to purged items go with them, and
+// their blobs are deleted unless an undo entry could still bring them back.
+function purgeTrash(items: TrashItem[]) {
+  if (items.length === 0) return;
+  const ids = new Set(items.map((item) => item.id));
+  const receiptIds = items.flatMap((item) => {
+    if (item.kind === 'receipt') return [item.record.id];
+    if (item.kind === 'transaction' && item.record.receiptId) return [item.record.receiptId];
+    return [];
+  });
+
+  useAppStore.setState((state) => ({
+    trash: state.trash.filter((item) => !ids.has(item.id)),
+    receipts: state.receipts.filter((receipt) => !receiptIds.includes(receipt.id)),
+  }));
+  deleteUnreachableBlobs(receiptIds);
+}
+
+// History is in memory only, so after a reload nothing can resurrect a receipt
+// that no transaction points at. Drop those and any blob left without metadata.
+async function sweepOrphanedReceipts() {
+  const { receipts, transactions, trash } = useAppStore.getState();
+  const attached = new Set(
+    [
+      ...transactions,
+      ...trash.flatMap((item) => (item.kind === 'transaction' ? [item.record] : [])),
+    ].map((transaction) => transaction.receiptId),
+  );
+  const kept = receipts.filter((receipt) => attached.has(receipt.id));
+  if (kept.length !== receipts.length) {
+    useAppStore.setState({ receipts: kept });
+  }
+  const keptIds = new Set([
+    ...kept.map((receipt) => receipt.id),
+    ...trash.flatMap((item) => (item.kind === 'receipt' ? [item.record.id] : [])),
+    ...(await lockedReceiptIds()),
+  ]);
+  const blobIds = await listReceiptBlobIds();
+  await Promise.all(blobIds.filter((id) => !keptIds.has(id)).map(deleteReceiptBlob));
+}
+
+const createAccountRecords = (id: string, email: string, name: string, passwordHash: string) => {
+  const user: User = {
+    id,
+    email: email.trim().toLowerCase(),
+    name: name.trim() || 'New Member',
+    passwordHash,
+    createdAt: new Date().toISOString(),
+    subscription: {
+      tier: 'free',
+      status: 'active',
+    },
+    settings: {
+      currency: 'USD',
+      notifications: true,
+      darkMode: false,
+      haptics: true,
+    },
+  };
+  return {
+    users: [user],
+    accounts: [createDefaultAccount(id, user.settings.currency)],
+    categories: createCategories(id, FREE_CATEGORIES),
+  };
+};
+
+const selectVaultByEmail = (vaults: Vault[], email: string) =>
+  vaults.find((vault) => vault.email === email.trim().toLowerCase());
+
+const SECURITY_EVENT_LIMIT = 500;
+
+function recordSecurityEvent(userId: string | undefined, type: SecurityEventType) {
+  if (!userId) return;
+  const event: SecurityEvent = { id: nanoid(), userId, type, createdAt: new Date().toISOString() };
+  useAppStore.setState((state) => ({
+    securityEvents: [event, ...state.securityEvents].slice(0, SECURITY_EVENT_LIMIT),
+  }));
+}
+
+const lockoutError = (until: Date) =>
+  new Error(`Too many failed sign-ins. Sign-in for this email is locked until ${format(until, 'p')}.`);
+
+const failureMessages = {
+  password: 'Invalid email or password.',
+  unlock: 'Incorrect password.',
+  code: 'That code is not valid.',
+};
+
+// Counts a failed sign-in against the address and returns the error to show.
+// Unknown addresses are counted the same way, so the replies don't tell them
+// apart. Wrong passwords on the lock screen and wrong second-factor codes
+// count too, or they could be guessed freely there instead.
+function failSignIn(email: string, userId?: string, step: keyof typeof failureMessages = 'password') {
+  const now = new Date();
+  const { signInAttempts } = useAppStore.getState();
+  const attempt = recordFailure(
+    signInAttempts.find((entry) => entry.email === email),
+    email,
+    nanoid(),
+    now,
+  );
+  useAppStore.setState({
+    signInAttempts: [...pruneAttempts(signInAttempts.filter((entry) => entry.id !== attempt.id), now), attempt],
+  });
+  recordSecurityEvent(userId, step === 'code' ? 'two_factor_failed' : 'sign_in_failed');
+
+  const until = lockedUntil(attempt, now);
+  if (until) {
+    recordSecurityEvent(userId, 'lockout');
+    return lockoutError(until);
+  }
+  const message = failureMessages[step];
+  const wait = retryDelaySeconds(attempt.failures);
+  return new Error(wait > 0 ? `${message} Wait ${wait} seconds before trying again.` : message);
+}
+
+function assertSignInAllowed(email: string) {
+  const attempt = useAppStore.getState().signInAttempts.find((entry) => entry.email === email);
+  const until = lockedUntil(attempt);
+  if (until) {
+    throw lockoutError(until);
+  }
+  // Refused outright without counting, so waiting is the only way forward.
+  const wait = secondsUntilRetry(attempt);
+  if (wait > 0) {
+    throw new Error(`Too many attempts. Try again in ${wait} ${wait === 1 ? 'second' : 'seconds'}.`);
+  }
+}
+
+const clearSignInAttempts = (email: string) =>
+  useAppStore.setState((state) => ({
+    signInAttempts: state.signInAttempts.filter((entry) => entry.email !== email),
+  }));
+
+const TWO_FACTOR_CHALLENGE_MINUTES = 5;
+
+// A sign-in that passed the password check, with everything it unlocked.
+type VerifiedSignIn = {
+  address: string;
+  vaultId: string;
+  key: CryptoKey;
+  envelope: KeyEnvelope;
+  partition: Partition;
+  user: User;
+};
+
+// Waiting for its second factor. Memory only, like every other data key.
+let pendingSignIn: (VerifiedSignIn & { startedAt: string; expiresAt: number }) | undefined;
+
+function completeSignIn({ address, vaultId, key, envelope, partition, user }: VerifiedSignIn) {
+  pendingSignIn = undefined;
+  endSession();
+  rememberKey(user.id, key);
+  useAppStore.setState((state) => {
+    const merged = mergePartition(state, partition) as Partial<AppState>;
+    return {
+      ...merged,
+      users: (merged.users ?? state.users).map((candidate) => (candidate.id === user.id ? user : candidate)),
+      vaults: state.vaults.map((entry) => (entry.id === vaultId ? { ...entry, key: envelope } : entry)),
+      currentUserId: user.id,
+      session: createSession(user.id),
+    };
+  });
+  releasePartition(user.id);
+  clearSignInAttempts(address);
+  recordSecurityEvent(user.id, 'sign_in');
+  useAppStore.getState().purgeExpiredTrash();
+  void sealReceiptBlobs(user.id, partitionReceiptIds(partition)).catch(() => undefined);
+  return user;
+}
+
+// For changes to an enrolled second factor, which all need a valid code
+// first. Wrong codes count against the account's sign-in throttle.
+async function redeemUserCode(userId: string, code: string, now: Date) {
+  const user = useAppStore.getState().users.find((candidate) => candidate.id === userId);
+  if (!user?.twoFactor) {
+    throw new Error('Two-factor sign-in is not turned on.');
+  }
+  const address = selectVault(userId)?.email ?? user.email;
+  assertSignInAllowed(address);
+  const redeemed = await redeemCode(user.twoFactor, code, now);
+  if (!redeemed) {
+    throw failSignIn(address, userId, 'code');
+  }
+  clearSignInAttempts(address);
+  if (redeemed.recovery) recordSecurityEvent(userId, 'recovery_code_used');
+  return redeemed.twoFactor;
+}
+
+const setTwoFactor = (userId: string, twoFactor: TwoFactor | undefined) =>
+  useAppStore.setState((state) => ({
+    users: state.users.map((user) => (user.id === userId ? { ...user, twoFactor } : user)),
+  }));
+
+async function issueRecoveryCodes() {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: await Promise.all(codes.map(hashRecoveryCode)) };
+}
+
+const selectVault = (userId: string) => useAppStore.getState().vaults.find((vault) => vault.id === userId);
+
+// Signs a fresh link with the account's secret and mails it to the address on file.
+async function sendVerification(vault: Vault, origin: string, mailer = getMailer()) {
+  if (!vault.verification) return;
+  const token = await signVerificationToken(vault.verification.secret, vault.id, vault.email);
+  await mailer.send(verificationMail(vault.email, verificationLink(origin, token)));
+}
+
+const withPasswordHash = (users: User[], userId: string, passwordHash: string) =>
+  users.map((user) => (user.id === userId ? { ...user, passwordHash } : user));
+
+// The locked user's data key, set aside until a PIN or password opens their
+// records again.
+let lockedVault: { userId: string; key: CryptoKey } | undefined;
+// Every tab swaps its own copy of the records in and out as the shared
+// session locks and unlocks, so sync leaves those swaps out.
+let swappingLockedRecords = false;
+
+export const isSwappingLockedRecords = () => swappingLockedRecords;
+
+function swapLockedRecords(update: Partial<AppState> | ((state: AppState) => Partial<AppState>)) {
+  swappingLockedRecords = true;
+  try {
+    useAppStore.setState(update);
+  } finally {
+    swappingLockedRecords = false;
+  }
+}
+
+// Locking seals the user's records and takes them out of memory like signing
+// out does. Only the user record stays, without its second factor, for the
+// lock screen to check a PIN or password against.
+function closeLockedVault() {
+  const state = useAppStore.getState();
+  const userId = state.session?.lockedAt ? state.currentUserId : undefined;
+  const key = userId ? unlockedKey(userId) : undefined;
+  if (!userId || !key) return;
+  releaseReceipts(clearHistory());
+  const { own, rest } = splitPartition(state, userId);
+  lockPartition(userId, own, key);
+  lockedVault = { userId, key };
+  const user = own.users[0] as User | undefined;
+  swapLockedRecords({
+    ...(rest as Partial<AppState>),
+    users: [...(rest.users as User[]), ...(user ? [{ ...user, twoFactor: undefined }] : [])],
+  });
+}
+
+// Puts the locked user's records back once the lock screen is satisfied.
+async function reopenLockedVault() {
+  const entry = lockedVault;
+  if (!entry) return;
+  const partition = await openPartition(entry.userId, entry.key);
+  if (lockedVault !== entry) return;
+  lockedVault = undefined;
+  rememberKey(entry.userId, entry.key);
+  releasePartition(entry.userId);
+  if (!partition) return;
+  swapLockedRecords(
+    (state) =>
+      mergePartition(
+        { ...state, users: state.users.filter((user) => user.id !== entry.userId) },
+        partition,
+      ) as Partial<AppState>,
+  );
+}
+
+// Moves the signed-in user's records out of the store; the vault seals them
+// under their data key on the next write.
+function endSession() {
+  lockedVault = undefined;
+  releaseReceipts(clearHistory());
+  const state = useAppStore.getState();
+  if (!state.currentUserId) return;
+  const { own, rest } = splitPartition(state, state.currentUserId);
+  lockPartition(state.currentUserId, own);
+  useAppStore.setState({ ...(rest as Partial<AppState>), currentUserId: undefined, session: undefined });
+}
+
+const updateSession = (changes: Partial<Session>) =>
+  useAppStore.setState((state) => (state.session ? { session: { ...state.session, ...changes } } : {}));
+
+// Keys live only in memory, so after a reload nobody is unlocked: accounts
+// from before encryption wait outside the store for their owner to sign in.
+function holdLockedAccounts() {
+  const state = useAppStore.getState();
+  let remaining: Partition = {};
+  state.users.forEach((user) => {
+    const { own, rest } = splitPartition({ ...state, ...remaining }, user.id);
+    holdPartition(user.id, own);
+    remaining = rest;
+  });
+  useAppStore.setState({ ...(remaining as Partial<AppState>), currentUserId: undefined });
+}
+
+const storage = createJSONStorage<AppState>(() => vaultStorage);
+
+let migrationBackupKey: string | undefined;
 
 export const useAppStore = create<AppState & AppActions>()(
   persist(
     (set, get) => ({
+      vaults: [],
       users: [],
       receipts: [],
+      accounts: [],
+      categories: [],
+      payees: [],
       transactions: [],
       budgets: [],
+      recurring: [],
+      trash: [],
+      audit: [],
+      invoices: [],
+      exchangeRates: [],
       analyticsLog: [],
+      resetTokens: [],
+      signInAttempts: [],
+      securityEvents: [],
       currentUserId: undefined,
+      session: undefined,
 
-      signUp: ({ email, name, passwordHash }) => {
-        const existing = selectUserByEmail(get().users, email);
-        if (existing) {
+      signUp: async ({ email, name, password, origin }) => {
+        if (selectVaultByEmail(get().vaults, email)) {
           throw new Error('An account already exists for this email address.');
         }
 
+        const key = await createDataKey();
+        const [envelope, passwordHash] = await Promise.all([wrapDataKey(key, password), hashPassword(password)]);
         const id = nanoid();
-        const now = new Date().toISOString();
-        const newUser: User = {
+        const records = createAccountRecords(id, email, name, passwordHash);
+        const secret = randomToken();
+        const vault: Vault = {
           id,
-          email: email.trim().toLowerCase(),
-          name: name.trim() || 'New Member',
-          passwordHash,
-          createdAt: now,
-          subscription: {
-            tier: 'free',
-            status: 'active',
-          },
-          settings: {
-            currency: 'USD',
-            notifications: true,
-            darkMode: false,
-            haptics: true,
-          },
-          categories: DEFAULT_CATEGORIES.slice(0, 6),
+          email: records.users[0].email,
+          key: envelope,
+          verification: { secret, sentAt: new Date().toISOString() },
         };
 
+        endSession();
+        rememberKey(id, key);
         set((state) => ({
-          users: [...state.users, newUser],
+          vaults: [...state.vaults, vault],
+          users: [...state.users, ...records.users],
+          accounts: [...state.accounts, ...records.accounts],
+          categories: [...state.categories, ...records.categories],
           currentUserId: id,
+          session: createSession(id),
         }));
+        // The account works without the link. If it can't be mailed, the
+        // banner offers to send one instead of claiming it's on its way.
+        await sendVerification(vault, origin).catch(() =>
+          set((state) => ({
+            vaults: state.vaults.map((candidate) =>
+              candidate.id === id ? { ...candidate, verification: { secret } } : candidate,
+            ),
+          })),
+        );
 
         return id;
       },
 
-      signIn: ({ email, passwordHash }) => {
-        const user = selectUserByEmail(get().users, email);
-        if (!user || user.passwordHash !== passwordHash) {
-          throw new Error('Invalid email or password.');
+      signIn: async ({ email, password }) => {
+        const address = email.trim().toLowerCase();
+        pendingSignIn = undefined;
+        assertSignInAllowed(address);
+
+        const vault = selectVaultByEmail(get().vaults, address);
+        if (!vault) {
+          throw failSignIn(address);
         }
 
-        set({ currentUserId: user.id });
+        let key: CryptoKey;
+        let partition: Partition | undefined;
+        let envelope = vault.key;
+        if (envelope) {
+          // A wrong password fails to unwrap the data key.
+          key = await unwrapDataKey(envelope, password).catch(() => {
+            throw failSignIn(address, vault.id);
+          });
+          partition = await openPartition(vault.id, key);
+        } else {
+          partition = heldPartition(vault.id);
+          const legacyUser = partition?.users[0] as User | undefined;
+          if (!legacyUser || !(await verifyPassword(password, legacyUser.passwordHash))) {
+            throw failSignIn(address, vault.id);
+          }
+          // First sign-in since encryption arrived: seal this account from now on.
+          key = await createDataKey();
+          envelope = await wrapDataKey(key, password);
+        }
+
+        const stored = partition?.users[0] as User | undefined;
+        if (!partition || !stored) {
+          throw new Error('Your saved data for this account could not be found.');
+        }
+        // Older or weaker hashes are replaced now, while we have the password.
+        const passwordHash = needsRehash(stored.passwordHash) ? await hashPassword(password) : stored.passwordHash;
+        const verified: VerifiedSignIn = {
+          address,
+          vaultId: vault.id,
+          key,
+          envelope,
+          partition,
+          user: { ...stored, passwordHash },
+        };
+
+        if (stored.twoFactor) {
+          pendingSignIn = {
+            ...verified,
+            startedAt: new Date().toISOString(),
+            expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MINUTES * 60_000,
+          };
+          return { status: 'two_factor_required', email: vault.email };
+        }
+        return { status: 'signed_in', user: completeSignIn(verified) };
+      },
+
+      completeTwoFactor: async (code, now = new Date()) => {
+        const pending = pendingSignIn;
+        // Measured in real time even when `now` is pinned for the code itself.
+        // A password reset since the password was checked also ends it.
+        if (
+          !pending ||
+          pending.expiresAt <= Date.now() ||
+          !pending.user.twoFactor ||
+          isSessionRevoked(pending, selectVault(pending.vaultId)?.sessionsRevokedAt)
+        ) {
+          pendingSignIn = undefined;
+          throw new Error('Your sign-in timed out. Enter your password again.');
+        }
+        assertSignInAllowed(pending.address);
+
+        const redeemed = await redeemCode(pending.user.twoFactor, code, now);
+        if (!redeemed) {
+          const error = failSignIn(pending.address, pending.vaultId, 'code');
+          if (lockedUntil(get().signInAttempts.find((entry) => entry.email === pending.address))) {
+            pendingSignIn = undefined;
+          }
+          throw error;
+        }
+        const user = completeSignIn({ ...pending, user: { ...pending.user, twoFactor: redeemed.twoFactor } });
+        if (redeemed.recovery) recordSecurityEvent(user.id, 'recovery_code_used');
         return user;
       },
 
+      cancelTwoFactor: () => {
+        pendingSignIn = undefined;
+      },
+
       signOut: () => {
-        set({ currentUserId: undefined });
+        endSession();
       },
 
-      resetPassword: ({ email, newPasswordHash }) => {
-        const user = selectUserByEmail(get().users, email);
-        if (!user) {
-          throw new Error('No account found for this email.');
+      touchSession: (now = new Date()) => {
+        // Input after the idle limit must not revive a session that should have locked.
+        get().enforceSession(now);
+        const { session } = get();
+        if (!session || session.lockedAt || !shouldRecordActivity(session, now)) return;
+        updateSession({ lastActiveAt: now.toISOString() });
+      },
+
+      enforceSession: (now = new Date()) => {
+        const { session } = get();
+        if (!session) return;
+        const revokedAt = selectVault(session.userId)?.sessionsRevokedAt;
+        if (isSessionExpired(session, now) || isSessionRevoked(session, revokedAt)) {
+          endSession();
+        } else if (!session.lockedAt && isSessionIdle(session, now)) {
+          updateSession({ lockedAt: now.toISOString() });
+        }
+      },
+
+      lockApp: () => {
+        if (get().session?.lockedAt) return;
+        updateSession({ lockedAt: new Date().toISOString() });
+      },
+
+      unlockWithPin: async (pin) => {
+        const { session } = get();
+        const user = get().users.find((candidate) => candidate.id === session?.userId);
+        if (!session || !user) {
+          throw new Error('Your session has ended. Sign in again.');
+        }
+        if (!user.pinHash || pinAttemptsLeft(session) === 0) {
+          throw new Error('Enter your password to unlock.');
+        }
+        if (!(await verifyPassword(pin, user.pinHash))) {
+          const failedPinAttempts = session.failedPinAttempts + 1;
+          updateSession({ failedPinAttempts });
+          const left = MAX_PIN_ATTEMPTS - failedPinAttempts;
+          throw new Error(
+            left > 0
+              ? `Wrong PIN. ${left} ${left === 1 ? 'attempt' : 'attempts'} left.`
+              : 'Too many wrong PINs. Enter your password to unlock.',
+          );
+        }
+        await reopenLockedVault();
+        updateSession({ lockedAt: undefined, failedPinAttempts: 0, lastActiveAt: new Date().toISOString() });
+      },
+
+      unlockWithPassword: async (password) => {
+        const { session } = get();
+        const user = get().users.find((candidate) => candidate.id === session?.userId);
+        if (!session || !user) {
+          throw new Error('Your session has ended. Sign in again.');
+        }
+        const address = selectVault(user.id)?.email ?? user.email;
+        assertSignInAllowed(address);
+        if (!(await verifyPassword(password, user.passwordHash))) {
+          const error = failSignIn(address, user.id, 'unlock');
+          // Locked out, the unlocked data doesn't stay in memory behind the lock screen.
+          if (lockedUntil(get().signInAttempts.find((entry) => entry.email === address))) endSession();
+          throw error;
+        }
+        clearSignInAttempts(address);
+        await reopenLockedVault();
+        updateSession({ lockedAt: undefined, failedPinAttempts: 0, lastActiveAt: new Date().toISOString() });
+      },
+
+      enableTwoFactor: async (userId, { secret, code, now = new Date() }) => {
+        const counter = await matchTotp(secret, code, now);
+        if (counter === undefined) {
+          throw new Error('That code does not match. Check the time on your device and try the latest code.');
+        }
+        const { codes, hashes } = await issueRecoveryCodes();
+        setTwoFactor(userId, {
+          secret,
+          enabledAt: now.toISOString(),
+          recoveryCodeHashes: hashes,
+          lastCounter: counter,
+        });
+        recordSecurityEvent(userId, 'two_factor_enabled');
+        return codes;
+      },
+
+      disableTwoFactor: async (userId, code, now = new Date()) => {
+        await redeemUserCode(userId, code, now);
+        setTwoFactor(userId, undefined);
+        recordSecurityEvent(userId, 'two_factor_disabled');
+      },
+
+      regenerateRecoveryCodes: async (userId, code, now = new Date()) => {
+        const twoFactor = await redeemUserCode(userId, code, now);
+        const { codes, hashes } = await issueRecoveryCodes();
+        setTwoFactor(userId, { ...twoFactor, recoveryCodeHashes: hashes });
+        return codes;
+      },
+
+      setUnlockPin: async (userId, pin) => {
+        if (pin !== undefined && !PIN_PATTERN.test(pin)) {
+          throw new Error('Your PIN must be 4 to 6 digits.');
         }
+        const pinHash = pin === undefined ? undefined : await hashPassword(pin);
+        set((state) => ({
+          users: state.users.map((user) => (user.id === userId ? { ...user, pinHash } : user)),
+        }));
+      },
 
+      requestPasswordReset: async ({ email, origin }) => {
+        // Checked first, so a missing mailer fails the same way for every address.
+        const mailer = getMailer();
+        const vault = selectVaultByEmail(get().vaults, email);
+        // Same outcome for unknown addresses, so the form can't confirm who has an account.
+        if (!vault) return;
+
+        const token = randomToken();
+        const now = new Date();
+        const entry: PasswordResetToken = {
+          id: nanoid(),
+          userId: vault.id,
+          tokenHash: await digestHex(token),
+          createdAt: now.toISOString(),
+          expiresAt: resetTokenExpiry(now),
+        };
+        // A new link replaces any earlier one for the same account.
         set((state) => ({
-          users: state.users.map((u) =>
-            u.id === user.id ? { ...u, passwordHash: newPasswordHash } : u,
+          resetTokens: [
+            ...state.resetTokens.filter(
+              (candidate) => candidate.userId !== vault.id && !isResetTokenExpired(candidate, now),
+            ),
+            entry,
+          ],
+        }));
+        await mailer.send(resetMail(vault.email, resetLink(origin, token)));
+      },
+
+      resetPassword: async ({ token, newPassword, currentPassword }) => {
+        const entry = await findResetToken(get().resetTokens, token);
+        const vault = entry && get().vaults.find((candidate) => candidate.id === entry.userId);
+        if (!vault) {
+          throw new Error('This reset link is invalid or has expired. Request a new one.');
+        }
+
+        // A signed-in or locked session for the account already holds the key.
+        let key = unlockedKey(vault.id) ?? (lockedVault?.userId === vault.id ? lockedVault.key : undefined);
+        if (!key && vault.key && currentPassword) {
+          key = await unwrapDataKey(vault.key, currentPassword).catch(() => {
+            throw new Error('Your old password is incorrect. Leave it empty to start over instead.');
+          });
+        }
+        const startOver = !key && Boolean(vault.key);
+        // Accounts from before encryption are sealed under the new password.
+        key ??= await createDataKey();
+        const [envelope, passwordHash] = await Promise.all([wrapDataKey(key, newPassword), hashPassword(newPassword)]);
+
+        // Whoever reset the password signs in again with it, here and in every
+        // other tab. The records are sealed on the way out and updated below.
+        if (get().session?.userId === vault.id) endSession();
+        if (pendingSignIn?.vaultId === vault.id) pendingSignIn = undefined;
+
+        if (!get().users.some((user) => user.id === vault.id)) {
+          const partition = startOver
+            ? createAccountRecords(vault.id, vault.email, '', passwordHash)
+            : vault.key
+              ? await openPartition(vault.id, key)
+              : heldPartition(vault.id);
+          if (partition) {
+            lockPartition(
+              vault.id,
+              { ...partition, users: withPasswordHash(partition.users as User[], vault.id, passwordHash) },
+              key,
+            );
+          }
+        }
+
+        // Dropping every token for the account makes the link single-use. The
+        // link arrived by email, so it also proves the address.
+        set((state) => ({
+          vaults: state.vaults.map((candidate) =>
+            candidate.id === vault.id
+              ? {
+                  ...candidate,
+                  key: envelope,
+                  emailVerifiedAt: candidate.emailVerifiedAt ?? new Date().toISOString(),
+                  verification: undefined,
+                  sessionsRevokedAt: new Date().toISOString(),
+                }
+              : candidate,
           ),
+          users: withPasswordHash(state.users, vault.id, passwordHash),
+          resetTokens: state.resetTokens.filter((candidate) => candidate.userId !== vault.id),
         }));
+        // The new password starts with a clean slate.
+        clearSignInAttempts(vault.email);
+        recordSecurityEvent(vault.id, 'password_reset');
       },
 
-      addReceipt: ({ fileName, dataUrl }) => {
+      resendVerification: async (userId, origin) => {
+        const vault = selectVault(userId);
+        if (!vault) {
+          throw new Error('User not found.');
+        }
+        if (vault.emailVerifiedAt) return;
+        const mailer = getMailer();
+        const wait = resendCooldown(vault.verification);
+        if (wait > 0) {
+          throw new Error(`You can request another link in ${wait} seconds.`);
+        }
+
+        // Accounts from before verification have no secret until their first link.
+        const verification: EmailVerification = {
+          secret: vault.verification?.secret ?? randomToken(),
+          sentAt: new Date().toISOString(),
+        };
+        set((state) => ({
+          vaults: state.vaults.map((candidate) => (candidate.id === userId ? { ...candidate, verification } : candidate)),
+        }));
+        await sendVerification({ ...vault, verification }, origin, mailer);
+      },
+
+      verifyEmail: async (token) => {
+        const vault = selectVault(readVerificationToken(token)?.userId ?? '');
+        if (vault?.emailVerifiedAt) return;
+        if (!vault || !(await verifyVerificationToken(vault, token))) {
+          throw new Error('This verification link is invalid or has expired. Request a new one.');
+        }
+        set((state) => ({
+          vaults: state.vaults.map((candidate) =>
+            candidate.id === vault.id
+              ? { ...candidate, emailVerifiedAt: new Date().toISOString(), verification: undefined }
+              : candidate,
+          ),
+        }));
+      },
+
+      addRecurring: recorded('Added recurring transaction', ({ rule, startDate, payee: payeeName, ...rest }) => {
+        assertMinorUnits(rest.amount);
+        assertTransactionAccounts(get().accounts, rest);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          throw new Error('Repeat interval must be a whole number of at least 1.');
+        }
+        if (rule.end.type === 'after' && (!Number.isInteger(rule.end.count) || rule.end.count < 1)) {
+          throw new Error('A schedule must run at least once.');
+        }
+        if (rule.end.type === 'on' && rule.end.date < startDate) {
+          throw new Error('The end date must be on or after the first occurrence.');
+        }
+
+        const resolved = payeeName?.trim() ? resolvePayee(get().payees, rest.userId, payeeName) : undefined;
+        const template: RecurringTemplate = normalizeSplits({
+          ...rest,
+          payeeId: resolved?.payee.id ?? rest.payeeId,
+          tags: normalizeTags(rest.tags),
+          id: nanoid(),
+          category: rest.type === 'transfer' ? TRANSFER_CATEGORY : rest.category,
+          toAccountId: rest.type === 'transfer' ? rest.toAccountId : undefined,
+          rule,
+          startDate,
+          exceptions: {},
+          createdAt: new Date().toISOString(),
+        });
+
+        set((state) => ({
+          recurring: [...state.recurring, template],
+          payees: resolved?.created ? [...state.payees, resolved.created] : state.payees,
+        }));
+
+        return template;
+      }),
+
+      removeRecurring: recorded('Stopped recurring transaction', (id) => {
+        set((state) => ({
+          recurring: state.recurring.filter((template) => template.id !== id),
+        }));
+      }, { destructive: true }),
+
+      skipOccurrence: recorded('Skipped occurrence', (templateId, date) => {
+        set((state) => ({
+          recurring: state.recurring.map((template) =>
+            template.id === templateId
+              ? {
+                  ...template,
+                  exceptions: {
+                    ...template.exceptions,
+                    [date]: { ...template.exceptions?.[date], skipped: true },
+                  },
+                }
+              : template,
+          ),
+        }));
+      }, { destructive: true }),
+
+      editOccurrence: recorded('Edited occurrence', (templateId, date, changes) => {
+        if (changes.amount !== undefined) {
+          assertMinorUnits(changes.amount);
+          if (changes.amount <= 0) {
+            throw new Error('Amount must be greater than zero.');
+          }
+        }
+        set((state) => ({
+          recurring: state.recurring.map((template) =>
+            template.id === templateId
+              ? {
+                  ...template,
+                  exceptions: {
+                    ...template.exceptions,
+                    [date]: { ...template.exceptions?.[date], ...changes, skipped: false },
+                  },
+                }
+              : template,
+          ),
+        }));
+      }),
+
+      resetOccurrence: recorded('Restored occurrence', (templateId, date) => {
+        set((state) => ({
+          recurring: state.recurring.map((template) => {
+            if (template.id !== templateId || !template.exceptions?.[date]) return template;
+            const exceptions = { ...template.exceptions };
+            delete exceptions[date];
+            return { ...template, exceptions };
+          }),
+        }));
+      }),
+
+      materializeRecurring: audited((userId, today = todayKey()) => {
+        const { recurring, transactions } = get();
+        const stale = recurring.filter(
+          (template) =>
+            template.userId === userId &&
+            template.startDate <= today &&
+            template.generatedThrough !== today,
+        );
+        if (stale.length === 0) return [];
+
+        const existing = new Set(
+          transactions
+            .filter((transaction) => transaction.recurringId)
+            .map((transaction) => `${transaction.recurringId}:${transaction.occurrenceDate}`),
+        );
+        const created: Transaction[] = [];
+
+        stale.forEach((template) => {
+          dueOccurrences(template, today)
+            .filter((occurrence) => !occurrence.skipped)
+            .filter((occurrence) => !existing.has(`${template.id}:${occurrence.date}`))
+            .forEach((occurrence) => {
+              created.push({
+                id: nanoid(),
+                userId,
+                type: template.type,
+                category: template.category,
+                amount: occurrence.amount,
+                currency: template.currency,
+                accountId: template.accountId,
+                toAccountId: template.toAccountId,
+                splits: occurrenceSplits(template, occurrence.amount),
+                recurringId: template.id,
+                occurrenceDate: occurrence.date,
+                date: occurrence.date,
+                payeeId: template.payeeId,
+                notes: occurrence.notes,
+                tags: template.tags,
+                source: 'recurring',
+                createdAt: new Date().toISOString(),
+              });
+            });
+        });
+
+        set((state) => ({
+          transactions: [...created, ...state.transactions],
+          recurring: state.recurring.map((template) =>
+            stale.some((candidate) => candidate.id === template.id)
+              ? { ...template, generatedThrough: today }
+              : template,
+          ),
+        }));
+
+        return created;
+      }, 'recurring'),
+
+      addReceipt: async ({ fileName, blob }) => {
         const receipt: Receipt = {
           id: nanoid(),
           fileName,
-          dataUrl,
+          mimeType: blob.type,
+          size: blob.size,
           uploadedAt: new Date().toISOString(),
         };
 
+        await storeReceiptBlob(receipt.id, blob, get().currentUserId);
+
         set((state) => ({
           receipts: [...state.receipts, receipt],
         }));
@@ -221,80 +1884,210 @@ export const useAppStore = create<AppState & AppActions>()(
         return receipt;
       },
 
-      removeReceipt: (id) => {
+      removeReceipt: recorded('Moved receipt to trash', (id) => {
+        const receipt = get().receipts.find((candidate) => candidate.id === id);
+        if (!receipt) return;
+        const owner = get().transactions.find((transaction) => transaction.receiptId === id);
+        if (!owner) {
+          throw new Error('Only receipts attached to a transaction can be moved to the trash.');
+        }
+
+        set((state) => ({
+          receipts: state.receipts.filter((candidate) => candidate.id !== id),
+          transactions: state.transactions.map((transaction) =>
+            transaction.id === owner.id ? { ...transaction, receiptId: undefined } : transaction,
+          ),
+          trash: [
+            ...state.trash,
+            {
+              id: nanoid(),
+              userId: owner.userId,
+              deletedAt: new Date().toISOString(),
+              kind: 'receipt',
+              record: receipt,
+              transactionId: owner.id,
+            },
+          ],
+        }));
+      }, { destructive: true }),
+
+      discardReceipt: (id) => {
         set((state) => ({
           receipts: state.receipts.filter((receipt) => receipt.id !== id),
         }));
+        deleteUnreachableBlobs([id]);
       },
 
-      addTransaction: ({
+      addAccount: recorded('Added account', ({ userId, name, kind, currency, openingBalance }) => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+          throw new Error('Account name cannot be empty.');
+        }
+        assertMinorUnits(openingBalance);
+
+        const account: Account = {
+          id: nanoid(),
+          userId,
+          name: trimmed,
+          kind,
+          currency,
+          openingBalance,
+          createdAt: new Date().toISOString(),
+        };
+
+        set((state) => ({
+          accounts: [...state.accounts, account],
+        }));
+
+        return account;
+      }),
+
+      updateAccount: recorded('Updated account', (id, updates) => {
+        if (updates.name !== undefined && !updates.name.trim()) {
+          throw new Error('Account name cannot be empty.');
+        }
+        if (updates.openingBalance !== undefined) {
+          assertMinorUnits(updates.openingBalance);
+        }
+        set((state) => ({
+          accounts: state.accounts.map((account) =>
+            account.id === id
+              ? { ...account, ...updates, name: updates.name?.trim() ?? account.name }
+              : account,
+          ),
+        }));
+      }),
+
+      removeAccount: recorded('Removed account', (id) => {
+        const inUse = [...get().transactions, ...get().recurring].some(
+          (record) => record.accountId === id || record.toAccountId === id,
+        );
+        if (inUse) {
+          throw new Error('Move or delete the transactions in this account before removing it.');
+        }
+        set((state) => ({
+          accounts: state.accounts.filter((account) => account.id !== id),
+        }));
+      }, { destructive: true }),
+
+      addTransaction: recorded('Added transaction', ({
         userId,
         type,
         category,
         amount,
+        currency,
+        accountId,
+        toAccountId,
+        splits,
         date,
+        payeeId,
+        payee: payeeName,
         notes,
+        tags,
         receiptId,
         source,
       }) => {
-        const transaction: Transaction = {
+        assertMinorUnits(amount);
+        assertTransactionAccounts(get().accounts, { userId, type, accountId, toAccountId });
+        assertCategoriesAvailable(get(), userId, transactionCategories({ type, category, splits }));
+        const resolved = payeeName?.trim() ? resolvePayee(get().payees, userId, payeeName) : undefined;
+        const transaction: Transaction = normalizeSplits({
           id: nanoid(),
           userId,
           type,
-          category,
+          category: type === 'transfer' ? TRANSFER_CATEGORY : category,
           amount,
+          currency,
+          accountId,
+          toAccountId: type === 'transfer' ? toAccountId : undefined,
+          splits,
           date,
+          payeeId: resolved?.payee.id ?? payeeId,
           notes,
+          tags: normalizeTags(tags),
           receiptId,
           source: source ?? 'manual',
           createdAt: new Date().toISOString(),
-        };
+        });
 
         set((state) => ({
           transactions: [transaction, ...state.transactions],
+          payees: resolved?.created ? [...state.payees, resolved.created] : state.payees,
         }));
 
         return transaction;
-      },
+      }),
 
-      updateTransaction: (id, updates) => {
+      updateTransaction: recorded('Edited transaction', (id, updates) => {
+        if (updates.amount !== undefined) {
+          assertMinorUnits(updates.amount);
+        }
+        const current = get().transactions.find((tx) => tx.id === id);
+        if (!current) return;
+        assertTransactionAccounts(get().accounts, { ...current, ...updates });
+        const next = normalizeSplits({
+          ...current,
+          ...updates,
+          tags: 'tags' in updates ? normalizeTags(updates.tags) : current.tags,
+        });
+        const filed = transactionCategories(current);
+        assertCategoriesUnlocked(get(), current.userId, filed);
+        assertCategoriesAvailable(get(), current.userId, withoutNames(transactionCategories(next), filed));
         set((state) => ({
-          transactions: state.transactions.map((tx) =>
-            tx.id === id ? { ...tx, ...updates } : tx,
-          ),
+          transactions: state.transactions.map((tx) => (tx.id === id ? next : tx)),
         }));
-      },
+      }),
 
-      removeTransaction: (id) => {
+      removeTransaction: recorded('Moved transaction to trash', (id) => {
         const transaction = get().transactions.find((tx) => tx.id === id);
-        if (transaction?.receiptId) {
-          set((state) => ({
-            receipts: state.receipts.filter((r) => r.id !== transaction.receiptId),
-          }));
-        }
+        if (!transaction) return;
 
+        // The receipt stays in `receipts` while its transaction is in the trash
+        // and is only purged together with it.
         set((state) => ({
           transactions: state.transactions.filter((tx) => tx.id !== id),
+          trash: [
+            ...state.trash,
+            {
+              id: nanoid(),
+              userId: transaction.userId,
+              deletedAt: new Date().toISOString(),
+              kind: 'transaction',
+              record: transaction,
+            },
+          ],
         }));
-      },
+      }, { destructive: true }),
 
-      upsertBudget: ({ id, userId, category, limit, rollover, alertThreshold }) => {
+      upsertBudget: recorded('Saved budget', ({ id, userId, category, limit, currency, rollover, alertThreshold }) => {
+        assertMinorUnits(limit);
         if (limit <= 0) {
           throw new Error('Budget limit must be greater than zero.');
         }
+        // Options the plan lacks are ignored rather than rejected, so a
+        // downgraded user can still edit a budget without losing its settings.
+        const owner = get().users.find((user) => user.id === userId);
+        const options = {
+          rollover: can(owner, 'budgetRollover') ? rollover : undefined,
+          alertThreshold: can(owner, 'budgetAlerts') ? alertThreshold : undefined,
+        };
 
         if (id) {
           const exists = get().budgets.find((budget) => budget.id === id);
           if (!exists) {
             throw new Error('Budget not found.');
           }
+          assertCategoriesUnlocked(get(), exists.userId, [exists.category]);
+          assertCategoriesAvailable(get(), exists.userId, withoutNames([category], [exists.category]));
 
           const updated: Budget = {
             ...exists,
             category,
             limit,
-            rollover: typeof rollover === 'boolean' ? rollover : exists.rollover,
-            alertThreshold: typeof alertThreshold === 'number' ? alertThreshold : exists.alertThreshold,
+            currency,
+            rollover: typeof options.rollover === 'boolean' ? options.rollover : exists.rollover,
+            alertThreshold:
+              typeof options.alertThreshold === 'number' ? options.alertThreshold : exists.alertThreshold,
           };
 
           set((state) => ({
@@ -306,14 +2099,20 @@ export const useAppStore = create<AppState & AppActions>()(
           return updated;
         }
 
+        assertWithinLimit(
+          owner,
+          'maxBudgets',
+          get().budgets.filter((budget) => budget.userId === userId).length,
+        );
+        assertCategoriesAvailable(get(), userId, [category]);
         const budget: Budget = {
           id: nanoid(),
           userId,
           category,
           limit,
+          currency,
           createdAt: new Date().toISOString(),
-          rollover,
-          alertThreshold,
+          ...options,
         };
 
         set((state) => ({
@@ -321,92 +2120,498 @@ export const useAppStore = create<AppState & AppActions>()(
         }));
 
         return budget;
-      },
+      }),
+
+      removeBudget: recorded('Moved budget to trash', (id) => {
+        const budget = get().budgets.find((candidate) => candidate.id === id);
+        if (!budget) return;
 
-      removeBudget: (id) => {
         set((state) => ({
-          budgets: state.budgets.filter((budget) => budget.id !== id),
+          budgets: state.budgets.filter((candidate) => candidate.id !== id),
+          trash: [
+            ...state.trash,
+            {
+              id: nanoid(),
+              userId: budget.userId,
+              deletedAt: new Date().toISOString(),
+              kind: 'budget',
+              record: budget,
+            },
+          ],
         }));
+      }, { destructive: true }),
+
+      startTrial: (userId) => {
+        assertEmailVerified(selectVault(userId), 'Premium');
+        applyBillingEvent(userId, { type: 'trial_started' });
+      },
+
+      upgradeToPremium: async (userId) => {
+        const now = new Date();
+        const user = get().users.find((candidate) => candidate.id === userId);
+        if (!user) {
+          throw new Error('User not found.');
+        }
+        // Refuse before charging anything if the plan cannot be bought now.
+        assertEmailVerified(selectVault(userId), 'Premium');
+        transition(user.subscription, { type: 'payment_succeeded' }, now);
+
+        const invoice = await withBillingLock(userId, () =>
+          chargePremium(userId, now, `${userId}:purchase:${now.toISOString()}`),
+        );
+        if (invoice.status === 'failed') {
+          set((state) => ({ invoices: [invoice, ...state.invoices] }));
+          throw new Error(invoice.failureReason ?? 'The payment did not go through.');
+        }
+        applyBillingEvent(userId, { type: 'payment_succeeded' }, now, invoice);
+        return invoice;
       },
 
-      upgradeToPremium: (userId) => {
-        const renewal = addMonths(new Date(), 1).toISOString();
+      cancelSubscription: (userId) => {
+        applyBillingEvent(userId, { type: 'canceled' });
+      },
+
+      resumeSubscription: (userId) => {
+        applyBillingEvent(userId, { type: 'resumed' });
+      },
+
+      retryPayment: async (userId) => {
+        const now = new Date();
+        const invoice = await withBillingLock(userId, async () => {
+          const subscription = await pendingSubscription(userId, ({ status }) => status === 'past_due');
+          return subscription ? settleRenewal(userId, subscription, now) : undefined;
+        });
+        if (!invoice) {
+          throw new Error('There is no failed payment to retry.');
+        }
+        return invoice;
+      },
+
+      processBilling: async (userId, now = new Date()) => {
+        const user = get().users.find((candidate) => candidate.id === userId);
+        if (!user || get().session?.lockedAt || billingInFlight.has(userId)) return;
+        if (!dueBillingAction(user.subscription, now)) return;
+
+        await withBillingLock(userId, async () => {
+          const action = dueBillingAction(user.subscription, now);
+          const subscription = await pendingSubscription(
+            userId,
+            (candidate) => dueBillingAction(candidate, now) === action,
+          );
+          if (!subscription) return;
+          if (action === 'expire') {
+            applyBillingRule(userId, { type: 'expired' }, now);
+          } else {
+            await settleRenewal(userId, subscription, now, applyBillingRule);
+          }
+        });
+      },
+
+      addCategory: recorded('Added category', ({ userId, name, parentId }) => {
+        const owner = get().users.find((user) => user.id === userId);
+        assertCapability(owner, 'customCategories');
+        assertWithinLimit(
+          owner,
+          'maxCategories',
+          get().categories.filter((category) => category.userId === userId).length,
+        );
+        const trimmed = name.trim();
+        assertCategoryName(get().categories, userId, trimmed);
+        assertCategoryParent(get().categories, { userId }, parentId);
+
+        const category: Category = {
+          id: nanoid(),
+          userId,
+          name: trimmed,
+          parentId,
+          tier: 'premium',
+          createdAt: new Date().toISOString(),
+        };
+
         set((state) => ({
-          users: state.users.map((user) =>
-            user.id === userId
-              ? {
-                  ...user,
-                  subscription: {
-                    tier: 'premium',
-                    renewalDate: renewal,
-                    status: 'active',
-                  },
-                  categories: user.categories.concat(
-                    DEFAULT_CATEGORIES.filter(
-                      (category) => !user.categories.includes(category),
-                    ),
-                  ),
-                }
-              : user,
+          categories: [...state.categories, category],
+        }));
+
+        return category;
+      }),
+
+      renameCategory: recorded('Renamed category', (id, name) => {
+        const category = editableCategory(get(), id);
+        const trimmed = name.trim();
+        assertCategoryName(get().categories, category.userId, trimmed, id);
+        if (trimmed === category.name) return;
+
+        set((state) => ({
+          ...reassignRecords(state, category.userId, category.name, trimmed),
+          categories: state.categories.map((candidate) =>
+            candidate.id === id ? { ...candidate, name: trimmed } : candidate,
           ),
         }));
-      },
+      }),
+
+      moveCategory: recorded('Moved category', (id, parentId) => {
+        const category = editableCategory(get(), id);
+        assertCategoryParent(get().categories, category, parentId);
 
-      downgradeToFree: (userId) => {
         set((state) => ({
-          users: state.users.map((user) =>
-            user.id === userId
-              ? {
-                  ...user,
-                  subscription: {
-                    tier: 'free',
-                    status: 'active',
-                  },
-                  categories: DEFAULT_CATEGORIES.slice(0, 6),
-                }
-              : user,
+          categories: state.categories.map((candidate) =>
+            candidate.id === id ? { ...candidate, parentId } : candidate,
           ),
-          budgets: state.budgets.filter(
-            (budget) =>
-              budget.userId !== userId ||
-              DEFAULT_CATEGORIES.slice(0, 6).includes(budget.category),
+        }));
+      }),
+
+      mergeCategory: recorded('Merged categories', (sourceId, targetId) => {
+        const { categories } = get();
+        const source = categories.find((candidate) => candidate.id === sourceId);
+        const target = categories.find(
+          (candidate) => candidate.id === targetId && candidate.userId === source?.userId,
+        );
+        if (!source || !target) {
+          throw new Error('Choose a category to merge into.');
+        }
+        if (source.id === target.id) {
+          throw new Error('A category cannot be merged into itself.');
+        }
+        if (target.parentId === source.id) {
+          throw new Error('A category cannot be merged into one of its own subcategories.');
+        }
+        assertCategoryEditable(get().users, source);
+        assertCategoryEditable(get().users, target);
+
+        set((state) => {
+          const reassigned = reassignRecords(state, source.userId, source.name, target.name);
+          return {
+            ...reassigned,
+            budgets: foldBudgets(reassigned.budgets, source.userId, target.name),
+            categories: state.categories
+              .filter((candidate) => candidate.id !== source.id)
+              .map((candidate) =>
+                candidate.parentId === source.id
+                  ? { ...candidate, parentId: target.parentId ?? target.id }
+                  : candidate,
+              ),
+          };
+        });
+      }, { destructive: true }),
+
+      archiveCategory: recorded('Archived category', (id) => {
+        editableCategory(get(), id);
+        set((state) => ({
+          categories: state.categories.map((candidate) =>
+            candidate.id === id || candidate.parentId === id ? { ...candidate, archived: true } : candidate,
           ),
-          transactions: state.transactions.filter(
-            (tx) =>
-              tx.userId !== userId ||
-              DEFAULT_CATEGORIES.slice(0, 6).includes(tx.category),
+        }));
+      }),
+
+      unarchiveCategory: recorded('Unarchived category', (id) => {
+        editableCategory(get(), id);
+        set((state) => ({
+          categories: state.categories.map((candidate) =>
+            candidate.id === id || candidate.parentId === id ? { ...candidate, archived: undefined } : candidate,
           ),
         }));
-      },
+      }),
 
-      addCustomCategory: (userId, category) => {
-        const trimmed = category.trim();
-        if (!trimmed) {
-          throw new Error('Category name cannot be empty.');
+      removeCategory: recorded('Moved category to trash', (id) => {
+        const category = get().categories.find((candidate) => candidate.id === id);
+        if (!category) return;
+        assertCategoryEditable(get().users, category);
+        if (get().categories.some((candidate) => candidate.parentId === id)) {
+          throw new Error('Move or delete its subcategories first.');
+        }
+        if (usesCategory(get(), category)) {
+          throw new Error(`${category.name} is still in use. Archive it or merge it into another category instead.`);
         }
 
         set((state) => ({
-          users: state.users.map((user) =>
-            user.id === userId && !user.categories.includes(trimmed)
-              ? { ...user, categories: [...user.categories, trimmed] }
-              : user,
+          categories: state.categories.filter((candidate) => candidate.id !== id),
+          trash: [
+            ...state.trash,
+            {
+              id: nanoid(),
+              userId: category.userId,
+              deletedAt: new Date().toISOString(),
+              kind: 'category',
+              record: category,
+            },
+          ],
+        }));
+      }, { destructive: true }),
+
+      addPayee: recorded('Added payee', ({ userId, name, defaultCategory }) => {
+        const trimmed = cleanPayeeName(name);
+        assertPayeeName(get().payees, userId, trimmed);
+        const payee: Payee = {
+          id: nanoid(),
+          userId,
+          name: trimmed,
+          aliases: [],
+          defaultCategory: defaultCategory || undefined,
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ payees: [...state.payees, payee] }));
+        return payee;
+      }),
+
+      updatePayee: recorded('Edited payee', (id, { name, defaultCategory }) => {
+        const payee = get().payees.find((candidate) => candidate.id === id);
+        if (!payee) {
+          throw new Error('Payee not found.');
+        }
+        const next = { ...payee };
+        if (name !== undefined) {
+          const trimmed = cleanPayeeName(name);
+          assertPayeeName(get().payees, payee.userId, trimmed, id);
+          if (trimmed !== payee.name) {
+            next.name = trimmed;
+            next.aliases = [
+              ...payee.aliases.filter((alias) => payeeKey(alias) !== payeeKey(trimmed)),
+              ...(payeeKey(payee.name) === payeeKey(trimmed) ? [] : [payee.name]),
+            ];
+          }
+        }
+        if (defaultCategory !== undefined) {
+          next.defaultCategory = defaultCategory || undefined;
+        }
+        set((state) => ({
+          payees: state.payees.map((candidate) => (candidate.id === id ? next : candidate)),
+        }));
+      }),
+
+      addPayeeAlias: recorded('Added payee alias', (id, alias) => {
+        const payee = get().payees.find((candidate) => candidate.id === id);
+        if (!payee) {
+          throw new Error('Payee not found.');
+        }
+        const trimmed = cleanPayeeName(alias);
+        if (payeeKeys(payee).includes(payeeKey(trimmed))) return;
+        assertPayeeName(get().payees, payee.userId, trimmed, id);
+        set((state) => ({
+          payees: state.payees.map((candidate) =>
+            candidate.id === id ? { ...candidate, aliases: [...candidate.aliases, trimmed] } : candidate,
           ),
         }));
+      }),
+
+      removePayeeAlias: recorded('Removed payee alias', (id, alias) => {
+        set((state) => ({
+          payees: state.payees.map((candidate) =>
+            candidate.id === id
+              ? { ...candidate, aliases: candidate.aliases.filter((existing) => existing !== alias) }
+              : candidate,
+          ),
+        }));
+      }),
+
+      mergePayee: recorded('Merged payees', (sourceId, targetId) => {
+        const { payees } = get();
+        const source = payees.find((candidate) => candidate.id === sourceId);
+        const target = payees.find((candidate) => candidate.id === targetId && candidate.userId === source?.userId);
+        if (!source || !target) {
+          throw new Error('Choose a payee to merge into.');
+        }
+        if (source.id === target.id) {
+          throw new Error('A payee cannot be merged into itself.');
+        }
+
+        set((state) => ({
+          ...reassignPayee(state, source.id, target.id),
+          payees: state.payees
+            .filter((candidate) => candidate.id !== source.id)
+            .map((candidate) =>
+              candidate.id === target.id
+                ? {
+                    ...candidate,
+                    aliases: [...candidate.aliases, source.name, ...source.aliases],
+                    defaultCategory: candidate.defaultCategory ?? source.defaultCategory,
+                  }
+                : candidate,
+            ),
+        }));
+      }, { destructive: true }),
+
+      removePayee: recorded('Moved payee to trash', (id) => {
+        const payee = get().payees.find((candidate) => candidate.id === id);
+        if (!payee) return;
+        if (usesPayee(get(), id)) {
+          throw new Error(`${payee.name} is still used by transactions. Merge it into another payee instead.`);
+        }
+
+        set((state) => ({
+          payees: state.payees.filter((candidate) => candidate.id !== id),
+          trash: [
+            ...state.trash,
+            {
+              id: nanoid(),
+              userId: payee.userId,
+              deletedAt: new Date().toISOString(),
+              kind: 'payee',
+              record: payee,
+            },
+          ],
+        }));
+      }, { destructive: true }),
+
+      restoreFromTrash: recorded('Restored from trash', (id) => {
+        const item = get().trash.find((candidate) => candidate.id === id);
+        if (!item) return;
+        const remaining = get().trash.filter((candidate) => candidate.id !== id);
+
+        switch (item.kind) {
+          case 'transaction':
+            assertTransactionAccounts(get().accounts, item.record);
+            set((state) => ({
+              transactions: [item.record, ...state.transactions],
+              trash: remaining,
+            }));
+            break;
+          case 'budget':
+            set((state) => ({
+              budgets: [item.record, ...state.budgets],
+              trash: remaining,
+            }));
+            break;
+          case 'receipt':
+            if (!get().transactions.some((transaction) => transaction.id === item.transactionId)) {
+              throw new Error('Restore the transaction this receipt belonged to first.');
+            }
+            set((state) => ({
+              receipts: [...state.receipts, item.record],
+              transactions: state.transactions.map((transaction) =>
+                transaction.id === item.transactionId && !transaction.receiptId
+                  ? { ...transaction, receiptId: item.record.id }
+                  : transaction,
+              ),
+              trash: remaining,
+            }));
+            break;
+          case 'category': {
+            assertCategoryName(get().categories, item.userId, item.record.name, item.record.id);
+            const parent = get().categories.find((category) => category.id === item.record.parentId);
+            const record = parent && !parent.parentId ? item.record : { ...item.record, parentId: undefined };
+            set((state) => ({
+              categories: [...state.categories, record],
+              trash: remaining,
+            }));
+            break;
+          }
+          case 'payee':
+            [item.record.name, ...item.record.aliases].forEach((name) =>
+              assertPayeeName(get().payees, item.userId, name, item.record.id),
+            );
+            set((state) => ({
+              payees: [...state.payees, item.record],
+              trash: remaining,
+            }));
+            break;
+        }
+      }),
+
+      purgeFromTrash: (id) => {
+        purgeTrash(get().trash.filter((item) => item.id === id));
+      },
+
+      emptyTrash: (userId) => {
+        purgeTrash(get().trash.filter((item) => item.userId === userId));
       },
 
-      importTransactions: (userId) => {
+      purgeExpiredTrash: (now = new Date()) => {
+        purgeTrash(get().trash.filter((item) => isExpired(item, now)));
+      },
+
+      upsertExchangeRate: recorded('Saved exchange rate', ({ id, userId, base, quote, rate, date }) => {
+        validateExchangeRate({ base, quote, rate, date });
+        const existing = get().exchangeRates.find(
+          (candidate) =>
+            candidate.userId === userId &&
+            (candidate.id === id ||
+              (candidate.base === base && candidate.quote === quote && candidate.date === date)),
+        );
+
+        const exchangeRate: ExchangeRate = {
+          id: existing?.id ?? nanoid(),
+          userId,
+          base,
+          quote,
+          rate,
+          date,
+          source: 'manual',
+          createdAt: existing?.createdAt ?? new Date().toISOString(),
+        };
+
+        set((state) => ({
+          exchangeRates: existing
+            ? state.exchangeRates.map((candidate) =>
+                candidate.id === existing.id ? exchangeRate : candidate,
+              )
+            : [exchangeRate, ...state.exchangeRates],
+        }));
+
+        return exchangeRate;
+      }),
+
+      removeExchangeRate: recorded('Removed exchange rate', (id) => {
+        set((state) => ({
+          exchangeRates: state.exchangeRates.filter((rate) => rate.id !== id),
+        }));
+      }, { destructive: true }),
+
+      importExchangeRates: recorded((count) => `Imported ${count} exchange rates`, (userId, rates) => {
+        rates.forEach(validateExchangeRate);
+        const keyOf = (rate: ExchangeRateInput) => `${rate.base}|${rate.quote}|${rate.date}`;
+        const incoming = new Map(rates.map((rate) => [keyOf(rate), rate]));
+        const now = new Date().toISOString();
+
+        set((state) => ({
+          exchangeRates: [
+            ...Array.from(incoming.values()).map(
+              (rate): ExchangeRate => ({
+                ...rate,
+                id: nanoid(),
+                userId,
+                source: 'import',
+                createdAt: now,
+              }),
+            ),
+            ...state.exchangeRates.filter(
+              (rate) => rate.userId !== userId || !incoming.has(keyOf(rate)),
+            ),
+          ],
+        }));
+
+        return incoming.size;
+      }, { destructive: true }),
+
+      importTransactions: recorded((imported) => `Imported ${imported.length} transactions`, (userId) => {
         const user = get().users.find((u) => u.id === userId);
         if (!user) {
           throw new Error('User not found.');
         }
-        const imported = generateImportedTransactions(user);
+        assertCapability(user, 'bankImports');
+        const account = get().accounts.find((candidate) => candidate.userId === userId);
+        if (!account) {
+          throw new Error('Add an account to import transactions into.');
+        }
+        const names = categoryNames(get().categories, user);
+        if (names.length === 0) {
+          throw new Error('Add a category to import transactions into.');
+        }
+        let payees = get().payees;
+        const imported = generateImportedTransactions(user, account, names).map(({ payee: name, ...transaction }) => {
+          const { payee, created } = resolvePayee(payees, userId, name);
+          if (created) payees = [...payees, created];
+          const category =
+            payee.defaultCategory && names.includes(payee.defaultCategory) ? payee.defaultCategory : transaction.category;
+          return { ...transaction, category, payeeId: payee.id };
+        });
         set((state) => ({
           transactions: [...imported, ...state.transactions],
+          payees,
         }));
         return imported;
-      },
+      }, { destructive: true, source: 'import' }),
 
-      updateSettings: (userId, settings) => {
+      updateSettings: audited((userId, settings) => {
         set((state) => ({
           users: state.users.map((user) =>
             user.id === userId
@@ -414,9 +2619,35 @@ export const useAppStore = create<AppState & AppActions>()(
               : user,
           ),
         }));
-      },
+      }),
+
+      undo: audited(() => {
+        const { past, future } = useHistoryStore.getState();
+        const entry = past.at(-1);
+        if (!entry) return;
+        set((state) => patchState(state, entry, 'after'));
+        useHistoryStore.setState({
+          past: past.slice(0, -1),
+          future: [entry, ...future],
+          notice: { entry, undone: true },
+        });
+      }),
+
+      redo: audited(() => {
+        const { past, future } = useHistoryStore.getState();
+        const [entry, ...rest] = future;
+        if (!entry) return;
+        set((state) => patchState(state, entry, 'before'));
+        useHistoryStore.setState({
+          past: [...past, entry],
+          future: rest,
+          notice: entry.destructive ? { entry, undone: false } : undefined,
+        });
+      }),
 
       sendAnalyticsEmail: (userId, period) => {
+        assertCapability(get().users.find((user) => user.id === userId), 'analyticsEmails');
+        assertEmailVerified(selectVault(userId), 'email insights');
         const log: AnalyticsLog = {
           id: nanoid(),
           userId,
@@ -434,16 +2665,68 @@ export const useAppStore = create<AppState & AppActions>()(
     {
       name: STORAGE_KEY,
       storage,
+      version: STORE_VERSION,
+      migrate: async (persistedState, version) => {
+        migrationBackupKey = await writeBackup(version);
+        return migratePersistedState(persistedState, version) as AppState;
+      },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          useHydrationStore.setState({
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unable to load your saved data.',
+            backupKey: migrationBackupKey,
+          });
+          return;
+        }
+        holdLockedAccounts();
+        useHydrationStore.setState({ status: 'ready', error: undefined });
+        // The upgraded blob is stored by now; once it is sealed, the copy goes.
+        if (migrationBackupKey) {
+          migrationBackupKey = undefined;
+          void whenWritten()
+            .then(() => clearBackups(STORE_VERSION))
+            .catch(() => undefined);
+        }
+        useAppStore.getState().purgeExpiredTrash();
+        if (typeof indexedDB !== 'undefined') {
+          void sweepOrphanedReceipts().catch(() => undefined);
+        }
+      },
       partialize: (state) => ({
+        vaults: state.vaults,
         users: state.users,
         receipts: state.receipts,
+        accounts: state.accounts,
+        categories: state.categories,
+        payees: state.payees,
         transactions: state.transactions,
         budgets: state.budgets,
+        recurring: state.recurring,
+        trash: state.trash,
+        audit: state.audit,
+        invoices: state.invoices,
+        exchangeRates: state.exchangeRates,
         analyticsLog: state.analyticsLog,
+        resetTokens: state.resetTokens,
+        signInAttempts: state.signInAttempts,
+        securityEvents: state.securityEvents,
         currentUserId: state.currentUserId,
       }),
     },
   ),
 );
 
+// Each tab closes and reopens its own copy of the records as the session
+// locks and unlocks, whichever tab did it. Deferred so the lock itself is
+// shared with the other tabs before the records leave.
+useAppStore.subscribe((state, previous) => {
+  const locked = Boolean(state.session?.lockedAt);
+  if (locked === Boolean(previous.session?.lockedAt)) return;
+  queueMicrotask(() => {
+    if (locked) closeLockedVault();
+    else void reopenLockedVault().catch(() => undefined);
+  });
+});
+
 export const defaultCategories = DEFAULT_CATEGORIES;
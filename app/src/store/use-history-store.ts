@@ -0,0 +1,98 @@
+'use client';
+
+import { create } from 'zustand';
+import { diffCollection } from '@/utils/sync';
+
+export const HISTORY_LIMIT = 50;
+
+type Keyed = { id: string };
+
+/**
+ * The records an operation touched in one collection, as they were before it
+ * (missing when it added them) and after it (missing when it removed them).
+ */
+export type RecordPatch = { before: Keyed[]; after: Keyed[] };
+
+/**
+ * One undoable operation, as the records it changed in each collection.
+ * Undoing it only touches those records, so changes made since by anything
+ * else (scheduled transactions, billing, other tabs) are kept.
+ */
+export type HistoryEntry = {
+  id: number;
+  label: string;
+  destructive: boolean;
+  changes: Record<string, RecordPatch>;
+};
+
+export function diffRecords(previous: Keyed[], next: Keyed[]): RecordPatch | null {
+  const added = diffCollection(previous, next);
+  if (!added) return null;
+  return { before: diffCollection(next, previous)!.upserts, after: added.upserts };
+}
+
+/**
+ * Moves a collection's records from one side of a patch to the other. A
+ * record that has changed since no longer matches that side and is left as
+ * it is, so undo and redo never revert work they didn't do.
+ */
+export function applyRecordPatch<T extends Keyed>(current: T[], patch: RecordPatch, from: 'before' | 'after') {
+  const expected = new Map(patch[from].map((record) => [record.id, record]));
+  const target = new Map(patch[from === 'before' ? 'after' : 'before'].map((record) => [record.id, record]));
+  const present = new Map(current.map((record) => [record.id, record]));
+  const movable = (id: string) => (expected.has(id) || target.has(id)) && present.get(id) === expected.get(id);
+
+  return [
+    ...current.flatMap((record) => {
+      if (!movable(record.id)) return [record];
+      const replacement = target.get(record.id);
+      return replacement ? [replacement as T] : [];
+    }),
+    ...Array.from(target.values()).filter((record) => !present.has(record.id) && movable(record.id)) as T[],
+  ];
+}
+
+/** Whether undoing or redoing `entry` would touch any of `ids` in `collection`. */
+export const entryTouches = (entry: HistoryEntry, collection: string, ids: string[]) => {
+  const patch = entry.changes[collection];
+  return Boolean(patch) && [...patch.before, ...patch.after].some((record) => ids.includes(record.id));
+};
+
+type HistoryState = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  /** The entry the toast should offer to undo or redo, if any. */
+  notice?: { entry: HistoryEntry; undone: boolean };
+};
+
+export const useHistoryStore = create<HistoryState>()(() => ({
+  past: [],
+  future: [],
+}));
+
+let nextEntryId = 1;
+
+// Records an entry and returns the entries that dropped out of reach: the
+// redo branch it replaces plus anything pushed past the limit.
+export function pushHistory(entry: Omit<HistoryEntry, 'id'>) {
+  const { past, future } = useHistoryStore.getState();
+  const recorded = { ...entry, id: nextEntryId++ };
+  const kept = [...past, recorded];
+  const overflow = kept.length > HISTORY_LIMIT ? kept.splice(0, kept.length - HISTORY_LIMIT) : [];
+
+  useHistoryStore.setState({
+    past: kept,
+    future: [],
+    notice: entry.destructive ? { entry: recorded, undone: false } : undefined,
+  });
+
+  return [...future, ...overflow];
+}
+
+export function clearHistory() {
+  const { past, future } = useHistoryStore.getState();
+  useHistoryStore.setState({ past: [], future: [], notice: undefined });
+  return [...past, ...future];
+}
+
+export const dismissHistoryNotice = () => useHistoryStore.setState({ notice: undefined });
@@ -0,0 +1,13 @@
+'use client';
+
+import { create } from 'zustand';
+
+type HydrationState = {
+  status: 'pending' | 'ready' | 'failed';
+  error?: string;
+  backupKey?: string;
+};
+
+export const useHydrationStore = create<HydrationState>()(() => ({
+  status: 'pending',
+}));
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createDataKey } from '@/utils/crypto';
+
+// The vault writes through `persistStorage`, which is a no-op outside the
+// browser; an in-memory map stands in for IndexedDB.
+const memory = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('@/store/storage', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/store/storage')>()),
+  persistStorage: {
+    getItem: (name: string) => memory.get(name) ?? null,
+    setItem: (name: string, value: string) => {
+      memory.set(name, value);
+    },
+    removeItem: (name: string) => {
+      memory.delete(name);
+    },
+  },
+}));
+
+const { STORAGE_KEY, persistStorage, writeBackup } = await import('@/store/storage');
+const { forgetKey, openPartition, rememberKey, vaultStorage, whenWritten } = await import('@/store/vault');
+
+const envelope = { salt: 's', iterations: 1, iv: 'i', wrappedKey: 'w' };
+
+const state = {
+  vaults: [
+    { id: 'u1', email: 'ada@example.com', key: envelope },
+    { id: 'u2', email: 'bo@example.com', key: envelope },
+  ],
+  users: [
+    { id: 'u1', email: 'ada@example.com' },
+    { id: 'u2', email: 'bo@example.com' },
+  ],
+  transactions: [
+    { id: 't1', userId: 'u1', notes: 'Rent' },
+    { id: 't2', userId: 'u2', notes: 'Payslip' },
+  ],
+};
+
+const write = async (value: unknown) => {
+  await vaultStorage.setItem(STORAGE_KEY, JSON.stringify({ state: value, version: 16 }));
+  await whenWritten();
+};
+
+const stored = () => JSON.parse(memory.get(STORAGE_KEY)!) as { state: Record<string, unknown>; version: number };
+
+afterEach(() => {
+  memory.clear();
+  forgetKey('u1');
+  forgetKey('u2');
+});
+
+describe('vault storage', () => {
+  it('seals an unlocked user’s records and leaves only vault entries in the clear', async () => {
+    const key = await createDataKey();
+    rememberKey('u1', key);
+    await write(state);
+
+    const raw = memory.get(STORAGE_KEY)!;
+    expect(raw).not.toContain('Rent');
+    expect(stored().state).toMatchObject({ users: [], transactions: [], vaults: state.vaults });
+    expect(Object.keys(stored().state.sealed as object)).toEqual(['u1']);
+    expect(await openPartition('u1', key)).toMatchObject({
+      users: [{ id: 'u1' }],
+      transactions: [{ id: 't1', notes: 'Rent' }],
+    });
+  });
+
+  it('never writes the records of an encrypted account it has no key for', async () => {
+    rememberKey('u1', await createDataKey());
+    await write(state);
+
+    expect(memory.get(STORAGE_KEY)).not.toContain('Payslip');
+  });
+
+  it('keeps the stored copy of a partition it can’t reseal', async () => {
+    const key = await createDataKey();
+    rememberKey('u1', key);
+    await write(state);
+    const sealed = stored().state.sealed;
+
+    forgetKey('u1');
+    await write({ ...state, users: [], transactions: [] });
+
+    expect(stored().state.sealed).toEqual(sealed);
+    expect(await openPartition('u1', key)).toMatchObject({ transactions: [{ id: 't1' }] });
+  });
+
+  it('hands the store the stored state without the sealed partitions', async () => {
+    rememberKey('u1', await createDataKey());
+    await write(state);
+
+    const { state: visible } = JSON.parse((await vaultStorage.getItem(STORAGE_KEY)) as string);
+    expect(visible.sealed).toBeUndefined();
+    expect(visible.vaults).toEqual(state.vaults);
+  });
+
+  it('refuses to open a partition with another key', async () => {
+    rememberKey('u1', await createDataKey());
+    await write(state);
+
+    await expect(openPartition('u1', await createDataKey())).rejects.toThrow();
+  });
+});
+
+describe('writeBackup', () => {
+  it('copies the stored blob with its sealed partitions', async () => {
+    const key = await createDataKey();
+    rememberKey('u1', key);
+    await write(state);
+
+    const backupKey = await writeBackup(16, persistStorage);
+    expect(backupKey).toBe(`${STORAGE_KEY}:backup-v16`);
+    expect(memory.get(backupKey!)).toBe(memory.get(STORAGE_KEY));
+    expect(JSON.parse(memory.get(backupKey!)!).state.sealed.u1).toBeDefined();
+  });
+
+  it('writes nothing when nothing is stored', async () => {
+    expect(await writeBackup(16, persistStorage)).toBeUndefined();
+    expect(memory.size).toBe(0);
+  });
+});
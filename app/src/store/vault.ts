@@ -0,0 +1,232 @@
+'use client';
+
+import type { StateStorage } from 'zustand/middleware';
+import { STORE_VERSION, migratePersistedState } from '@/store/migrations';
+import {
+  STORAGE_KEY,
+  type SealedReceiptBlob,
+  getReceiptBlob,
+  persistStorage,
+  putReceiptBlob,
+} from '@/store/storage';
+import type { Vault } from '@/store/use-app-store';
+import { type Sealed, openBytes, openJson, sealBytes, sealJson } from '@/utils/crypto';
+import { type Partition, mergePartition, partitionReceiptIds, splitPartition } from '@/utils/vault';
+
+type SealedPartition = Sealed & {
+  /** Schema version the records were written with; migrated when opened. */
+  version: number;
+  /** Kept in the clear so blob cleanup never deletes a locked user's receipts. */
+  receiptIds: string[];
+};
+
+type StoredState = Record<string, unknown> & {
+  vaults?: Vault[];
+  sealed?: Record<string, SealedPartition>;
+};
+
+type StoredBlob = { state: StoredState; version: number };
+
+// Data keys of the users unlocked in this tab. Only ever held in memory.
+const keys = new Map<string, CryptoKey>();
+// Users who signed out or changed their password while locked, waiting for
+// the next write to seal their records.
+const sealing = new Map<string, { partition: Partition; key: CryptoKey }>();
+// Accounts from before encryption. They stay out of the store, and are
+// written back as they were, until their owner signs in and they can be sealed.
+const held = new Map<string, Partition>();
+
+let queued: string | undefined;
+let flushing: Promise<void> | undefined;
+
+async function readStored() {
+  const value = await persistStorage.getItem(STORAGE_KEY);
+  return value ? (JSON.parse(value) as StoredBlob) : null;
+}
+
+const sealPartition = async (key: CryptoKey, partition: Partition, version: number): Promise<SealedPartition> => ({
+  ...(await sealJson(key, partition)),
+  version,
+  receiptIds: partitionReceiptIds(partition),
+});
+
+async function write(value: string) {
+  const { state, version } = JSON.parse(value) as StoredBlob;
+  const stored = await readStored();
+  const encrypted = new Set((state.vaults ?? []).filter((vault) => vault.key).map((vault) => vault.id));
+  const sealed: Record<string, SealedPartition> = {};
+  let output: Record<string, unknown> = state;
+
+  // Every encrypted account's records come out of the public state, whether or
+  // not this tab has unlocked it, so none of them is ever written in the clear.
+  for (const userId of encrypted) {
+    const { own, rest } = splitPartition(output, userId);
+    output = { ...output, ...rest };
+    // Without the key, or without the user's own record to show the partition
+    // is complete, the stored copy is kept.
+    const key = keys.get(userId);
+    if (key && own.users.length > 0) sealed[userId] = await sealPartition(key, own, version);
+  }
+
+  const flushed = Array.from(sealing.entries());
+  for (const [userId, { partition, key }] of flushed) {
+    sealed[userId] ??= await sealPartition(key, partition, version);
+  }
+
+  held.forEach((partition, userId) => {
+    if (encrypted.has(userId)) held.delete(userId);
+    else output = { ...output, ...mergePartition(output, partition) };
+  });
+
+  Object.entries(stored?.state.sealed ?? {}).forEach(([userId, partition]) => {
+    if (encrypted.has(userId)) sealed[userId] ??= partition;
+  });
+
+  await persistStorage.setItem(STORAGE_KEY, JSON.stringify({ state: { ...output, sealed }, version }));
+  flushed.forEach(([userId, entry]) => {
+    if (sealing.get(userId) === entry) sealing.delete(userId);
+  });
+}
+
+// Sealing is async, so writes are serialized and collapsed to the latest state
+// rather than racing each other to storage.
+async function flush() {
+  while (queued !== undefined) {
+    const value = queued;
+    queued = undefined;
+    await write(value);
+  }
+}
+
+/**
+ * Storage for the app store that keeps every encrypted account's records
+ * sealed with AES-GCM under that user's data key. Reads hand the store only
+ * the public parts; a user's records come back through `openPartition` when
+ * they sign in.
+ */
+export const vaultStorage: StateStorage = {
+  getItem: async (name) => {
+    const value = await persistStorage.getItem(name);
+    if (name !== STORAGE_KEY || !value) return value;
+    const { state, version } = JSON.parse(value) as StoredBlob;
+    const visible = { ...state };
+    delete visible.sealed;
+    return JSON.stringify({ state: visible, version });
+  },
+  setItem: (name, value) => {
+    if (name !== STORAGE_KEY) return persistStorage.setItem(name, value);
+    queued = value;
+    flushing ??= flush().finally(() => {
+      flushing = undefined;
+    });
+    return flushing;
+  },
+  removeItem: (name) => {
+    if (name === STORAGE_KEY) {
+      keys.clear();
+      sealing.clear();
+      held.clear();
+    }
+    return persistStorage.removeItem(name);
+  },
+};
+
+/** Settles once everything handed to storage so far has been written. */
+export const whenWritten = () => flushing ?? Promise.resolve();
+
+export const unlockedKey = (userId: string) => keys.get(userId);
+
+export function rememberKey(userId: string, key: CryptoKey) {
+  keys.set(userId, key);
+}
+
+export function forgetKey(userId: string) {
+  keys.delete(userId);
+}
+
+/** Keeps a not-yet-encrypted account out of the store until its owner signs in. */
+export function holdPartition(userId: string, partition: Partition) {
+  held.set(userId, partition);
+}
+
+/** Takes a user's records out of reach; they are sealed with `key` on the next write. */
+export function lockPartition(userId: string, partition: Partition, key = keys.get(userId)) {
+  keys.delete(userId);
+  if (key) sealing.set(userId, { partition, key });
+}
+
+/**
+ * A user's records as last written, for signing in. The caller has already
+ * proven the password by unwrapping `key`. Returns undefined for an account
+ * with nothing stored yet.
+ */
+export async function openPartition(userId: string, key: CryptoKey) {
+  const pending = sealing.get(userId);
+  if (pending) return pending.partition;
+
+  const sealed = (await readStored())?.state.sealed?.[userId];
+  if (!sealed) return undefined;
+  const partition = await openJson<Partition>(key, sealed);
+  return sealed.version < STORE_VERSION
+    ? (migratePersistedState(partition, sealed.version) as Partition)
+    : partition;
+}
+
+/**
+ * The records as last written, with the partitions of the users unlocked in
+ * this tab opened. Tabs that can't hand each other records read them here.
+ */
+export async function readStoredRecords() {
+  const stored = await readStored();
+  if (!stored) return {};
+  let records: Record<string, unknown> = { ...stored.state };
+  delete records.sealed;
+  for (const [userId, key] of keys) {
+    const partition = await openPartition(userId, key);
+    if (partition) records = { ...records, ...mergePartition(records, partition) };
+  }
+  return records;
+}
+
+/** Holds a not-yet-encrypted account's records, or undefined when it has none. */
+export const heldPartition = (userId: string) => held.get(userId);
+
+/** Forgets locked copies of a user's records once they are back in the store. */
+export function releasePartition(userId: string) {
+  sealing.delete(userId);
+  held.delete(userId);
+}
+
+/** Receipt blobs that belong to users who aren't in the store right now. */
+export async function lockedReceiptIds() {
+  const stored = await readStored();
+  return [
+    ...Object.values(stored?.state.sealed ?? {}).flatMap((partition) => partition.receiptIds),
+    ...Array.from(sealing.values()).flatMap(({ partition }) => partitionReceiptIds(partition)),
+    ...Array.from(held.values()).flatMap(partitionReceiptIds),
+  ];
+}
+
+/** Stores a receipt image, encrypted when its owner is unlocked. */
+export async function storeReceiptBlob(id: string, blob: Blob, userId?: string) {
+  const key = userId ? keys.get(userId) : undefined;
+  if (!userId || !key) return putReceiptBlob(id, blob);
+  const sealed = await sealBytes(key, await blob.arrayBuffer());
+  return putReceiptBlob(id, { ...sealed, userId, mimeType: blob.type });
+}
+
+export async function loadReceiptBlob(id: string) {
+  const stored = await getReceiptBlob(id);
+  if (!stored || stored instanceof Blob) return stored;
+  const key = keys.get(stored.userId);
+  if (!key) throw new Error('This receipt belongs to a locked account.');
+  return new Blob([await openBytes(key, stored)], { type: stored.mimeType });
+}
+
+/** Encrypts receipt images saved before the owner's account was encrypted. */
+export async function sealReceiptBlobs(userId: string, ids: string[]) {
+  for (const id of ids) {
+    const stored: Blob | SealedReceiptBlob | undefined = await getReceiptBlob(id);
+    if (stored instanceof Blob) await storeReceiptBlob(id, stored, userId);
+  }
+}
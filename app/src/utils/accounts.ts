@@ -0,0 +1,62 @@
+import type { Account, AccountKind, ExchangeRate, Transaction } from '@/store/use-app-store';
+import { convertMinor } from '@/utils/exchange-rates';
+
+export const ACCOUNT_KINDS: { label: string; value: AccountKind }[] = [
+  { label: 'Checking', value: 'checking' },
+  { label: 'Savings', value: 'savings' },
+  { label: 'Credit card', value: 'credit_card' },
+  { label: 'Cash', value: 'cash' },
+];
+
+export const accountKindLabel = (kind: AccountKind) =>
+  ACCOUNT_KINDS.find((option) => option.value === kind)?.label ?? kind;
+
+// Signed effect of a transaction on one account, in the transaction currency.
+export function balanceEffect(transaction: Transaction, accountId: string) {
+  if (transaction.type === 'transfer') {
+    if (transaction.accountId === accountId) return -transaction.amount;
+    if (transaction.toAccountId === accountId) return transaction.amount;
+    return 0;
+  }
+  if (transaction.accountId !== accountId) return 0;
+  return transaction.type === 'income' ? transaction.amount : -transaction.amount;
+}
+
+export const touchesAccount = (transaction: Transaction, accountId: string) =>
+  transaction.accountId === accountId || transaction.toAccountId === accountId;
+
+const byDateAscending = (a: Transaction, b: Transaction) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Walks an account's transactions oldest first and returns the balance after
+ * each one, keyed by transaction id, plus the closing balance. Amounts in a
+ * different currency are converted with the rate for their date; ones with no
+ * rate are skipped and counted in `unconverted`.
+ */
+export function runningBalances(account: Account, transactions: Transaction[], rates: ExchangeRate[]) {
+  const after = new Map<string, number>();
+  let balance = account.openingBalance;
+  let unconverted = 0;
+
+  transactions
+    .filter((transaction) => touchesAccount(transaction, account.id))
+    .sort(byDateAscending)
+    .forEach((transaction) => {
+      const effect = convertMinor(
+        balanceEffect(transaction, account.id),
+        transaction.currency,
+        account.currency,
+        transaction.date,
+        rates,
+      );
+      if (effect === undefined) {
+        unconverted += 1;
+      } else {
+        balance += effect;
+      }
+      after.set(transaction.id, balance);
+    });
+
+  return { balance, after, unconverted };
+}
@@ -0,0 +1,154 @@
+import { format, parseISO } from 'date-fns';
+import type { ExchangeRate, Transaction } from '@/store/use-app-store';
+import type { ReportTimeframe } from '@/utils/reporting';
+import { touchesAccount } from '@/utils/accounts';
+import { createCurrencyConverter } from '@/utils/exchange-rates';
+import { categoryLines } from '@/utils/splits';
+import { diffCollection } from '@/utils/sync';
+
+/** Income and spending for one day, month, year or all time, in the display currency. */
+export type PeriodTotals = {
+  income: number;
+  expenses: number;
+  /** Spending per category line, so a split transaction counts in each of its categories. */
+  categories: ReadonlyMap<string, number>;
+};
+
+type Bucket = {
+  income: number;
+  expenses: number;
+  categories: Map<string, number>;
+  /** Income and expense records in the bucket; the bucket is dropped at zero. */
+  count: number;
+};
+
+type Entry = {
+  record: Transaction;
+  /** Missing when there is no rate into the display currency. */
+  converted?: Transaction;
+  keys: string[];
+};
+
+export type AggregateScope = {
+  userId: string;
+  /** An account id, or `all`. Transfers belong to both of their accounts. */
+  accountId: string;
+  currency: string;
+  /** Every stored rate; the index keeps the user's own. */
+  rates: ExchangeRate[];
+};
+
+/** Key of the bucket holding every transaction regardless of date. */
+export const ALL_TIME = 'all';
+
+const PERIOD_FORMATS: Record<ReportTimeframe, string> = {
+  daily: 'yyyy-MM-dd',
+  monthly: 'yyyy-MM',
+  yearly: 'yyyy',
+};
+
+/** Bucket key of the day, month or year containing `date`. */
+export const periodKey = (timeframe: ReportTimeframe, date = new Date()) =>
+  format(date, PERIOD_FORMATS[timeframe]);
+
+const EMPTY_TOTALS: PeriodTotals = { income: 0, expenses: 0, categories: new Map() };
+
+/**
+ * Running totals of one user's transactions per day, month, year and all
+ * time, converted into the display currency. `update` is handed the store's
+ * whole transaction list and only re-buckets records whose identity changed
+ * since the previous call, so an edit costs the same however long the
+ * history is.
+ */
+export function createAggregateIndex({ userId, accountId, currency, rates }: AggregateScope) {
+  const converter = createCurrencyConverter(
+    rates.filter((rate) => rate.userId === userId),
+    currency,
+  );
+  const entries = new Map<string, Entry>();
+  const buckets = new Map<string, Bucket>();
+  const missing = new Map<string, number>();
+  let source: Transaction[] = [];
+
+  const inScope = (transaction: Transaction) =>
+    transaction.userId === userId && (accountId === 'all' || touchesAccount(transaction, accountId));
+
+  const apply = ({ record, converted, keys }: Entry, sign: 1 | -1) => {
+    if (!converted) {
+      const pair = `${record.currency}→${currency}`;
+      const count = (missing.get(pair) ?? 0) + sign;
+      if (count > 0) missing.set(pair, count);
+      else missing.delete(pair);
+      return;
+    }
+    if (converted.type === 'transfer') return;
+
+    const lines = converted.type === 'expense' ? categoryLines(converted) : [];
+    keys.forEach((key) => {
+      const current = buckets.get(key);
+      const count = (current?.count ?? 0) + sign;
+      if (count === 0) {
+        buckets.delete(key);
+        return;
+      }
+      // A changed period gets a new bucket rather than an edited one, so
+      // callers memoizing on `totals(period)` see the change.
+      const bucket: Bucket = {
+        income: current?.income ?? 0,
+        expenses: current?.expenses ?? 0,
+        categories: new Map(current?.categories),
+        count,
+      };
+      if (converted.type === 'income') bucket.income += sign * converted.amount;
+      else bucket.expenses += sign * converted.amount;
+      lines.forEach((line) => {
+        const amount = (bucket.categories.get(line.category) ?? 0) + sign * line.amount;
+        if (amount === 0) bucket.categories.delete(line.category);
+        else bucket.categories.set(line.category, amount);
+      });
+      buckets.set(key, bucket);
+    });
+  };
+
+  const remove = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) return;
+    apply(entry, -1);
+    entries.delete(id);
+  };
+
+  const add = (record: Transaction) => {
+    if (!inScope(record)) return;
+    const date = parseISO(record.date);
+    const entry: Entry = {
+      record,
+      converted: converter.convertTransactions([record])[0],
+      keys: [...Object.values(PERIOD_FORMATS).map((pattern) => format(date, pattern)), ALL_TIME],
+    };
+    entries.set(record.id, entry);
+    apply(entry, 1);
+  };
+
+  return {
+    update(transactions: Transaction[]) {
+      const change = diffCollection(source, transactions);
+      source = transactions;
+      if (!change) return;
+      change.removed.forEach(remove);
+      change.upserts.forEach((record) => {
+        remove(record.id);
+        add(record);
+      });
+    },
+    totals: (period: string): PeriodTotals => buckets.get(period) ?? EMPTY_TOTALS,
+    /** Converted transactions in the period, transfers included, in store order. */
+    transactions: (period: string) =>
+      source.flatMap((record) => {
+        const entry = entries.get(record.id);
+        return entry?.converted && entry.keys.includes(period) ? [entry.converted] : [];
+      }),
+    missingPairs: () => Array.from(missing.keys()),
+  };
+}
+
+export type AggregateIndex = ReturnType<typeof createAggregateIndex>;
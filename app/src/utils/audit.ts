@@ -0,0 +1,142 @@
+import { nanoid } from 'nanoid';
+import type {
+  AuditAction,
+  AuditEntity,
+  AuditEntry,
+  AuditSource,
+  Budget,
+  Category,
+  Transaction,
+  TrashItem,
+  User,
+} from '@/store/use-app-store';
+
+export type AuditSnapshot = {
+  users: User[];
+  categories: Category[];
+  transactions: Transaction[];
+  budgets: Budget[];
+  trash: TrashItem[];
+  currentUserId?: string;
+};
+
+export type FieldChange = { before?: unknown; after?: unknown };
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Field-level diff of two versions of a record; missing sides mean create or delete. */
+export function diffFields(before?: object, after?: object) {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, FieldChange> = {};
+  new Set([...Object.keys(previous), ...Object.keys(next)]).forEach((field) => {
+    if (!same(previous[field], next[field])) {
+      changes[field] = { before: previous[field], after: next[field] };
+    }
+  });
+  return changes;
+}
+
+type CollectionEntity = 'transaction' | 'budget' | 'category';
+
+const trashedIds = (trash: TrashItem[], kind: CollectionEntity) =>
+  new Set(trash.flatMap((item) => (item.kind === kind ? [item.record.id] : [])));
+
+/**
+ * Compares two store snapshots and describes every transaction, budget,
+ * category, settings and subscription change between them.
+ */
+export function collectAuditEntries(
+  before: AuditSnapshot,
+  after: AuditSnapshot,
+  source: AuditSource,
+): AuditEntry[] {
+  const at = new Date().toISOString();
+  const actorId = after.currentUserId ?? before.currentUserId;
+  const entries: AuditEntry[] = [];
+
+  const push = (
+    userId: string,
+    entity: AuditEntity,
+    entityId: string,
+    action: AuditAction,
+    changes: Record<string, FieldChange>,
+  ) => {
+    if (Object.keys(changes).length === 0) return;
+    entries.push({ id: nanoid(), userId, actorId, entity, entityId, action, source, changes, at });
+  };
+
+  const diffCollection = <T extends { id: string; userId: string }>(
+    entity: CollectionEntity,
+    previous: T[],
+    next: T[],
+  ) => {
+    if (previous === next) return;
+    const previousById = new Map(previous.map((record) => [record.id, record]));
+    const nextById = new Map(next.map((record) => [record.id, record]));
+    const wasTrashed = trashedIds(before.trash, entity);
+
+    next.forEach((record) => {
+      const old = previousById.get(record.id);
+      if (!old) {
+        const action = wasTrashed.has(record.id) ? 'restore' : 'create';
+        push(record.userId, entity, record.id, action, diffFields(undefined, record));
+      } else if (old !== record) {
+        push(record.userId, entity, record.id, 'update', diffFields(old, record));
+      }
+    });
+    previous.forEach((record) => {
+      if (!nextById.has(record.id)) {
+        push(record.userId, entity, record.id, 'delete', diffFields(record, undefined));
+      }
+    });
+  };
+
+  diffCollection('transaction', before.transactions, after.transactions);
+  diffCollection('budget', before.budgets, after.budgets);
+  diffCollection('category', before.categories, after.categories);
+
+  if (before.users !== after.users) {
+    const previousUsers = new Map(before.users.map((user) => [user.id, user]));
+    after.users.forEach((user) => {
+      const old = previousUsers.get(user.id);
+      if (!old || old === user) return;
+
+      if (old.settings !== user.settings) {
+        push(user.id, 'settings', user.id, 'update', diffFields(old.settings, user.settings));
+      }
+      if (old.subscription !== user.subscription) {
+        push(user.id, 'subscription', user.id, 'update', diffFields(old.subscription, user.subscription));
+      }
+    });
+  }
+
+  return entries;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  manual: 'Manual',
+  import: 'Import',
+  rule: 'Rule',
+  recurring: 'Recurring',
+};
+
+// Bookkeeping fields that never change meaningfully and only clutter a diff.
+const HIDDEN_FIELDS = new Set(['id', 'userId', 'createdAt']);
+
+/** Entries for a single record, newest first. */
+export const recordHistory = (audit: AuditEntry[], entity: AuditEntity, entityId: string) =>
+  audit.filter((entry) => entry.entity === entity && entry.entityId === entityId).reverse();
+
+/** Field changes worth showing: everything on updates, nothing on creates and deletes. */
+export const visibleChanges = (entry: AuditEntry) =>
+  entry.action === 'update'
+    ? Object.entries(entry.changes).filter(([field]) => !HIDDEN_FIELDS.has(field))
+    : [];
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { Subscription } from '@/store/use-app-store';
+import { dueBillingAction, nextBillingDate, transition } from '@/utils/billing';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const days = (count: number) => new Date(NOW.getTime() + count * 86_400_000).toISOString();
+
+const free: Subscription = { tier: 'free', status: 'active' };
+const active: Subscription = { tier: 'premium', status: 'active', renewalDate: days(10) };
+const pastDue: Subscription = {
+  tier: 'premium',
+  status: 'past_due',
+  renewalDate: days(-1),
+  graceUntil: days(6),
+  retryAt: days(1),
+};
+
+describe('transition', () => {
+  it('starts a 14-day trial once per account', () => {
+    const trial = transition(free, { type: 'trial_started' }, NOW);
+    expect(trial).toEqual({ tier: 'premium', status: 'trialing', renewalDate: days(14), trialUsed: true });
+    expect(() => transition(trial, { type: 'trial_started' }, NOW)).toThrow(
+      'Cannot apply trial started to a trialing subscription.',
+    );
+    expect(() => transition({ tier: 'free', status: 'expired', trialUsed: true }, { type: 'trial_started' }, NOW)).toThrow(
+      'The free trial has already been used on this account.',
+    );
+  });
+
+  it('starts a month of Premium on purchase and extends the period on renewal', () => {
+    expect(transition(free, { type: 'payment_succeeded' }, NOW)).toMatchObject({
+      status: 'active',
+      renewalDate: '2026-04-15T12:00:00.000Z',
+    });
+    expect(transition({ ...active, renewalDate: days(0) }, { type: 'payment_succeeded' }, NOW)).toMatchObject({
+      status: 'active',
+      renewalDate: '2026-04-15T12:00:00.000Z',
+    });
+  });
+
+  it('starts a fresh period for a renewal settled long after it fell due', () => {
+    expect(transition({ ...pastDue, renewalDate: days(-60) }, { type: 'payment_succeeded' }, NOW)).toEqual({
+      tier: 'premium',
+      status: 'active',
+      renewalDate: '2026-04-15T12:00:00.000Z',
+      trialUsed: undefined,
+    });
+  });
+
+  it('falls past due with a grace period that later failures do not extend', () => {
+    const failed = transition(active, { type: 'payment_failed' }, NOW);
+    expect(failed).toMatchObject({ status: 'past_due', graceUntil: days(7), retryAt: days(1) });
+    expect(transition(failed, { type: 'payment_failed' }, new Date(days(1)))).toMatchObject({
+      graceUntil: days(7),
+      retryAt: days(2),
+    });
+  });
+
+  it('keeps Premium until the period ends after a cancellation, and can resume', () => {
+    const canceled = transition(active, { type: 'canceled' }, NOW);
+    expect(canceled).toEqual({ tier: 'premium', status: 'canceled', renewalDate: days(10), trialUsed: undefined });
+    expect(transition(canceled, { type: 'resumed' }, NOW)).toMatchObject({ status: 'active', renewalDate: days(10) });
+  });
+
+  it('expires a past-due subscription straight away when it is canceled', () => {
+    expect(transition(pastDue, { type: 'canceled' }, NOW)).toEqual({ tier: 'free', status: 'expired' });
+  });
+
+  it('refuses moves the lifecycle does not allow', () => {
+    expect(() => transition(free, { type: 'payment_failed' }, NOW)).toThrow(
+      'Cannot apply payment failed to a active subscription.',
+    );
+    expect(() => transition(active, { type: 'resumed' }, NOW)).toThrow();
+    expect(() => transition(free, { type: 'canceled' }, NOW)).toThrow();
+  });
+});
+
+describe('dueBillingAction', () => {
+  it('charges a trial or active plan once its renewal date is reached', () => {
+    expect(dueBillingAction({ ...active, renewalDate: days(0) }, NOW)).toBe('charge');
+    expect(dueBillingAction({ ...active, status: 'trialing', renewalDate: days(-1) }, NOW)).toBe('charge');
+    expect(dueBillingAction(active, NOW)).toBeNull();
+  });
+
+  it('retries a past-due plan when the retry is due and expires it after the grace period', () => {
+    expect(dueBillingAction(pastDue, NOW)).toBeNull();
+    expect(dueBillingAction(pastDue, new Date(days(1)))).toBe('charge');
+    expect(dueBillingAction(pastDue, new Date(days(6)))).toBe('expire');
+  });
+
+  it('expires a canceled plan at the end of its period and leaves Free alone', () => {
+    expect(dueBillingAction({ ...active, status: 'canceled' }, new Date(days(10)))).toBe('expire');
+    expect(dueBillingAction(free, NOW)).toBeNull();
+  });
+});
+
+describe('nextBillingDate', () => {
+  it('is the retry for a past-due plan and the renewal otherwise', () => {
+    expect(nextBillingDate(pastDue)).toBe(days(1));
+    expect(nextBillingDate(active)).toBe(days(10));
+    expect(nextBillingDate(free)).toBeUndefined();
+  });
+});
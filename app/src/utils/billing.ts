@@ -0,0 +1,130 @@
+import { addDays, addMonths, format, parseISO } from 'date-fns';
+import type { Subscription, SubscriptionStatus } from '@/store/use-app-store';
+
+export const PREMIUM_PRICE = { amount: 499, currency: 'USD' } as const;
+export const TRIAL_DAYS = 14;
+/** How long a past-due subscription keeps Premium while payment is retried. */
+export const GRACE_PERIOD_DAYS = 7;
+/** Minimum gap between automatic retries of a failed charge. */
+export const RETRY_INTERVAL_DAYS = 1;
+
+export type BillingEvent =
+  | { type: 'trial_started' }
+  | { type: 'payment_succeeded' }
+  | { type: 'payment_failed' }
+  | { type: 'canceled' }
+  | { type: 'resumed' }
+  | { type: 'expired' };
+
+/** What the billing engine should do for a subscription right now, if anything. */
+export type BillingAction = 'charge' | 'expire';
+
+const PAYING: SubscriptionStatus[] = ['trialing', 'active', 'past_due'];
+
+const iso = (date: Date) => date.toISOString();
+
+const isPaying = (subscription: Subscription) =>
+  subscription.tier === 'premium' && PAYING.includes(subscription.status);
+
+function invalid(subscription: Subscription, event: BillingEvent): never {
+  throw new Error(`Cannot apply ${event.type.replace('_', ' ')} to a ${subscription.status} subscription.`);
+}
+
+/**
+ * The subscription lifecycle. Free → trialing or active; active renews or
+ * falls past due; past due recovers within the grace period or expires;
+ * cancellation keeps Premium until the period ends. Invalid moves throw.
+ */
+export function transition(subscription: Subscription, event: BillingEvent, now = new Date()): Subscription {
+  const { trialUsed } = subscription;
+
+  switch (event.type) {
+    case 'trial_started':
+      if (subscription.tier === 'premium') invalid(subscription, event);
+      if (trialUsed) {
+        throw new Error('The free trial has already been used on this account.');
+      }
+      return { tier: 'premium', status: 'trialing', renewalDate: iso(addDays(now, TRIAL_DAYS)), trialUsed: true };
+
+    case 'payment_succeeded': {
+      if (subscription.tier === 'premium' && !isPaying(subscription)) invalid(subscription, event);
+      // Renewals extend the current period; a purchase, or a renewal settled
+      // long after it was due, starts a fresh one today.
+      const periodEnd =
+        isPaying(subscription) && subscription.renewalDate
+          ? addMonths(parseISO(subscription.renewalDate), 1)
+          : addMonths(now, 1);
+      return {
+        tier: 'premium',
+        status: 'active',
+        renewalDate: iso(periodEnd > now ? periodEnd : addMonths(now, 1)),
+        trialUsed,
+      };
+    }
+
+    case 'payment_failed':
+      if (!isPaying(subscription)) invalid(subscription, event);
+      return {
+        ...subscription,
+        status: 'past_due',
+        graceUntil: subscription.graceUntil ?? iso(addDays(now, GRACE_PERIOD_DAYS)),
+        retryAt: iso(addDays(now, RETRY_INTERVAL_DAYS)),
+      };
+
+    case 'canceled':
+      if (!isPaying(subscription)) invalid(subscription, event);
+      // Nothing is left to run out once a payment has already failed.
+      if (subscription.status === 'past_due') {
+        return transition(subscription, { type: 'expired' }, now);
+      }
+      return { tier: 'premium', status: 'canceled', renewalDate: subscription.renewalDate, trialUsed };
+
+    case 'resumed':
+      if (subscription.status !== 'canceled') invalid(subscription, event);
+      return { ...subscription, status: 'active' };
+
+    case 'expired':
+      return { tier: 'free', status: 'expired', trialUsed };
+  }
+}
+
+export function dueBillingAction(subscription: Subscription, now = new Date()): BillingAction | null {
+  if (subscription.tier !== 'premium') return null;
+  const reached = (date?: string) => Boolean(date) && parseISO(date!) <= now;
+
+  switch (subscription.status) {
+    case 'canceled':
+      return reached(subscription.renewalDate) ? 'expire' : null;
+    case 'past_due':
+      if (reached(subscription.graceUntil)) return 'expire';
+      return reached(subscription.retryAt) ? 'charge' : null;
+    case 'trialing':
+    case 'active':
+      return reached(subscription.renewalDate) ? 'charge' : null;
+    default:
+      return null;
+  }
+}
+
+/** When the engine will next act on its own, e.g. to simulate the next bill. */
+export function nextBillingDate(subscription: Subscription) {
+  if (subscription.tier !== 'premium') return undefined;
+  if (subscription.status === 'past_due') return subscription.retryAt ?? subscription.graceUntil;
+  return subscription.renewalDate;
+}
+
+export function describeSubscription(subscription: Subscription) {
+  const on = (date?: string) => (date ? format(parseISO(date), 'PPP') : 'soon');
+  switch (subscription.status) {
+    case 'trialing':
+      return `Free trial until ${on(subscription.renewalDate)}, then billed monthly.`;
+    case 'active':
+      return subscription.tier === 'premium' ? `Renews on ${on(subscription.renewalDate)}.` : 'Free plan.';
+    case 'past_due':
+      return `Payment failed. Premium stays on until ${on(subscription.graceUntil)} while we retry.`;
+    case 'canceled':
+      return `Canceled. Premium ends on ${on(subscription.renewalDate)}.`;
+    case 'expired':
+      return 'Premium has ended. Your data is kept; upgrade again any time.';
+  }
+}
@@ -0,0 +1,57 @@
+import type { Category, PlanTier, User } from '@/store/use-app-store';
+
+export const sameCategoryName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * A user's categories with each subcategory listed straight after its parent.
+ * Archived categories are left out unless asked for; a subcategory whose
+ * parent is hidden is listed at the top level.
+ */
+export function categoryTree(categories: Category[], userId: string, { includeArchived = false } = {}) {
+  const own = categories.filter(
+    (category) => category.userId === userId && (includeArchived || !category.archived),
+  );
+  const ids = new Set(own.map((category) => category.id));
+  return own
+    .filter((category) => !category.parentId || !ids.has(category.parentId))
+    .flatMap((parent) => [parent, ...own.filter((category) => category.parentId === parent.id)]);
+}
+
+export const isCategoryLocked = (category: Category, tier: PlanTier) =>
+  category.tier === 'premium' && tier !== 'premium';
+
+/** Categories a user can file new records under: not archived and allowed by their plan. */
+export const availableCategories = (categories: Category[], user: User) =>
+  categoryTree(categories, user.id).filter(
+    (category) => !isCategoryLocked(category, user.subscription.tier),
+  );
+
+/** Names a new transaction or budget can be filed under, in tree order. */
+export const categoryNames = (categories: Category[], user: User) =>
+  availableCategories(categories, user).map((category) => category.name);
+
+/** Picker options; subcategories are labelled with their parent. */
+export const categoryOptions = (categories: Category[], user: User) =>
+  availableCategories(categories, user).map((category) => {
+    const parent = categories.find((candidate) => candidate.id === category.parentId);
+    return {
+      value: category.name,
+      label: parent ? `${parent.name} › ${category.name}` : category.name,
+    };
+  });
+
+/**
+ * Maps a category name to its top-level parent's name so spending can be
+ * rolled up. Names without a parent, or unknown names, map to themselves.
+ */
+export function createCategoryRollup(categories: Category[], userId: string) {
+  const own = categories.filter((category) => category.userId === userId);
+  const parents = new Map(
+    own.flatMap((category) => {
+      const parent = own.find((candidate) => candidate.id === category.parentId);
+      return parent ? [[category.name, parent.name] as const] : [];
+    }),
+  );
+  return (name: string) => parents.get(name) ?? name;
+}
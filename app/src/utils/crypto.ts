@@ -1,7 +1,174 @@
-export async function hashPassword(value: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(value);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map((byte) => byte.toString(16).padStart(2, '0')).join('');
+/** A user's data key, wrapped with a key derived from their password. */
+export type KeyEnvelope = {
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedKey: string;
+};
+
+/** AES-GCM ciphertext; `data` is base64 for JSON and raw bytes for files. */
+export type Sealed<T = string> = {
+  iv: string;
+  data: T;
+};
+
+const PBKDF2_ITERATIONS = 600_000;
+const HASH_SCHEME = 'pbkdf2-sha256';
+// Unsalted SHA-256 hex digests written before salted hashing.
+const LEGACY_HASH = /^[0-9a-f]{64}$/;
+
+// Chunked so whole-store payloads don't overflow the argument limit.
+function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  const view = new Uint8Array(bytes);
+  let binary = '';
+  for (let offset = 0; offset < view.length; offset += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => fromBase64(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const passwordMaterial = (password: string, usage: KeyUsage) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, [usage]);
+
+async function derivePasswordBits(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await passwordMaterial(password, 'deriveBits');
+  return new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256),
+  );
+}
+
+// Compares every byte so the time taken doesn't reveal how much matched.
+function constantTimeEqual(a: Uint8Array, b: Uint8Array) {
+  let difference = a.length ^ b.length;
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    difference |= (a[index] ?? 0) ^ (b[index] ?? 0);
+  }
+  return difference === 0;
+}
+
+/** A random URL-safe secret for single-use links. */
+export const randomToken = () => toBase64Url(randomBytes(32));
+
+/** SHA-256 hex digest, for storing a token without being able to reproduce it. */
+export const digestHex = async (value: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+    'verify',
+  ]);
+
+/** URL-safe HMAC-SHA256 signature of `value`. */
+export async function signValue(secret: string, value: string) {
+  return toBase64Url(await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(value)));
+}
+
+/** False for a wrong or malformed signature; the comparison is constant-time. */
+export async function verifySignature(secret: string, value: string, signature: string) {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(value),
+    );
+  } catch {
+    return false;
+  }
+}
+
+export const encodeBase64Url = (value: string) => toBase64Url(new TextEncoder().encode(value));
+
+export const decodeBase64Url = (value: string) => new TextDecoder().decode(fromBase64Url(value));
+
+/** Salted PBKDF2 hash, stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>`. */
+export async function hashPassword(password: string, iterations = PBKDF2_ITERATIONS): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await derivePasswordBits(password, salt, iterations);
+  return [HASH_SCHEME, iterations, toBase64(salt), toBase64(hash)].join('$');
+}
+
+/** Checks a password against a stored hash in the current or the legacy format. */
+export async function verifyPassword(password: string, stored: string) {
+  if (LEGACY_HASH.test(stored)) {
+    const digest = await digestHex(password);
+    return constantTimeEqual(new TextEncoder().encode(digest), new TextEncoder().encode(stored));
+  }
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== HASH_SCHEME || !salt || !hash || !(Number(iterations) > 0)) return false;
+  return constantTimeEqual(await derivePasswordBits(password, fromBase64(salt), Number(iterations)), fromBase64(hash));
+}
+
+/** True for legacy hashes and hashes made with fewer iterations than we use today. */
+export function needsRehash(stored: string) {
+  const [scheme, iterations] = stored.split('$');
+  return scheme !== HASH_SCHEME || Number(iterations) < PBKDF2_ITERATIONS;
+}
+
+async function deriveWrappingKey(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const material = await passwordMaterial(password, 'deriveKey');
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey'],
+  );
+}
+
+export const createDataKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+/** Wraps `key` under `password` with a fresh salt, e.g. for a new account or a password change. */
+export async function wrapDataKey(key: CryptoKey, password: string): Promise<KeyEnvelope> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await deriveWrappingKey(password, salt, PBKDF2_ITERATIONS);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(wrapped) };
+}
+
+/** Throws when the password is wrong: GCM authentication of the wrapped key fails. */
+export async function unwrapDataKey(envelope: KeyEnvelope, password: string) {
+  const wrappingKey = await deriveWrappingKey(password, fromBase64(envelope.salt), envelope.iterations);
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(envelope.wrappedKey),
+    wrappingKey,
+    { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function sealBytes(key: CryptoKey, bytes: ArrayBuffer): Promise<Sealed<ArrayBuffer>> {
+  const iv = randomBytes(12);
+  return { iv: toBase64(iv), data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+}
+
+export const openBytes = (key: CryptoKey, { iv, data }: Sealed<ArrayBuffer>) =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, data);
+
+export async function sealJson(key: CryptoKey, value: unknown): Promise<Sealed> {
+  const { iv, data } = await sealBytes(key, new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer);
+  return { iv, data: toBase64(data) };
+}
+
+export async function openJson<T>(key: CryptoKey, { iv, data }: Sealed): Promise<T> {
+  const bytes = await openBytes(key, { iv, data: fromBase64(data).buffer as ArrayBuffer });
+  return JSON.parse(new TextDecoder().decode(bytes)) as T;
 }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { Vault } from '@/store/use-app-store';
+import { encodeBase64Url } from '@/utils/crypto';
+import {
+  assertEmailVerified,
+  needsEmailVerification,
+  readVerificationToken,
+  resendCooldown,
+  signVerificationToken,
+  verifyVerificationToken,
+} from '@/utils/email-verification';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const later = (hours: number) => new Date(NOW.getTime() + hours * 3_600_000);
+
+const vault: Vault = {
+  id: 'u1',
+  email: 'ada@example.com',
+  verification: { secret: 'account-secret', sentAt: NOW.toISOString() },
+};
+
+describe('verification tokens', () => {
+  it('verify for the account, address and secret they were signed with', async () => {
+    const token = await signVerificationToken('account-secret', 'u1', 'ada@example.com', NOW);
+
+    expect(readVerificationToken(token)).toEqual({
+      userId: 'u1',
+      email: 'ada@example.com',
+      expiresAt: later(24).toISOString(),
+    });
+    expect(await verifyVerificationToken(vault, token, later(1))).toBe(true);
+  });
+
+  it('stop working after 24 hours', async () => {
+    const token = await signVerificationToken('account-secret', 'u1', 'ada@example.com', NOW);
+    expect(await verifyVerificationToken(vault, token, later(24))).toBe(false);
+  });
+
+  it('are refused once the address changes or the verification is gone', async () => {
+    const token = await signVerificationToken('account-secret', 'u1', 'ada@example.com', NOW);
+
+    expect(await verifyVerificationToken({ ...vault, email: 'eve@example.com' }, token, NOW)).toBe(false);
+    expect(await verifyVerificationToken({ ...vault, id: 'u2' }, token, NOW)).toBe(false);
+    expect(await verifyVerificationToken({ ...vault, verification: undefined }, token, NOW)).toBe(false);
+  });
+
+  it('are refused when signed with another secret', async () => {
+    const token = await signVerificationToken('other-secret', 'u1', 'ada@example.com', NOW);
+    expect(await verifyVerificationToken(vault, token, NOW)).toBe(false);
+  });
+
+  it('are refused when the claims are edited after signing', async () => {
+    const token = await signVerificationToken('account-secret', 'u1', 'ada@example.com', NOW);
+    const signature = token.split('.')[1];
+    const forged = encodeBase64Url(
+      JSON.stringify({ userId: 'u1', email: 'ada@example.com', expiresAt: later(24 * 365).toISOString() }),
+    );
+
+    expect(await verifyVerificationToken(vault, `${forged}.${signature}`, later(48))).toBe(false);
+    expect(await verifyVerificationToken(vault, token.split('.')[0], NOW)).toBe(false);
+  });
+
+  it('are unreadable when they are not a token at all', () => {
+    expect(readVerificationToken('not-a-token')).toBeUndefined();
+  });
+});
+
+describe('resendCooldown', () => {
+  it('counts down a minute from the last link and allows a first link at once', () => {
+    expect(resendCooldown(vault.verification, NOW)).toBe(60);
+    expect(resendCooldown(vault.verification, new Date(NOW.getTime() + 59_500))).toBe(1);
+    expect(resendCooldown(vault.verification, new Date(NOW.getTime() + 60_000))).toBe(0);
+    expect(resendCooldown({ secret: 'account-secret' }, NOW)).toBe(0);
+    expect(resendCooldown(undefined, NOW)).toBe(0);
+  });
+});
+
+describe('email verification gating', () => {
+  it('asks for a verified address only while mail can be delivered', () => {
+    expect(needsEmailVerification(vault, true)).toBe(true);
+    expect(needsEmailVerification(vault, false)).toBe(false);
+    expect(needsEmailVerification({ emailVerifiedAt: NOW.toISOString() }, true)).toBe(false);
+  });
+
+  it('names the feature it refuses', () => {
+    // Tests run with the in-memory outbox, so delivery is available.
+    expect(() => assertEmailVerified(vault, 'Premium')).toThrow('Verify your email address to use Premium.');
+    expect(() => assertEmailVerified({ emailVerifiedAt: NOW.toISOString() }, 'Premium')).not.toThrow();
+  });
+});
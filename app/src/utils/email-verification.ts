@@ -0,0 +1,95 @@
+import { addHours, addSeconds, differenceInSeconds, parseISO } from 'date-fns';
+import type { Vault } from '@/store/use-app-store';
+import { decodeBase64Url, encodeBase64Url, signValue, verifySignature } from '@/utils/crypto';
+import { type MailMessage, isMailDeliveryAvailable } from '@/utils/mailer';
+
+export const VERIFICATION_LINK_HOURS = 24;
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+/** The outstanding verification for an account whose address isn't confirmed yet. */
+export type EmailVerification = {
+  /** HMAC key for this account's links; dropped once the address is verified. */
+  secret: string;
+  /** Unset when the first link couldn't be mailed. */
+  sentAt?: string;
+};
+
+type VerificationClaims = {
+  userId: string;
+  email: string;
+  expiresAt: string;
+};
+
+export const isEmailVerified = (vault: Pick<Vault, 'emailVerifiedAt'> | undefined) =>
+  Boolean(vault?.emailVerifiedAt);
+
+/**
+ * Verification is only asked for while mail can be delivered; otherwise no
+ * account could ever finish it.
+ */
+export const needsEmailVerification = (
+  vault: Pick<Vault, 'emailVerifiedAt'> | undefined,
+  deliverable = isMailDeliveryAvailable(),
+) => deliverable && !isEmailVerified(vault);
+
+/** Throws for features that send mail or money on the strength of the account's email address. */
+export function assertEmailVerified(vault: Pick<Vault, 'emailVerifiedAt'> | undefined, feature: string) {
+  if (needsEmailVerification(vault)) {
+    throw new Error(`Verify your email address to use ${feature}.`);
+  }
+}
+
+/** Seconds until another link may be sent; 0 when a resend is allowed now. */
+export function resendCooldown(verification: EmailVerification | undefined, now = new Date()) {
+  if (!verification?.sentAt) return 0;
+  const availableAt = addSeconds(parseISO(verification.sentAt), RESEND_COOLDOWN_SECONDS);
+  return Math.max(0, differenceInSeconds(availableAt, now, { roundingMethod: 'ceil' }));
+}
+
+/** A `<claims>.<signature>` token binding the link to the account, its address and an expiry. */
+export async function signVerificationToken(secret: string, userId: string, email: string, now = new Date()) {
+  const claims: VerificationClaims = {
+    userId,
+    email,
+    expiresAt: addHours(now, VERIFICATION_LINK_HOURS).toISOString(),
+  };
+  const payload = encodeBase64Url(JSON.stringify(claims));
+  return `${payload}.${await signValue(secret, payload)}`;
+}
+
+/** Reads a token's claims without checking them; `verifyVerificationToken` does that. */
+export function readVerificationToken(token: string): VerificationClaims | undefined {
+  try {
+    const claims = JSON.parse(decodeBase64Url(token.split('.')[0])) as Partial<VerificationClaims>;
+    if (typeof claims.userId !== 'string' || typeof claims.email !== 'string' || typeof claims.expiresAt !== 'string') {
+      return undefined;
+    }
+    return claims as VerificationClaims;
+  } catch {
+    return undefined;
+  }
+}
+
+/** True when the token was signed for this vault's current address and hasn't expired. */
+export async function verifyVerificationToken(vault: Vault, token: string, now = new Date()) {
+  const [payload, signature] = token.split('.');
+  const claims = readVerificationToken(token);
+  if (!vault.verification || !claims || !signature) return false;
+  if (claims.userId !== vault.id || claims.email !== vault.email || parseISO(claims.expiresAt) <= now) {
+    return false;
+  }
+  return verifySignature(vault.verification.secret, payload, signature);
+}
+
+export const VERIFICATION_LINK_PATH = '/verify-email';
+
+export const verificationLink = (origin: string, token: string) =>
+  `${origin}${VERIFICATION_LINK_PATH}?token=${encodeURIComponent(token)}`;
+
+export const verificationMail = (to: string, link: string): MailMessage => ({
+  template: 'email_verification',
+  to,
+  subject: 'Confirm your Aurora Finance email address',
+  text: `Confirm that ${to} is yours to finish setting up your account. The link below works for ${VERIFICATION_LINK_HOURS} hours. If you didn't sign up, ignore this email.`,
+  link,
+});
@@ -0,0 +1,93 @@
+import type { PlanTier, User } from '@/store/use-app-store';
+
+export type Capability =
+  | 'bankImports'
+  | 'pdfReports'
+  | 'customCategories'
+  | 'budgetAlerts'
+  | 'budgetRollover'
+  | 'analyticsEmails'
+  | 'prioritySupport';
+
+export type PlanLimit = 'maxBudgets' | 'maxCategories';
+
+type Entitlements = {
+  capabilities: Record<Capability, boolean>;
+  limits: Record<PlanLimit, number>;
+};
+
+export const PLAN_ENTITLEMENTS: Record<PlanTier, Entitlements> = {
+  free: {
+    capabilities: {
+      bankImports: false,
+      pdfReports: false,
+      customCategories: false,
+      budgetAlerts: false,
+      budgetRollover: false,
+      analyticsEmails: false,
+      prioritySupport: false,
+    },
+    limits: {
+      maxBudgets: 6,
+      maxCategories: 6,
+    },
+  },
+  premium: {
+    capabilities: {
+      bankImports: true,
+      pdfReports: true,
+      customCategories: true,
+      budgetAlerts: true,
+      budgetRollover: true,
+      analyticsEmails: true,
+      prioritySupport: true,
+    },
+    limits: {
+      maxBudgets: 100,
+      maxCategories: 100,
+    },
+  },
+};
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  bankImports: 'bank imports',
+  pdfReports: 'PDF reports',
+  customCategories: 'custom categories',
+  budgetAlerts: 'budget alerts',
+  budgetRollover: 'budget rollover',
+  analyticsEmails: 'email insights',
+  prioritySupport: 'priority support',
+};
+
+const LIMIT_NOUNS: Record<PlanLimit, string> = {
+  maxBudgets: 'budgets',
+  maxCategories: 'categories',
+};
+
+type PlanHolder = Pick<User, 'subscription'> | undefined;
+
+// Signed-out and unknown users get the Free plan.
+const tierOf = (user: PlanHolder): PlanTier => user?.subscription.tier ?? 'free';
+
+export const can = (user: PlanHolder, capability: Capability) =>
+  PLAN_ENTITLEMENTS[tierOf(user)].capabilities[capability];
+
+export const limitOf = (user: PlanHolder, limit: PlanLimit) => PLAN_ENTITLEMENTS[tierOf(user)].limits[limit];
+
+export const isPremium = (user: PlanHolder) => tierOf(user) === 'premium';
+
+export function assertCapability(user: PlanHolder, capability: Capability) {
+  if (!can(user, capability)) {
+    throw new Error(`Upgrade to Premium to use ${CAPABILITY_LABELS[capability]}.`);
+  }
+}
+
+/** Throws when adding one more item would go past the plan's limit. */
+export function assertWithinLimit(user: PlanHolder, limit: PlanLimit, current: number) {
+  const max = limitOf(user, limit);
+  if (current >= max) {
+    throw new Error(
+      `Your plan includes up to ${max} ${LIMIT_NOUNS[limit]}.${isPremium(user) ? '' : ' Upgrade to Premium for more.'}`,
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { formatISO, parseISO } from 'date-fns';
+import type { Budget, ExchangeRate, Transaction } from '@/store/use-app-store';
+import { currencyPrecision } from '@/utils/money';
+import { rescaleSplits } from '@/utils/splits';
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'base' | 'quote' | 'rate' | 'date'>;
+
+const today = () => formatISO(new Date(), { representation: 'date' });
+
+// Prefer the most recent rate on or before the given day; for dates older than
+// the whole table fall back to the earliest rate we know rather than none.
+// A stored EUR→USD rate also answers USD→EUR through its inverse.
+export function findRate(rates: ExchangeRate[], from: string, to: string, date: string) {
+  if (from === to) return 1;
+  const day = date.slice(0, 10);
+
+  const candidates = rates
+    .flatMap((rate) => {
+      if (rate.base === from && rate.quote === to) return [{ date: rate.date, rate: rate.rate }];
+      if (rate.base === to && rate.quote === from) return [{ date: rate.date, rate: 1 / rate.rate }];
+      return [];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  if (candidates.length === 0) return undefined;
+  return (candidates.find((candidate) => candidate.date <= day) ?? candidates[candidates.length - 1])
+    .rate;
+}
+
+export function convertMinor(
+  amount: number,
+  from: string,
+  to: string,
+  date: string,
+  rates: ExchangeRate[],
+) {
+  const rate = findRate(rates, from, to, date);
+  if (rate === undefined) return undefined;
+  const scale = 10 ** (currencyPrecision(to) - currencyPrecision(from));
+  return Math.round(amount * rate * scale);
+}
+
+/**
+ * Converts records into the display currency. Records without a usable rate
+ * are left out of the result and their currency pair reported by `missingPairs`,
+ * so totals never silently mix currencies.
+ */
+export function createCurrencyConverter(rates: ExchangeRate[], displayCurrency: string) {
+  const missing = new Set<string>();
+
+  const convert = (amount: number, currency: string, date: string) => {
+    const converted = convertMinor(amount, currency, displayCurrency, date, rates);
+    if (converted === undefined) {
+      missing.add(`${currency}→${displayCurrency}`);
+    }
+    return converted;
+  };
+
+  const convertTransactions = (transactions: Transaction[]) =>
+    transactions.flatMap((transaction) => {
+      const amount = convert(transaction.amount, transaction.currency, transaction.date);
+      if (amount === undefined) return [];
+      const splits = transaction.splits && rescaleSplits(transaction.splits, transaction.amount, amount);
+      return [{ ...transaction, amount, splits, currency: displayCurrency }];
+    });
+
+  const convertBudgets = (budgets: Budget[]) =>
+    budgets.flatMap((budget) => {
+      const limit = convert(budget.limit, budget.currency, today());
+      return limit === undefined ? [] : [{ ...budget, limit, currency: displayCurrency }];
+    });
+
+  return {
+    convert,
+    convertTransactions,
+    convertBudgets,
+    missingPairs: () => Array.from(missing),
+  };
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export function validateExchangeRate({ base, quote, rate, date }: ExchangeRateInput) {
+  if (!CURRENCY_CODE.test(base) || !CURRENCY_CODE.test(quote)) {
+    throw new Error('Currencies must be three-letter ISO codes.');
+  }
+  if (base === quote) {
+    throw new Error('Choose two different currencies.');
+  }
+  if (!Number.isFinite(rate) || rate <= 0) {
+    throw new Error('Exchange rate must be greater than zero.');
+  }
+  if (Number.isNaN(parseISO(date).getTime())) {
+    throw new Error(`"${date}" is not a valid date.`);
+  }
+}
+
+const normalizeRow = (row: Record<string, unknown>): ExchangeRateInput => {
+  const input = {
+    base: String(row.base ?? '').trim().toUpperCase(),
+    quote: String(row.quote ?? '').trim().toUpperCase(),
+    rate: Number(row.rate),
+    date: String(row.date ?? '').trim().slice(0, 10),
+  };
+  validateExchangeRate(input);
+  return input;
+};
+
+/**
+ * Reads a rate file exported from a spreadsheet or another tool. Accepts CSV
+ * with a `date,base,quote,rate` header (any column order) or a JSON array of
+ * objects with the same keys.
+ */
+export function parseExchangeRateFile(contents: string): ExchangeRateInput[] {
+  const trimmed = contents.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Expected a JSON array of exchange rates.');
+    }
+    return parsed.map((row, index) => {
+      try {
+        return normalizeRow(row as Record<string, unknown>);
+      } catch (cause) {
+        throw new Error(`Row ${index + 1}: ${cause instanceof Error ? cause.message : cause}`);
+      }
+    });
+  }
+
+  const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+  const header = headerLine.split(',').map((column) => column.trim().toLowerCase());
+  for (const column of ['date', 'base', 'quote', 'rate']) {
+    if (!header.includes(column)) {
+      throw new Error(`Missing "${column}" column in the rate file header.`);
+    }
+  }
+
+  return lines
+    .filter((line) => line.trim())
+    .map((line, index) => {
+      const cells = line.split(',').map((cell) => cell.trim());
+      const row = Object.fromEntries(header.map((column, position) => [column, cells[position]]));
+      try {
+        return normalizeRow(row);
+      } catch (cause) {
+        throw new Error(`Line ${index + 2}: ${cause instanceof Error ? cause.message : cause}`);
+      }
+    });
+}
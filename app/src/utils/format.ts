@@ -1,20 +1,16 @@
 import { format, parseISO } from 'date-fns';
 import type { Transaction, TransactionType } from '@/store/use-app-store';
-
-export const formatCurrency = (value: number, currency: string) =>
-  new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 2,
-  }).format(value);
+import { sumMinor } from '@/utils/money';
 
 export const formatDate = (value: string | Date, pattern = 'MMM dd, yyyy') =>
   format(typeof value === 'string' ? parseISO(value) : value, pattern);
 
 export const calculateTotal = (transactions: Transaction[], type: TransactionType) =>
-  transactions
-    .filter((transaction) => transaction.type === type)
-    .reduce((total, transaction) => total + transaction.amount, 0);
+  sumMinor(
+    transactions
+      .filter((transaction) => transaction.type === type)
+      .map((transaction) => transaction.amount),
+  );
 
 export const calculateNet = (transactions: Transaction[]) =>
   calculateTotal(transactions, 'income') - calculateTotal(transactions, 'expense');
@@ -2,7 +2,8 @@
 
 import { addDays, subDays } from 'date-fns';
 import { nanoid } from 'nanoid';
-import type { Transaction, User } from '@/store/use-app-store';
+import type { Account, Transaction, User } from '@/store/use-app-store';
+import { toMinorUnits } from '@/utils/money';
 
 const SAMPLE_MERCHANTS: Record<string, string[]> = {
   Food: ['WholeFoods Market', 'Fresh Bite Café', 'Green Bowl'],
@@ -17,34 +18,40 @@ const SAMPLE_MERCHANTS: Record<string, string[]> = {
 
 const FALLBACK_MERCHANTS = ['Everyday Store', 'Lifestyle Market', 'Essential Goods'];
 
-const randomAmount = (category: string) => {
+const randomAmount = (category: string, currency: string) => {
   switch (category) {
     case 'Salary':
-      return Number((2000 + Math.random() * 2000).toFixed(2));
+      return toMinorUnits(2000 + Math.random() * 2000, currency);
     case 'Rent':
-      return Number((900 + Math.random() * 600).toFixed(2));
+      return toMinorUnits(900 + Math.random() * 600, currency);
     case 'Savings':
-      return Number((150 + Math.random() * 250).toFixed(2));
+      return toMinorUnits(150 + Math.random() * 250, currency);
     default:
-      return Number((20 + Math.random() * 180).toFixed(2));
+      return toMinorUnits(20 + Math.random() * 180, currency);
   }
 };
 
+/** A bank feed line; the store resolves `payee` to a payee record. */
+export type ImportedTransaction = Transaction & { payee: string };
+
 const pickMerchant = (category: string) => {
   const list = SAMPLE_MERCHANTS[category] ?? FALLBACK_MERCHANTS;
   return list[Math.floor(Math.random() * list.length)];
 };
 
-export function generateImportedTransactions(user: User): Transaction[] {
+export function generateImportedTransactions(
+  user: User,
+  account: Account,
+  categories: string[],
+): ImportedTransaction[] {
   const today = new Date();
   const baseDate = subDays(today, 14);
-  const categories = user.categories;
-  const transactions: Transaction[] = [];
+  const transactions: ImportedTransaction[] = [];
 
   for (let i = 0; i < 6; i += 1) {
     const category = categories[Math.floor(Math.random() * categories.length)];
     const type = category === 'Salary' || category === 'Savings' ? 'income' : 'expense';
-    const amount = randomAmount(category);
+    const amount = randomAmount(category, account.currency);
     const date = addDays(baseDate, Math.floor(Math.random() * 14));
 
     transactions.push({
@@ -53,11 +60,11 @@ export function generateImportedTransactions(user: User): Transaction[] {
       type,
       category,
       amount,
+      currency: account.currency,
+      accountId: account.id,
       date: date.toISOString(),
-      notes:
-        type === 'income'
-          ? `${pickMerchant(category)} automated deposit`
-          : `${pickMerchant(category)} automatic sync`,
+      payee: pickMerchant(category),
+      notes: type === 'income' ? 'Automated deposit' : 'Automatic sync',
       source: 'imported',
       createdAt: new Date().toISOString(),
     });
@@ -0,0 +1,137 @@
+import { nanoid } from 'nanoid';
+
+/** Which account mail a message is; the send route rebuilds the text from it. */
+export type MailTemplate = 'password_reset' | 'email_verification';
+
+export type MailMessage = {
+  template: MailTemplate;
+  to: string;
+  subject: string;
+  text: string;
+  /** The one link the message is about, e.g. a reset or verification link. */
+  link?: string;
+};
+
+export type SentMail = MailMessage & {
+  id: string;
+  sentAt: string;
+};
+
+/** Anything that can deliver mail. Account flows only ever talk to this. */
+export type Mailer = {
+  name: string;
+  send: (message: MailMessage) => Promise<void>;
+};
+
+export type MemoryOutbox = Mailer & {
+  /** Newest first. */
+  messages: () => SentMail[];
+  subscribe: (listener: () => void) => () => void;
+  clear: () => void;
+};
+
+/** Keeps sent mail in memory for development and tests instead of delivering it. */
+export function createMemoryOutbox(): MemoryOutbox {
+  let messages: SentMail[] = [];
+  const listeners = new Set<() => void>();
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    name: 'memory',
+    send: async (message) => {
+      messages = [{ ...message, id: nanoid(), sentAt: new Date().toISOString() }, ...messages];
+      notify();
+    },
+    messages: () => messages,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    clear: () => {
+      messages = [];
+      notify();
+    },
+  };
+}
+
+export const memoryOutbox = createMemoryOutbox();
+
+export const MAIL_API_ROUTE = '/api/email/send';
+
+/**
+ * Delivers through the app's send route, which holds the provider credentials.
+ * Only the template, recipient and link travel; the route writes the text.
+ */
+export function createApiMailer(endpoint = MAIL_API_ROUTE): Mailer {
+  return {
+    name: 'api',
+    send: async ({ template, to, link }) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template, to, link }),
+      });
+      if (!response.ok) {
+        const { error } = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(error ?? 'We couldn’t send the email. Please try again later.');
+      }
+    },
+  };
+}
+
+/**
+ * Mail in the outbox can be read by anyone using the app, so it only stands in
+ * for delivery in development and tests. Everywhere else a real mailer has to
+ * be installed with `installMailer` or `setMailer`.
+ */
+export const isOutboxEnabled = process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+
+let activeMailer: Mailer | undefined = isOutboxEnabled ? memoryOutbox : undefined;
+// Whether mail actually reaches inboxes. Features that are gated on a verified
+// address only ask for one while this is true.
+let deliveryAvailable = isOutboxEnabled;
+const deliveryListeners = new Set<() => void>();
+
+const setDeliveryAvailable = (available: boolean) => {
+  deliveryAvailable = available;
+  deliveryListeners.forEach((listener) => listener());
+};
+
+export const isMailDeliveryAvailable = () => deliveryAvailable;
+
+export function subscribeMailDelivery(listener: () => void) {
+  deliveryListeners.add(listener);
+  return () => {
+    deliveryListeners.delete(listener);
+  };
+}
+
+export function getMailer() {
+  if (!activeMailer) {
+    throw new Error('Email delivery is not available right now. Please try again later.');
+  }
+  return activeMailer;
+}
+
+export const isOutboxActive = () => isOutboxEnabled && activeMailer === memoryOutbox;
+
+/**
+ * Called once at startup: production builds deliver through the send route,
+ * which reports whether the server has a provider configured.
+ */
+export function installMailer() {
+  if (activeMailer) return;
+  activeMailer = createApiMailer();
+  void fetch(MAIL_API_ROUTE)
+    .then((response) => response.json() as Promise<{ available?: boolean }>)
+    .then(({ available }) => setDeliveryAvailable(available === true))
+    .catch(() => setDeliveryAvailable(false));
+}
+
+export function setMailer(mailer: Mailer) {
+  if (mailer === memoryOutbox && !isOutboxEnabled) {
+    throw new Error('The memory outbox is only available in development and tests.');
+  }
+  activeMailer = mailer;
+  setDeliveryAvailable(true);
+}
@@ -0,0 +1,76 @@
+/**
+ * Money is stored as integer minor units (cents, pence, yen…) so sums stay
+ * exact. Convert to major units only at the edges: form input and display.
+ */
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'INR'];
+
+const precisionCache = new Map<string, number>();
+
+export function currencyPrecision(currency: string) {
+  const cached = precisionCache.get(currency);
+  if (cached !== undefined) return cached;
+
+  let precision = 2;
+  try {
+    precision =
+      new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions()
+        .maximumFractionDigits ?? 2;
+  } catch {
+    precision = 2;
+  }
+  precisionCache.set(currency, precision);
+  return precision;
+}
+
+export function toMinorUnits(value: string | number, currency: string) {
+  const precision = currencyPrecision(currency);
+
+  if (typeof value === 'number') {
+    // Shift the decimal point through the string form so 1.005 → 100.5 → 101,
+    // rather than multiplying and inheriting the float error.
+    const shifted = Number(`${value}e${precision}`);
+    return Math.round(Number.isNaN(shifted) ? value * 10 ** precision : shifted);
+  }
+
+  const match = value.trim().match(/^(-)?(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`"${value}" is not a valid amount.`);
+  }
+  const [, sign, whole = '', fraction = ''] = match;
+  const padded = fraction.padEnd(precision + 1, '0');
+  let minor = Number(whole || '0') * 10 ** precision + Number(padded.slice(0, precision) || '0');
+  if (Number(padded[precision]) >= 5) {
+    minor += 1;
+  }
+  return sign ? -minor : minor;
+}
+
+export const fromMinorUnits = (minor: number, currency: string) =>
+  minor / 10 ** currencyPrecision(currency);
+
+export const formatMinorForInput = (minor: number, currency: string) =>
+  fromMinorUnits(minor, currency).toFixed(currencyPrecision(currency));
+
+export const inputStep = (currency: string) => {
+  const precision = currencyPrecision(currency);
+  return (1 / 10 ** precision).toFixed(precision);
+};
+
+export const sumMinor = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export function assertMinorUnits(value: number) {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error('Amounts must be stored as whole minor units.');
+  }
+}
+
+export const formatMoney = (minor: number, currency: string) => {
+  const precision = currencyPrecision(currency);
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  }).format(fromMinorUnits(minor, currency));
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { PasswordResetToken } from '@/store/use-app-store';
+import { digestHex } from '@/utils/crypto';
+import { findResetToken, resetLink, resetTokenExpiry } from '@/utils/password-reset';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+
+const entry = async (token: string, now = NOW): Promise<PasswordResetToken> => ({
+  id: token,
+  userId: 'u1',
+  tokenHash: await digestHex(token),
+  createdAt: now.toISOString(),
+  expiresAt: resetTokenExpiry(now),
+});
+
+describe('reset tokens', () => {
+  it('are found by the token from the link, never by the stored hash', async () => {
+    const entries = [await entry('first'), await entry('second')];
+
+    expect(await findResetToken(entries, 'second', NOW)).toBe(entries[1]);
+    expect(await findResetToken(entries, entries[1].tokenHash, NOW)).toBeUndefined();
+    expect(await findResetToken(entries, 'unknown', NOW)).toBeUndefined();
+  });
+
+  it('expire an hour after they are issued', async () => {
+    const entries = [await entry('token')];
+
+    expect(entries[0].expiresAt).toBe('2026-03-15T13:00:00.000Z');
+    expect(await findResetToken(entries, 'token', new Date('2026-03-15T12:59:59.000Z'))).toBe(entries[0]);
+    expect(await findResetToken(entries, 'token', new Date('2026-03-15T13:00:00.000Z'))).toBeUndefined();
+  });
+
+  it('travel in a link to the confirm page', () => {
+    expect(resetLink('https://app.example', 'a+b/c')).toBe('https://app.example/reset-password/confirm?token=a%2Bb%2Fc');
+  });
+});
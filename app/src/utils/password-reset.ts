@@ -0,0 +1,30 @@
+import { addMinutes, parseISO } from 'date-fns';
+import type { PasswordResetToken } from '@/store/use-app-store';
+import { digestHex } from '@/utils/crypto';
+import type { MailMessage } from '@/utils/mailer';
+
+export const RESET_TOKEN_MINUTES = 60;
+
+export const resetTokenExpiry = (now = new Date()) => addMinutes(now, RESET_TOKEN_MINUTES).toISOString();
+
+export const isResetTokenExpired = (entry: PasswordResetToken, now = new Date()) =>
+  parseISO(entry.expiresAt) <= now;
+
+/** The stored entry for a token from a reset link, if it is still redeemable. */
+export async function findResetToken(entries: PasswordResetToken[], token: string, now = new Date()) {
+  const tokenHash = await digestHex(token);
+  return entries.find((entry) => entry.tokenHash === tokenHash && !isResetTokenExpired(entry, now));
+}
+
+export const RESET_LINK_PATH = '/reset-password/confirm';
+
+export const resetLink = (origin: string, token: string) =>
+  `${origin}${RESET_LINK_PATH}?token=${encodeURIComponent(token)}`;
+
+export const resetMail = (to: string, link: string): MailMessage => ({
+  template: 'password_reset',
+  to,
+  subject: 'Reset your Aurora Finance password',
+  text: `Someone asked to reset the password for ${to}. Open the link below within ${RESET_TOKEN_MINUTES} minutes to choose a new one. If it wasn't you, ignore this email; your password stays the same.`,
+  link,
+});
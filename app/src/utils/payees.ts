@@ -0,0 +1,84 @@
+import { eachMonthOfInterval, format, parseISO, subMonths } from 'date-fns';
+import type { Payee, Transaction } from '@/store/use-app-store';
+
+/** Display form of a payee name: trimmed, single-spaced. */
+export const cleanPayeeName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+/**
+ * Matching key for payee names and aliases. Case, accents, punctuation,
+ * spacing and trailing store numbers are ignored, so "WHOLEFOODS MKT #123"
+ * style variants can be attached to one payee as aliases.
+ */
+export const payeeKey = (name: string) =>
+  name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/(#|no\.?\s*)\d+\s*$/, '')
+    .replace(/[^a-z0-9]/g, '');
+
+export const payeeKeys = (payee: Pick<Payee, 'name' | 'aliases'>) =>
+  [payee.name, ...payee.aliases].map(payeeKey);
+
+export function matchPayee(payees: Payee[], userId: string, name: string) {
+  const key = payeeKey(name);
+  if (!key) return undefined;
+  return payees.find((payee) => payee.userId === userId && payeeKeys(payee).includes(key));
+}
+
+export type PayeeGroup = {
+  /** Missing for transactions without a payee. */
+  payeeId?: string;
+  name: string;
+  count: number;
+  spent: number;
+  received: number;
+};
+
+/** Spending and income per payee, largest spend first. Transfers are left out. */
+export function groupByPayee(transactions: Transaction[], payees: Payee[]): PayeeGroup[] {
+  const groups = new Map<string, PayeeGroup>();
+  transactions
+    .filter((transaction) => transaction.type !== 'transfer')
+    .forEach((transaction) => {
+      const key = transaction.payeeId ?? '';
+      const group = groups.get(key) ?? {
+        payeeId: transaction.payeeId,
+        name: payees.find((payee) => payee.id === transaction.payeeId)?.name ?? 'No payee',
+        count: 0,
+        spent: 0,
+        received: 0,
+      };
+      group.count += 1;
+      if (transaction.type === 'expense') group.spent += transaction.amount;
+      else group.received += transaction.amount;
+      groups.set(key, group);
+    });
+  return Array.from(groups.values()).sort((a, b) => b.spent - a.spent || a.name.localeCompare(b.name));
+}
+
+export type PayeeMonth = {
+  label: string;
+  spent: number;
+  received: number;
+};
+
+/** Month-by-month totals for one payee over the last `months` months, oldest first. */
+export function payeeHistory(transactions: Transaction[], payeeId: string, months = 12, now = new Date()) {
+  const buckets = new Map<string, PayeeMonth>(
+    eachMonthOfInterval({ start: subMonths(now, months - 1), end: now }).map((month) => [
+      format(month, 'yyyy-MM'),
+      { label: format(month, 'MMM yy'), spent: 0, received: 0 },
+    ]),
+  );
+  transactions
+    .filter((transaction) => transaction.payeeId === payeeId && transaction.type !== 'transfer')
+    .forEach((transaction) => {
+      const bucket = buckets.get(format(parseISO(transaction.date), 'yyyy-MM'));
+      if (!bucket) return;
+      if (transaction.type === 'expense') bucket.spent += transaction.amount;
+      else bucket.received += transaction.amount;
+    });
+  return Array.from(buckets.values());
+}
@@ -0,0 +1,65 @@
+import { nanoid } from 'nanoid';
+
+export type ChargeRequest = {
+  userId: string;
+  /** Integer minor units. */
+  amount: number;
+  currency: string;
+  description: string;
+  /**
+   * Identifies the bill being paid. Providers take one payment per key and
+   * answer a repeat with the first result, so a charge sent twice, from two
+   * tabs or after a lost response, is only paid once.
+   */
+  idempotencyKey: string;
+};
+
+export type ChargeResult =
+  | { status: 'succeeded'; reference: string }
+  | { status: 'failed'; reason: string };
+
+/** Anything that can take a payment. Billing only ever talks to this. */
+export type PaymentProvider = {
+  name: string;
+  charge: (request: ChargeRequest) => Promise<ChargeResult>;
+};
+
+export type MockPaymentProvider = PaymentProvider & {
+  /** While on, every charge is declined, to exercise past-due handling. */
+  setDeclining: (declining: boolean) => void;
+  isDeclining: () => boolean;
+};
+
+export function createMockPaymentProvider(): MockPaymentProvider {
+  let declining = false;
+  // Only successful payments are remembered; a declined card may be retried.
+  const paid = new Map<string, ChargeResult>();
+
+  return {
+    name: 'mock',
+    charge: async ({ idempotencyKey }) => {
+      const previous = paid.get(idempotencyKey);
+      if (previous) return previous;
+      if (declining) {
+        return { status: 'failed', reason: 'Your card was declined (simulated).' };
+      }
+      const result: ChargeResult = { status: 'succeeded', reference: `mock_${nanoid(12)}` };
+      paid.set(idempotencyKey, result);
+      return result;
+    },
+    setDeclining: (value) => {
+      declining = value;
+    },
+    isDeclining: () => declining,
+  };
+}
+
+export const mockPaymentProvider = createMockPaymentProvider();
+
+let activeProvider: PaymentProvider = mockPaymentProvider;
+
+export const getPaymentProvider = () => activeProvider;
+
+export const setPaymentProvider = (provider: PaymentProvider) => {
+  activeProvider = provider;
+};
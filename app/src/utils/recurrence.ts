@@ -0,0 +1,137 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  isWeekend,
+  lastDayOfMonth,
+  parseISO,
+  startOfMonth,
+  subDays,
+} from 'date-fns';
+import type {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurringTemplate,
+} from '@/store/use-app-store';
+import { rescaleSplits } from '@/utils/splits';
+
+export const RECURRENCE_FREQUENCIES: { label: string; value: RecurrenceFrequency }[] = [
+  { label: 'Daily', value: 'daily' },
+  { label: 'Weekly', value: 'weekly' },
+  { label: 'Monthly', value: 'monthly' },
+  { label: 'Last business day', value: 'last_business_day' },
+  { label: 'Yearly', value: 'yearly' },
+];
+
+export type Occurrence = {
+  template: RecurringTemplate;
+  /** yyyy-MM-dd the occurrence is scheduled for. */
+  date: string;
+  skipped: boolean;
+  amount: number;
+  notes?: string;
+};
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const todayKey = () => toDay(new Date());
+
+const lastBusinessDay = (month: Date) => {
+  let day = lastDayOfMonth(month);
+  while (isWeekend(day)) {
+    day = subDays(day, 1);
+  }
+  return day;
+};
+
+// The k-th candidate date counted from the start. Month-based rules are always
+// computed from the start date so a rule on the 31st lands on Feb 28 and then
+// back on Mar 31, instead of drifting to the 28th for good.
+const candidate = (start: Date, { frequency, interval }: RecurrenceRule, k: number) => {
+  const step = k * interval;
+  switch (frequency) {
+    case 'daily':
+      return addDays(start, step);
+    case 'weekly':
+      return addWeeks(start, step);
+    case 'monthly':
+      return addMonths(start, step);
+    case 'last_business_day':
+      return lastBusinessDay(addMonths(startOfMonth(start), step));
+    case 'yearly':
+      return addYears(start, step);
+  }
+};
+
+/** Scheduled dates on or before `until`, oldest first, honouring the end condition. */
+export function* scheduledDates(template: Pick<RecurringTemplate, 'startDate' | 'rule'>, until: string) {
+  const { rule } = template;
+  const start = parseISO(template.startDate);
+  let count = 0;
+
+  for (let k = 0; ; k += 1) {
+    const date = toDay(candidate(start, rule, k));
+    // Only the first last-business-day candidate can fall before the start.
+    if (date < template.startDate) continue;
+    if (date > until) return;
+    if (rule.end.type === 'on' && date > rule.end.date) return;
+    if (rule.end.type === 'after' && count >= rule.end.count) return;
+    count += 1;
+    yield date;
+  }
+}
+
+const resolve = (template: RecurringTemplate, date: string): Occurrence => {
+  const exception = template.exceptions?.[date];
+  return {
+    template,
+    date,
+    skipped: Boolean(exception?.skipped),
+    amount: exception?.amount ?? template.amount,
+    notes: exception?.notes ?? template.notes,
+  };
+};
+
+/**
+ * Occurrences that are due but have not been turned into transactions yet,
+ * including any missed while the app was closed.
+ */
+export const dueOccurrences = (template: RecurringTemplate, today: string) =>
+  Array.from(scheduledDates(template, today))
+    .filter((date) => !template.generatedThrough || date > template.generatedThrough)
+    .map((date) => resolve(template, date));
+
+export function upcomingOccurrences(templates: RecurringTemplate[], today: string, days = 30) {
+  const horizon = toDay(addDays(parseISO(today), days));
+  return templates
+    .flatMap((template) =>
+      Array.from(scheduledDates(template, horizon))
+        .filter((date) => date > today)
+        .map((date) => resolve(template, date)),
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export const occurrenceSplits = (template: RecurringTemplate, amount: number) =>
+  template.splits && amount !== template.amount
+    ? rescaleSplits(template.splits, template.amount, amount)
+    : template.splits;
+
+export function describeRule({ frequency, interval, end }: RecurrenceRule) {
+  const every = {
+    daily: interval === 1 ? 'Every day' : `Every ${interval} days`,
+    weekly: interval === 1 ? 'Every week' : `Every ${interval} weeks`,
+    monthly: interval === 1 ? 'Every month' : `Every ${interval} months`,
+    last_business_day:
+      interval === 1
+        ? 'Last business day of every month'
+        : `Last business day every ${interval} months`,
+    yearly: interval === 1 ? 'Every year' : `Every ${interval} years`,
+  }[frequency];
+
+  if (end.type === 'on') return `${every} until ${end.date}`;
+  if (end.type === 'after') return `${every}, ${end.count} times`;
+  return every;
+}
@@ -1,27 +1,61 @@
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
-import { formatDate, formatCurrency } from "@/utils/format";
-import type { Budget, Transaction, User } from "@/store/use-app-store";
+import { calculateTotal, formatDate } from "@/utils/format";
+import { formatMoney, sumMinor } from "@/utils/money";
+import type { PeriodTotals } from "@/utils/aggregates";
+import { categoryAmount, categoryLines, isSplit } from "@/utils/splits";
+import { assertCapability } from "@/utils/entitlements";
+import { hasTag, normalizeTag } from "@/utils/tags";
+import { groupByPayee } from "@/utils/payees";
+import type { Budget, Payee, Transaction, User } from "@/store/use-app-store";
 
 export type ReportTimeframe = "daily" | "monthly" | "yearly";
 
+export type ReportGrouping = "category" | "payee";
+
 type ReportOptions = {
   user: User;
   transactions: Transaction[];
   budgets: Budget[];
   currency: string;
   timeframe: ReportTimeframe;
+  /** Limits the report to transactions carrying this tag; budgets are left out. */
+  tag?: string;
+  payees?: Payee[];
+  /** `payee` adds a spending-by-payee table after the transactions. */
+  groupBy?: ReportGrouping;
+  /** Totals already kept for exactly `transactions`; recomputed when a tag narrows the report. */
+  summary?: PeriodTotals;
+};
+
+type DocWithTable = jsPDF & {
+  lastAutoTable?: {
+    finalY: number;
+  };
 };
 
 export function generateFinancialReport({
   user,
-  transactions,
-  budgets,
+  transactions: allTransactions,
+  budgets: allBudgets,
   currency,
   timeframe,
+  tag,
+  payees = [],
+  groupBy = "category",
+  summary: precomputed,
 }: ReportOptions) {
+  assertCapability(user, "pdfReports");
+  const tagName = tag ? normalizeTag(tag) : undefined;
+  const transactions = tagName
+    ? allTransactions.filter((transaction) => hasTag(transaction, tagName))
+    : allTransactions;
+  const budgets = tagName ? [] : allBudgets;
+  const summary = tagName ? undefined : precomputed;
   const doc = new jsPDF();
-  const title = `Aurora Finance Report (${timeframe.toUpperCase()})`;
+  const title = tagName
+    ? `Aurora Finance Report: #${tagName} (${timeframe.toUpperCase()})`
+    : `Aurora Finance Report (${timeframe.toUpperCase()})`;
 
   doc.setFont("helvetica", "bold");
   doc.setFontSize(18);
@@ -32,33 +66,32 @@ export function generateFinancialReport({
   doc.text(`Prepared for ${user.name} (${user.email})`, 14, 28);
   doc.text(`Generated on ${formatDate(new Date(), "PPPpp")}`, 14, 34);
 
-  const incomeTotal = transactions
-    .filter((transaction) => transaction.type === "income")
-    .reduce((total, transaction) => total + transaction.amount, 0);
-
-  const expenseTotal = transactions
-    .filter((transaction) => transaction.type === "expense")
-    .reduce((total, transaction) => total + transaction.amount, 0);
-
+  const incomeTotal = summary?.income ?? calculateTotal(transactions, "income");
+  const expenseTotal = summary?.expenses ?? calculateTotal(transactions, "expense");
   const net = incomeTotal - expenseTotal;
 
   doc.text(
-    `Summary: Income ${formatCurrency(incomeTotal, currency)} | Expenses ${formatCurrency(
+    `Summary: Income ${formatMoney(incomeTotal, currency)} | Expenses ${formatMoney(
       expenseTotal,
       currency,
-    )} | Net ${formatCurrency(net, currency)}`,
+    )} | Net ${formatMoney(net, currency)}`,
     14,
     44,
   );
 
   autoTable(doc, {
     startY: 52,
-    head: [["Date", "Category", "Type", "Amount", "Notes"]],
+    head: [["Date", "Payee", "Category", "Type", "Amount", "Notes"]],
     body: transactions.map((transaction) => [
       formatDate(transaction.date),
-      transaction.category,
+      payees.find((payee) => payee.id === transaction.payeeId)?.name ?? "—",
+      categoryLines(transaction)
+        .map((line) =>
+          isSplit(transaction) ? `${line.category} ${formatMoney(line.amount, currency)}` : line.category,
+        )
+        .join("\n"),
       transaction.type,
-      formatCurrency(transaction.amount, currency),
+      formatMoney(transaction.amount, currency),
       transaction.notes ?? "—",
     ]),
     styles: {
@@ -66,8 +99,9 @@ export function generateFinancialReport({
       cellPadding: 3,
     },
     columnStyles: {
-      1: { cellWidth: 30 },
-      4: { cellWidth: 50 },
+      1: { cellWidth: 28 },
+      2: { cellWidth: 30 },
+      5: { cellWidth: 40 },
     },
     headStyles: {
       fillColor: [37, 99, 235],
@@ -78,23 +112,43 @@ export function generateFinancialReport({
     },
   });
 
+  if (groupBy === "payee") {
+    autoTable(doc, {
+      startY: ((doc as DocWithTable).lastAutoTable?.finalY ?? 62) + 10,
+      head: [["Payee", "Transactions", "Spent", "Received"]],
+      body: groupByPayee(transactions, payees).map((group) => [
+        group.name,
+        String(group.count),
+        formatMoney(group.spent, currency),
+        formatMoney(group.received, currency),
+      ]),
+      styles: {
+        fontSize: 10,
+        cellPadding: 3,
+      },
+      headStyles: {
+        fillColor: [37, 99, 235],
+      },
+      alternateRowStyles: {
+        fillColor: [245, 247, 255],
+      },
+    });
+  }
+
   if (budgets.length > 0) {
-    const docWithTable = doc as jsPDF & {
-      lastAutoTable?: {
-        finalY: number;
-      };
-    };
-    const nextY = (docWithTable.lastAutoTable?.finalY ?? 62) + 10;
+    const nextY = ((doc as DocWithTable).lastAutoTable?.finalY ?? 62) + 10;
 
     autoTable(doc, {
       startY: nextY,
       head: [["Category", "Limit", "Status"]],
       body: budgets.map((budget) => {
-        const spent = transactions
-          .filter(
-            (transaction) => transaction.category === budget.category && transaction.type === "expense",
-          )
-          .reduce((total, transaction) => total + transaction.amount, 0);
+        const spent = summary
+          ? (summary.categories.get(budget.category) ?? 0)
+          : sumMinor(
+              transactions
+                .filter((transaction) => transaction.type === "expense")
+                .map((transaction) => categoryAmount(transaction, budget.category)),
+            );
 
         const progress = spent / budget.limit;
         const status =
@@ -104,7 +158,7 @@ export function generateFinancialReport({
 
         return [
           budget.category,
-          formatCurrency(budget.limit, currency),
+          formatMoney(budget.limit, currency),
           status,
         ];
       }),
@@ -121,5 +175,5 @@ export function generateFinancialReport({
     });
   }
 
-  doc.save(`aurora-finance-${timeframe}-report.pdf`);
+  doc.save(tagName ? `aurora-finance-${tagName}-${timeframe}-report.pdf` : `aurora-finance-${timeframe}-report.pdf`);
 }
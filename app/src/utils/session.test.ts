@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_PIN_ATTEMPTS,
+  PIN_PATTERN,
+  createSession,
+  isSessionExpired,
+  isSessionIdle,
+  isSessionRevoked,
+  pinAttemptsLeft,
+  shouldRecordActivity,
+} from '@/utils/session';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const later = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+describe('sessions', () => {
+  const session = createSession('u1', NOW);
+
+  it('start unlocked with no failed PINs and end 12 hours after sign-in', () => {
+    expect(session).toEqual({
+      userId: 'u1',
+      startedAt: NOW.toISOString(),
+      expiresAt: '2026-03-16T00:00:00.000Z',
+      lastActiveAt: NOW.toISOString(),
+      failedPinAttempts: 0,
+    });
+    expect(isSessionExpired(session, later(12 * 3600 - 1))).toBe(false);
+    expect(isSessionExpired(session, later(12 * 3600))).toBe(true);
+  });
+
+  it('expire at the absolute end however active the user was', () => {
+    expect(isSessionExpired({ ...session, lastActiveAt: later(12 * 3600 - 10).toISOString() }, later(12 * 3600))).toBe(
+      true,
+    );
+  });
+
+  it('go idle after 15 minutes without activity', () => {
+    expect(isSessionIdle(session, later(15 * 60 - 1))).toBe(false);
+    expect(isSessionIdle(session, later(15 * 60))).toBe(true);
+    expect(isSessionIdle({ ...session, lastActiveAt: later(600).toISOString() }, later(15 * 60))).toBe(false);
+  });
+
+  it('are revoked by a password reset at or after they began', () => {
+    expect(isSessionRevoked(session)).toBe(false);
+    expect(isSessionRevoked(session, later(-1).toISOString())).toBe(false);
+    expect(isSessionRevoked(session, NOW.toISOString())).toBe(true);
+    expect(isSessionRevoked(session, later(60).toISOString())).toBe(true);
+  });
+
+  it('write activity back at most once a minute', () => {
+    expect(shouldRecordActivity(session, later(59))).toBe(false);
+    expect(shouldRecordActivity(session, later(60))).toBe(true);
+  });
+});
+
+describe('PINs', () => {
+  it('are four to six digits', () => {
+    expect(['1234', '123456'].every((pin) => PIN_PATTERN.test(pin))).toBe(true);
+    expect(['123', '1234567', '12a4', ' 1234'].some((pin) => PIN_PATTERN.test(pin))).toBe(false);
+  });
+
+  it('allow five wrong attempts before only the password unlocks', () => {
+    const session = createSession('u1', NOW);
+    expect(pinAttemptsLeft(session)).toBe(MAX_PIN_ATTEMPTS);
+    expect(pinAttemptsLeft({ ...session, failedPinAttempts: 4 })).toBe(1);
+    expect(pinAttemptsLeft({ ...session, failedPinAttempts: 7 })).toBe(0);
+  });
+});
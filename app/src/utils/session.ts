@@ -0,0 +1,36 @@
+import { addHours, differenceInSeconds, parseISO } from 'date-fns';
+import type { Session } from '@/store/use-app-store';
+
+/** Signed-in sessions end this long after sign-in, however active. */
+export const SESSION_HOURS = 12;
+export const IDLE_LOCK_MINUTES = 15;
+/** Wrong PINs allowed before only the full password unlocks. */
+export const MAX_PIN_ATTEMPTS = 5;
+// Activity is written back at most this often; every write re-seals the vault.
+export const ACTIVITY_INTERVAL_SECONDS = 60;
+
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+export function createSession(userId: string, now = new Date()): Session {
+  return {
+    userId,
+    startedAt: now.toISOString(),
+    expiresAt: addHours(now, SESSION_HOURS).toISOString(),
+    lastActiveAt: now.toISOString(),
+    failedPinAttempts: 0,
+  };
+}
+
+export const isSessionExpired = (session: Session, now = new Date()) => parseISO(session.expiresAt) <= now;
+
+/** True for a session begun before `revokedAt`, when the account's password was reset. */
+export const isSessionRevoked = (session: Pick<Session, 'startedAt'>, revokedAt?: string) =>
+  revokedAt !== undefined && parseISO(session.startedAt) <= parseISO(revokedAt);
+
+export const isSessionIdle = (session: Session, now = new Date()) =>
+  differenceInSeconds(now, parseISO(session.lastActiveAt)) >= IDLE_LOCK_MINUTES * 60;
+
+export const shouldRecordActivity = (session: Session, now = new Date()) =>
+  differenceInSeconds(now, parseISO(session.lastActiveAt)) >= ACTIVITY_INTERVAL_SECONDS;
+
+export const pinAttemptsLeft = (session: Session) => Math.max(0, MAX_PIN_ATTEMPTS - session.failedPinAttempts);
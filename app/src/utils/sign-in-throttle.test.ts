@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { SignInAttempt } from '@/store/use-app-store';
+import {
+  LOCKOUT_THRESHOLD,
+  lockedUntil,
+  pruneAttempts,
+  recordFailure,
+  retryDelaySeconds,
+  secondsUntilRetry,
+} from '@/utils/sign-in-throttle';
+
+const NOW = new Date('2026-03-15T12:00:00.000Z');
+const later = (seconds: number) => new Date(NOW.getTime() + seconds * 1000);
+
+// The record after `count` failures, all at `now`.
+const failures = (count: number, now = NOW) => {
+  let attempt: SignInAttempt | undefined;
+  for (let index = 0; index < count; index += 1) attempt = recordFailure(attempt, 'ada@example.com', 'a1', now);
+  return attempt!;
+};
+
+describe('retry delays', () => {
+  it('let three failures through, then double from two seconds', () => {
+    expect([1, 2, 3, 4, 5, 6, 7].map(retryDelaySeconds)).toEqual([0, 0, 2, 4, 8, 16, 32]);
+  });
+
+  it('count down from the last failure', () => {
+    const attempt = failures(4);
+    expect(secondsUntilRetry(attempt, NOW)).toBe(4);
+    expect(secondsUntilRetry(attempt, later(3.5))).toBe(1);
+    expect(secondsUntilRetry(attempt, later(4))).toBe(0);
+    expect(secondsUntilRetry(undefined, NOW)).toBe(0);
+  });
+});
+
+describe('lockouts', () => {
+  it('lock the address for 15 minutes at the eighth failure in a row', () => {
+    expect(failures(LOCKOUT_THRESHOLD - 1).lockedUntil).toBeUndefined();
+    const locked = failures(LOCKOUT_THRESHOLD);
+    expect(locked.lockedUntil).toBe('2026-03-15T12:15:00.000Z');
+    expect(lockedUntil(locked, later(899))).toEqual(new Date('2026-03-15T12:15:00.000Z'));
+    expect(secondsUntilRetry(locked, later(899))).toBe(1);
+    expect(lockedUntil(locked, later(900))).toBeUndefined();
+  });
+
+  it('start the count again once over', () => {
+    const next = recordFailure(failures(LOCKOUT_THRESHOLD), 'ada@example.com', 'a2', later(900));
+    expect(next).toMatchObject({ id: 'a1', failures: 1, lockedUntil: undefined });
+  });
+});
+
+describe('failure records', () => {
+  it('forget failures after an hour without another', () => {
+    expect(recordFailure(failures(5), 'ada@example.com', 'a2', later(3600)).failures).toBe(1);
+    expect(recordFailure(failures(5), 'ada@example.com', 'a2', later(3599)).failures).toBe(6);
+  });
+
+  it('are pruned once they hold nothing back', () => {
+    const recent = failures(2, later(3000));
+    expect(pruneAttempts([failures(2), recent, failures(LOCKOUT_THRESHOLD)], later(3600))).toEqual([recent]);
+  });
+});
@@ -0,0 +1,51 @@
+import { addMinutes, addSeconds, differenceInSeconds, parseISO } from 'date-fns';
+import type { SignInAttempt } from '@/store/use-app-store';
+
+/** Failures allowed back to back before each retry has to wait. */
+export const FREE_ATTEMPTS = 3;
+/** Failures in a row that lock sign-in for the email address. */
+export const LOCKOUT_THRESHOLD = 8;
+export const LOCKOUT_MINUTES = 15;
+// Failures this old no longer count towards a delay or lockout.
+const ATTEMPT_WINDOW_MINUTES = 60;
+const BASE_DELAY_SECONDS = 2;
+
+/** Wait before the next attempt after `failures` failures: 2s, 4s, 8s... from the fourth on. */
+export const retryDelaySeconds = (failures: number) =>
+  failures < FREE_ATTEMPTS ? 0 : BASE_DELAY_SECONDS * 2 ** (failures - FREE_ATTEMPTS);
+
+/** When the address's lockout ends, or undefined when it isn't locked at `now`. */
+export function lockedUntil(attempt: SignInAttempt | undefined, now = new Date()) {
+  if (!attempt?.lockedUntil) return undefined;
+  const until = parseISO(attempt.lockedUntil);
+  return until > now ? until : undefined;
+}
+
+// A finished lockout or a long pause wipes the slate.
+function isSettled(attempt: SignInAttempt, now: Date) {
+  if (attempt.lockedUntil) return parseISO(attempt.lockedUntil) <= now;
+  return addMinutes(parseISO(attempt.lastFailedAt), ATTEMPT_WINDOW_MINUTES) <= now;
+}
+
+/** Seconds before the address may try again; 0 when it may try now. */
+export function secondsUntilRetry(attempt: SignInAttempt | undefined, now = new Date()) {
+  if (!attempt || isSettled(attempt, now)) return 0;
+  const until = lockedUntil(attempt, now) ?? addSeconds(parseISO(attempt.lastFailedAt), retryDelaySeconds(attempt.failures));
+  return Math.max(0, differenceInSeconds(until, now, { roundingMethod: 'ceil' }));
+}
+
+/** The address's record after one more failure, locked once it reaches the threshold. */
+export function recordFailure(attempt: SignInAttempt | undefined, email: string, id: string, now = new Date()): SignInAttempt {
+  const failures = attempt && !isSettled(attempt, now) ? attempt.failures + 1 : 1;
+  return {
+    id: attempt?.id ?? id,
+    email,
+    failures,
+    lastFailedAt: now.toISOString(),
+    lockedUntil: failures >= LOCKOUT_THRESHOLD ? addMinutes(now, LOCKOUT_MINUTES).toISOString() : undefined,
+  };
+}
+
+/** Drops records that no longer hold anything back, so unknown addresses don't pile up. */
+export const pruneAttempts = (attempts: SignInAttempt[], now = new Date()) =>
+  attempts.filter((attempt) => !isSettled(attempt, now));
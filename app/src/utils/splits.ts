@@ -0,0 +1,82 @@
+import type { Transaction, TransactionSplit } from '@/store/use-app-store';
+import { assertMinorUnits, sumMinor } from '@/utils/money';
+
+export const isSplit = (transaction: Pick<Transaction, 'splits'>) =>
+  (transaction.splits?.length ?? 0) > 1;
+
+// The category lines a transaction counts against. Unsplit transactions are a
+// single line for their whole amount, so callers never need to branch.
+export const categoryLines = (transaction: Transaction): TransactionSplit[] =>
+  isSplit(transaction)
+    ? transaction.splits!
+    : [{ category: transaction.category, amount: transaction.amount }];
+
+export const categoryAmount = (transaction: Transaction, category: string) =>
+  sumMinor(
+    categoryLines(transaction)
+      .filter((line) => line.category === category)
+      .map((line) => line.amount),
+  );
+
+export function assertSplitsBalance(amount: number, splits: TransactionSplit[]) {
+  splits.forEach((line) => {
+    assertMinorUnits(line.amount);
+    if (line.amount <= 0) {
+      throw new Error('Every split line needs an amount greater than zero.');
+    }
+    if (!line.category.trim()) {
+      throw new Error('Every split line needs a category.');
+    }
+  });
+  if (sumMinor(splits.map((line) => line.amount)) !== amount) {
+    throw new Error('Split lines must add up to the transaction total.');
+  }
+}
+
+/**
+ * Rescales split lines to a new total (e.g. after currency conversion) so
+ * they still add up exactly. Rounding drift lands on the largest line.
+ */
+export function rescaleSplits(splits: TransactionSplit[], from: number, to: number) {
+  if (from === 0) return splits.map((line) => ({ ...line, amount: 0 }));
+  const scaled = splits.map((line) => ({ ...line, amount: Math.round((line.amount * to) / from) }));
+  const drift = to - sumMinor(scaled.map((line) => line.amount));
+  if (drift !== 0) {
+    const largest = scaled.reduce(
+      (max, line, index) => (Math.abs(line.amount) > Math.abs(scaled[max].amount) ? index : max),
+      0,
+    );
+    scaled[largest] = { ...scaled[largest], amount: scaled[largest].amount + drift };
+  }
+  return scaled;
+}
+
+/**
+ * Files every line under `from` against `to` instead, folding lines that end
+ * up sharing a category into one. Records that never used `from` come back
+ * unchanged so callers can compare by reference.
+ */
+export function reassignCategory<T extends Pick<Transaction, 'category' | 'splits'>>(
+  record: T,
+  from: string,
+  to: string,
+): T {
+  if (record.category !== from && !record.splits?.some((line) => line.category === from)) {
+    return record;
+  }
+  if (!record.splits || record.splits.length < 2) {
+    return { ...record, category: to, splits: undefined };
+  }
+
+  const lines: TransactionSplit[] = [];
+  record.splits.forEach((line) => {
+    const category = line.category === from ? to : line.category;
+    const existing = lines.find((candidate) => candidate.category === category);
+    if (existing) {
+      existing.amount += line.amount;
+    } else {
+      lines.push({ category, amount: line.amount });
+    }
+  });
+  return { ...record, category: lines[0].category, splits: lines.length > 1 ? lines : undefined };
+}
@@ -0,0 +1,36 @@
+type Keyed = { id: string };
+
+/** Orders concurrent writes: later time wins, the tab id breaks ties. */
+export type SyncStamp = { at: number; tab: string };
+
+export const isNewer = (stamp: SyncStamp, than?: SyncStamp) =>
+  !than || stamp.at > than.at || (stamp.at === than.at && stamp.tab > than.tab);
+
+export type CollectionChange<T extends Keyed = Keyed> = {
+  upserts: T[];
+  removed: string[];
+};
+
+/**
+ * Records added, replaced or removed between two versions of a collection.
+ * Store updates are immutable, so an unchanged record keeps its identity.
+ */
+export function diffCollection<T extends Keyed>(previous: T[], next: T[]): CollectionChange<T> | null {
+  if (previous === next) return null;
+  const before = new Map(previous.map((record) => [record.id, record]));
+  const remaining = new Set(next.map((record) => record.id));
+  const upserts = next.filter((record) => before.get(record.id) !== record);
+  const removed = previous.filter((record) => !remaining.has(record.id)).map((record) => record.id);
+  return upserts.length > 0 || removed.length > 0 ? { upserts, removed } : null;
+}
+
+/** Replaces records in place, appends new ones and drops removed ones; everything else is kept. */
+export function applyCollectionChange<T extends Keyed>(current: T[], { upserts, removed }: CollectionChange<T>) {
+  const dropped = new Set(removed);
+  const replacements = new Map(upserts.map((record) => [record.id, record]));
+  const present = new Set(current.map((record) => record.id));
+  return [
+    ...current.filter((record) => !dropped.has(record.id)).map((record) => replacements.get(record.id) ?? record),
+    ...upserts.filter((record) => !present.has(record.id)),
+  ];
+}
@@ -0,0 +1,52 @@
+import type { Transaction } from '@/store/use-app-store';
+
+/** Tags are compared and stored lowercase, without a leading `#`, with spaces as dashes. */
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+
+export function normalizeTags(tags?: string[]) {
+  const unique = Array.from(new Set((tags ?? []).map(normalizeTag).filter(Boolean)));
+  return unique.length > 0 ? unique : undefined;
+}
+
+export const hasTag = (transaction: Pick<Transaction, 'tags'>, tag: string) =>
+  transaction.tags?.includes(normalizeTag(tag)) ?? false;
+
+/** Every tag the user has used, most used first, for autocomplete and filters. */
+export function userTags(transactions: Transaction[], userId: string) {
+  const counts = new Map<string, number>();
+  transactions
+    .filter((transaction) => transaction.userId === userId)
+    .flatMap((transaction) => transaction.tags ?? [])
+    .forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  return Array.from(counts.entries())
+    .sort(([a, left], [b, right]) => right - left || a.localeCompare(b))
+    .map(([tag]) => tag);
+}
+
+export type TagSummary = {
+  tag: string;
+  count: number;
+  income: number;
+  expenses: number;
+};
+
+/**
+ * Income and spending per tag. A transaction with several tags counts
+ * towards each of them, so the rows do not add up to the overall totals.
+ */
+export function summarizeTags(transactions: Transaction[]): TagSummary[] {
+  const summaries = new Map<string, TagSummary>();
+  transactions.forEach((transaction) => {
+    transaction.tags?.forEach((tag) => {
+      const summary = summaries.get(tag) ?? { tag, count: 0, income: 0, expenses: 0 };
+      summary.count += 1;
+      if (transaction.type === 'income') summary.income += transaction.amount;
+      if (transaction.type === 'expense') summary.expenses += transaction.amount;
+      summaries.set(tag, summary);
+    });
+  });
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.expenses + b.income - (a.expenses + a.income) || a.tag.localeCompare(b.tag),
+  );
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { TwoFactor } from '@/store/use-app-store';
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  hotp,
+  matchTotp,
+  redeemCode,
+  totp,
+  totpCounter,
+} from '@/utils/totp';
+
+// The ASCII secret "12345678901234567890" from RFC 4226 and RFC 6238.
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+// Every clock below is pinned; nothing reads the real time.
+const NOW = new Date('2026-03-15T12:00:10.000Z');
+const at = (offsetSeconds: number) => new Date(NOW.getTime() + offsetSeconds * 1000);
+
+describe('base32', () => {
+  it('round-trips and tolerates hand-typed secrets', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(new TextDecoder().decode(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq=='))).toBe(
+      '12345678901234567890',
+    );
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('The secret is not valid base32.');
+  });
+});
+
+describe('hotp', () => {
+  it('matches the RFC 4226 test values', async () => {
+    const codes = await Promise.all(Array.from({ length: 10 }, (_, counter) => hotp(RFC_SECRET, counter)));
+    expect(codes).toEqual([
+      '755224',
+      '287082',
+      '359152',
+      '969429',
+      '338314',
+      '254676',
+      '287922',
+      '162583',
+      '399871',
+      '520489',
+    ]);
+  });
+});
+
+describe('totp', () => {
+  it.each([
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ])('matches the RFC 6238 SHA-1 value at %i seconds', async (seconds, code) => {
+    expect(await totp(RFC_SECRET, new Date(seconds * 1000), 8)).toBe(code);
+  });
+});
+
+describe('matchTotp', () => {
+  it('accepts codes one step either side of now and returns their step', async () => {
+    const current = totpCounter(NOW);
+    for (const drift of [-1, 0, 1]) {
+      const code = await hotp(RFC_SECRET, current + drift);
+      expect(await matchTotp(RFC_SECRET, code, NOW)).toBe(current + drift);
+    }
+  });
+
+  it('refuses codes further out than the drift window', async () => {
+    const current = totpCounter(NOW);
+    expect(await matchTotp(RFC_SECRET, await hotp(RFC_SECRET, current - 2), NOW)).toBeUndefined();
+    expect(await matchTotp(RFC_SECRET, await hotp(RFC_SECRET, current + 2), NOW)).toBeUndefined();
+  });
+
+  it('refuses a code from a step at or before the last one used', async () => {
+    const code = await totp(RFC_SECRET, NOW);
+    const counter = await matchTotp(RFC_SECRET, code, NOW);
+    expect(counter).toBe(totpCounter(NOW));
+    expect(await matchTotp(RFC_SECRET, code, at(20), counter)).toBeUndefined();
+    expect(await matchTotp(RFC_SECRET, await totp(RFC_SECRET, at(-30)), NOW, counter)).toBeUndefined();
+    expect(await matchTotp(RFC_SECRET, await totp(RFC_SECRET, at(30)), at(30), counter)).toBe(counter! + 1);
+  });
+
+  it('ignores spaces and refuses codes that are not six digits', async () => {
+    const code = await totp(RFC_SECRET, NOW);
+    expect(await matchTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, NOW)).toBe(totpCounter(NOW));
+    expect(await matchTotp(RFC_SECRET, code.slice(1), NOW)).toBeUndefined();
+    expect(await matchTotp(RFC_SECRET, 'abcdef', NOW)).toBeUndefined();
+  });
+});
+
+describe('recovery codes', () => {
+  it('are distinct XXXX-XXXX codes', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[A-Z2-7]{4}-[A-Z2-7]{4}$/));
+  });
+
+  it('hash the same however they are typed', async () => {
+    expect(await hashRecoveryCode('k7q2 m6xd')).toBe(await hashRecoveryCode('K7Q2-M6XD'));
+  });
+});
+
+describe('redeemCode', () => {
+  const enroll = async (): Promise<{ twoFactor: TwoFactor; codes: string[] }> => {
+    const codes = generateRecoveryCodes(3);
+    return {
+      codes,
+      twoFactor: {
+        secret: RFC_SECRET,
+        enabledAt: NOW.toISOString(),
+        recoveryCodeHashes: await Promise.all(codes.map(hashRecoveryCode)),
+        lastCounter: totpCounter(at(-60)),
+      },
+    };
+  };
+
+  it('uses up an authenticator code by moving the last step forward', async () => {
+    const { twoFactor } = await enroll();
+    const code = await totp(RFC_SECRET, NOW);
+
+    const redeemed = await redeemCode(twoFactor, code, NOW);
+    expect(redeemed).toEqual({ twoFactor: { ...twoFactor, lastCounter: totpCounter(NOW) }, recovery: false });
+    expect(await redeemCode(redeemed!.twoFactor, code, NOW)).toBeUndefined();
+  });
+
+  it('accepts each recovery code once', async () => {
+    const { twoFactor, codes } = await enroll();
+
+    const redeemed = await redeemCode(twoFactor, codes[1].toLowerCase(), NOW);
+    expect(redeemed?.recovery).toBe(true);
+    expect(redeemed?.twoFactor.recoveryCodeHashes).toEqual([
+      twoFactor.recoveryCodeHashes[0],
+      twoFactor.recoveryCodeHashes[2],
+    ]);
+    expect(await redeemCode(redeemed!.twoFactor, codes[1], NOW)).toBeUndefined();
+    expect((await redeemCode(redeemed!.twoFactor, codes[0], NOW))?.recovery).toBe(true);
+  });
+
+  it('refuses a wrong code', async () => {
+    const { twoFactor } = await enroll();
+    expect(await redeemCode(twoFactor, 'AAAA-AAAA', NOW)).toBeUndefined();
+  });
+});
@@ -0,0 +1,26 @@
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import type { TrashItem } from '@/store/use-app-store';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const purgeDate = (item: TrashItem) => addDays(parseISO(item.deletedAt), TRASH_RETENTION_DAYS);
+
+export const isExpired = (item: TrashItem, now = new Date()) => purgeDate(item) <= now;
+
+export const daysUntilPurge = (item: TrashItem, now = new Date()) =>
+  Math.max(0, differenceInCalendarDays(purgeDate(item), now));
+
+export function describeTrashItem(item: TrashItem) {
+  switch (item.kind) {
+    case 'transaction':
+      return { title: item.record.category, kindLabel: 'Transaction' };
+    case 'budget':
+      return { title: `${item.record.category} budget`, kindLabel: 'Budget' };
+    case 'receipt':
+      return { title: item.record.fileName, kindLabel: 'Receipt' };
+    case 'category':
+      return { title: item.record.name, kindLabel: 'Category' };
+    case 'payee':
+      return { title: item.record.name, kindLabel: 'Payee' };
+  }
+}
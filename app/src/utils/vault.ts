@@ -0,0 +1,87 @@
+import type { Transaction, TrashItem } from '@/store/use-app-store';
+
+type Owned = { id: string; userId?: string };
+
+/** One user's records, keyed by store collection. */
+export type Partition = Record<string, Owned[]>;
+
+// Collections whose records carry the owner's `userId`; keep in step with
+// `partialize` in the store. Users and receipts are matched separately.
+const OWNED_COLLECTIONS = [
+  'accounts',
+  'categories',
+  'payees',
+  'transactions',
+  'budgets',
+  'recurring',
+  'trash',
+  'audit',
+  'invoices',
+  'exchangeRates',
+  'analyticsLog',
+] as const;
+
+const asRecords = (value: unknown) => (Array.isArray(value) ? (value as Owned[]) : []);
+
+const trashedReceiptId = (item: TrashItem) =>
+  item.kind === 'receipt' ? item.record.id : item.kind === 'transaction' ? item.record.receiptId : undefined;
+
+/** Receipts referenced from a partition's transactions or trash; receipts have no owner field. */
+function referencedReceipts(partition: Partition) {
+  const trash = partition.trash as TrashItem[];
+  return new Set([
+    ...(partition.transactions as Transaction[]).map((transaction) => transaction.receiptId),
+    ...trash.map(trashedReceiptId),
+  ]);
+}
+
+/**
+ * The user whose partition a record is sealed in, or undefined for shared
+ * records. A receipt belongs to whoever references it in `state`, and is
+ * undefined while nothing does.
+ */
+export function recordOwner(state: Record<string, unknown>, collection: string, record: Owned) {
+  if (collection === 'users') return record.id;
+  if (collection === 'receipts') {
+    const transaction = (asRecords(state.transactions) as Transaction[]).find(
+      (candidate) => candidate.receiptId === record.id,
+    );
+    const trashed = (asRecords(state.trash) as TrashItem[]).find((item) => trashedReceiptId(item) === record.id);
+    return transaction?.userId ?? trashed?.userId;
+  }
+  return (OWNED_COLLECTIONS as readonly string[]).includes(collection) ? record.userId : undefined;
+}
+
+/** Splits a persisted state into one user's records and everyone else's. */
+export function splitPartition(state: Record<string, unknown>, userId: string) {
+  const own: Partition = {};
+  const rest: Partition = {};
+  const take = (key: string, belongs: (record: Owned) => boolean) => {
+    const records = asRecords(state[key]);
+    own[key] = records.filter(belongs);
+    rest[key] = records.filter((record) => !belongs(record));
+  };
+
+  take('users', (user) => user.id === userId);
+  OWNED_COLLECTIONS.forEach((key) => take(key, (record) => record.userId === userId));
+  const receipts = referencedReceipts(own);
+  take('receipts', (receipt) => receipts.has(receipt.id));
+  return { own, rest };
+}
+
+/** Adds a partition's records to a state, keeping any record the state already has. */
+export function mergePartition(state: Record<string, unknown>, partition: Partition) {
+  const merged: Partition = {};
+  Object.entries(partition).forEach(([key, records]) => {
+    const current = asRecords(state[key]);
+    const present = new Set(current.map((record) => record.id));
+    merged[key] = [...current, ...records.filter((record) => !present.has(record.id))];
+  });
+  return merged;
+}
+
+/** Every receipt blob a partition still needs, including receipts waiting in the trash. */
+export const partitionReceiptIds = (partition: Partition) => [
+  ...asRecords(partition.receipts).map((receipt) => receipt.id),
+  ...(asRecords(partition.trash) as TrashItem[]).flatMap((item) => (item.kind === 'receipt' ? [item.record.id] : [])),
+];